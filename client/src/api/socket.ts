@@ -1,5 +1,8 @@
 import { io, Socket } from 'socket.io-client';
-import type { ClientToServerEvents, ServerToClientEvents } from '../types';
+import type { BoardConfig, BotDifficulty, ChatChannel, ClientToServerEvents, ServerToClientEvents, SettingsChanges, Team, VotingMode } from '../types';
+
+const RESUME_TOKEN_KEY = 'connect4:resumeToken';
+const ADMIN_TOKEN_KEY = 'connect4:adminToken';
 
 class SocketManager {
   private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
@@ -53,19 +56,28 @@ class SocketManager {
   }
 
   // Helper methods for common operations
-  createRoom(password?: string, timerSec?: number): Promise<{ roomCode: string; adminToken: string }> {
+  createRoom(password?: string, timerSec?: number, board?: BoardConfig, votingMode?: VotingMode, seriesTarget?: number, vanityCode?: string): Promise<{ roomCode: string; adminToken: string }> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new Error('Not connected'));
         return;
       }
 
-      const payload: { password?: string; timerSec?: number } = {};
+      const payload: { password?: string; timerSec?: number; rows?: number; cols?: number; winLength?: number; votingMode?: VotingMode; seriesTarget?: number; vanityCode?: string } = {};
       if (password) payload.password = password;
       if (timerSec) payload.timerSec = timerSec;
+      if (board) {
+        payload.rows = board.rows;
+        payload.cols = board.cols;
+        payload.winLength = board.winLength;
+      }
+      if (votingMode) payload.votingMode = votingMode;
+      if (seriesTarget) payload.seriesTarget = seriesTarget;
+      if (vanityCode) payload.vanityCode = vanityCode;
       
       this.socket.emit('room:create', payload, (response) => {
         if (response.success) {
+          this.saveAdminToken(response.data.roomCode, response.data.adminToken);
           resolve(response.data);
         } else {
           reject(new Error(response.error));
@@ -81,19 +93,126 @@ class SocketManager {
         return;
       }
 
-      const payload: { roomCode: string; nickname: string; password?: string } = { roomCode, nickname };
+      const payload: { roomCode: string; nickname: string; password?: string; adminToken?: string } = { roomCode, nickname };
       if (password) payload.password = password;
+      // Rooms we created hand admin to us whenever we (re)join
+      const adminToken = this.getAdminToken(roomCode);
+      if (adminToken) payload.adminToken = adminToken;
       
       this.socket.emit('room:join', payload, (response) => {
         if (response.success) {
+          this.saveResumeToken(response.data.resumeToken);
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  spectateRoom(roomCode: string, nickname: string, password?: string): Promise<{ room: any; spectator: any }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      const payload: { roomCode: string; nickname: string; password?: string } = { roomCode, nickname };
+      if (password) payload.password = password;
+
+      this.socket.emit('room:spectate', payload, (response) => {
+        if (response.success) {
+          this.saveResumeToken(response.data.resumeToken);
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  // Reclaim our seat after a refresh or reconnect using the stored resume token
+  resumeSession(): Promise<{ room: any; you?: any; spectator?: any }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      const resumeToken = this.getResumeToken();
+      if (!resumeToken) {
+        reject(new Error('No session to resume'));
+        return;
+      }
+
+      const payload: { resumeToken: string; adminToken?: string } = { resumeToken };
+      const stored = this.getStoredAdminToken();
+      if (stored) payload.adminToken = stored.adminToken;
+
+      this.socket.emit('room:resume', payload, (response) => {
+        if (response.success) {
+          this.saveResumeToken(response.data.resumeToken);
           resolve(response.data);
         } else {
+          this.clearResumeToken();
           reject(new Error(response.error));
         }
       });
     });
   }
 
+  hasResumeToken(): boolean {
+    return this.getResumeToken() !== null;
+  }
+
+  clearResumeToken(): void {
+    try {
+      localStorage.removeItem(RESUME_TOKEN_KEY);
+    } catch {
+      // Storage unavailable (e.g. private mode); nothing to clear
+    }
+  }
+
+  private getResumeToken(): string | null {
+    try {
+      return localStorage.getItem(RESUME_TOKEN_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  private saveResumeToken(resumeToken: string | undefined): void {
+    if (!resumeToken) return;
+    try {
+      localStorage.setItem(RESUME_TOKEN_KEY, resumeToken);
+    } catch {
+      // Storage unavailable; reconnects will need a fresh join
+    }
+  }
+
+  private getAdminToken(roomCode: string): string | null {
+    const stored = this.getStoredAdminToken();
+    return stored && stored.roomCode === roomCode ? stored.adminToken : null;
+  }
+
+  private getStoredAdminToken(): { roomCode: string; adminToken: string } | null {
+    try {
+      const raw = localStorage.getItem(ADMIN_TOKEN_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveAdminToken(roomCode: string, adminToken: string | undefined): void {
+    if (!adminToken) return;
+    try {
+      localStorage.setItem(ADMIN_TOKEN_KEY, JSON.stringify({ roomCode, adminToken }));
+    } catch {
+      // Storage unavailable; admin falls back to whoever holds it in the room
+    }
+  }
+
   startGame(roomCode: string): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
@@ -111,14 +230,32 @@ class SocketManager {
     });
   }
 
-  castVote(roomCode: string, column: number): Promise<void> {
+  // The round lets the server drop a vote that arrives after its turn was resolved
+  castVote(roomCode: string, column: number, round?: number): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new Error('Not connected'));
         return;
       }
 
-      this.socket.emit('room:vote', { roomCode, column }, (response) => {
+      this.socket.emit('room:vote', { roomCode, column, round }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  castBallot(roomCode: string, ranking: number[], round?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:vote', { roomCode, ranking, round }, (response) => {
         if (response.success) {
           resolve();
         } else {
@@ -145,7 +282,212 @@ class SocketManager {
     });
   }
 
+  pauseGame(roomCode: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('game:pause', { roomCode }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  resumeGame(roomCode: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('game:resume', { roomCode }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  kickPlayer(roomCode: string, nickname: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:kick', { roomCode, nickname }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  updateSettings(roomCode: string, changes: SettingsChanges): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:updateSettings', { roomCode, ...changes }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  switchTeam(roomCode: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:switchTeam', { roomCode }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  movePlayer(roomCode: string, nickname: string, team: Team): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:movePlayer', { roomCode, nickname, team }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  shuffleTeams(roomCode: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:shuffleTeams', { roomCode }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  lockTeams(roomCode: string, locked: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:lockTeams', { roomCode, locked }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  addBot(roomCode: string, team?: Team, difficulty?: BotDifficulty): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:addBot', { roomCode, ...(team && { team }), ...(difficulty && { difficulty }) }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  playVsComputer(roomCode: string, difficulty?: BotDifficulty): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('room:vsComputer', { roomCode, ...(difficulty && { difficulty }) }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  sendChat(roomCode: string, channel: ChatChannel, text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('chat:send', { roomCode, channel, text }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
+  setMuted(roomCode: string, nickname: string, muted: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.socket.emit('chat:mute', { roomCode, nickname, muted }, (response) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  }
+
   leaveRoom(roomCode: string): void {
+    this.clearResumeToken();
     if (this.socket) {
       this.socket.emit('room:leave', { roomCode });
     }
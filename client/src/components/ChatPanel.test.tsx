@@ -0,0 +1,149 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChatPanel } from './ChatPanel';
+import type { Room, Player, Spectator, AppState, ChatMessage } from '../types';
+
+// Mock the AppContext
+const mockAppContext = {
+  state: {
+    room: null,
+    currentPlayer: null,
+    spectator: null,
+    error: null,
+  } as AppState,
+  sendChat: vi.fn(),
+  setMuted: vi.fn(),
+};
+
+vi.mock('../state/AppContext', () => ({
+  useAppContext: () => mockAppContext,
+}));
+
+const createMockPlayer = (overrides: Partial<Player> = {}): Player => ({
+  id: 'player-1',
+  nickname: 'TestPlayer',
+  team: 'red',
+  isAdmin: false,
+  matchingVotes: 0,
+  connected: true,
+  ...overrides,
+});
+
+const createMessage = (overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: 'm1',
+  senderId: 'player-2',
+  nickname: 'Teammate',
+  channel: 'team',
+  team: 'red',
+  text: 'go center',
+  sentAt: 1000,
+  ...overrides,
+});
+
+const createMockRoom = (overrides: Partial<Room> = {}): Room => ({
+  code: 'TEST123',
+  players: [
+    createMockPlayer(),
+    createMockPlayer({ id: 'player-2', nickname: 'Teammate' }),
+    createMockPlayer({ id: 'player-3', nickname: 'Rival', team: 'yellow' }),
+  ],
+  state: 'lobby',
+  settings: {
+    timerSec: 15,
+    maxPlayers: 10,
+    rows: 6,
+    cols: 7,
+    winLength: 4,
+    votingMode: 'plurality',
+    seriesTarget: 1,
+    startingTeam: 'red',
+  },
+  chat: [
+    createMessage(),
+    createMessage({ id: 'm2', senderId: 'player-3', nickname: 'Rival', channel: 'room', text: 'good luck all' }),
+  ],
+  createdAt: Date.now(),
+  ...overrides,
+});
+
+const renderChat = (room: Room, currentPlayer: Player | null, spectator: Spectator | null = null) => {
+  mockAppContext.state.room = room;
+  mockAppContext.state.currentPlayer = currentPlayer;
+  mockAppContext.state.spectator = spectator;
+  return render(<ChatPanel />);
+};
+
+describe('ChatPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAppContext.sendChat.mockResolvedValue(undefined);
+    mockAppContext.setMuted.mockResolvedValue(undefined);
+  });
+
+  it('should open on the team channel for players', () => {
+    renderChat(createMockRoom(), createMockPlayer());
+
+    expect(screen.getByText('go center')).toBeInTheDocument();
+    expect(screen.queryByText('good luck all')).not.toBeInTheDocument();
+  });
+
+  it('should switch to room messages', () => {
+    renderChat(createMockRoom(), createMockPlayer());
+
+    fireEvent.click(screen.getByText('💬 Room'));
+
+    expect(screen.getByText('good luck all')).toBeInTheDocument();
+    expect(screen.queryByText('go center')).not.toBeInTheDocument();
+  });
+
+  it('should send on the active channel and clear the input', async () => {
+    renderChat(createMockRoom(), createMockPlayer());
+
+    const input = screen.getByPlaceholderText('Message your team');
+    fireEvent.change(input, { target: { value: 'drop left' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      expect(mockAppContext.sendChat).toHaveBeenCalledWith('team', 'drop left');
+    });
+    await waitFor(() => {
+      expect(input).toHaveValue('');
+    });
+  });
+
+  it('should only offer room chat to spectators', () => {
+    renderChat(createMockRoom(), null, { id: 'spec-1', nickname: 'Watcher', connected: true });
+
+    expect(screen.queryByText(/Team/)).not.toBeInTheDocument();
+    expect(screen.getByText('good luck all')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Message everyone')).toBeInTheDocument();
+  });
+
+  it('should let the admin mute and unmute other senders', async () => {
+    const { rerender } = renderChat(createMockRoom(), createMockPlayer({ isAdmin: true }));
+
+    fireEvent.click(screen.getByText('Mute'));
+    await waitFor(() => {
+      expect(mockAppContext.setMuted).toHaveBeenCalledWith('Teammate', true);
+    });
+
+    mockAppContext.state.room = createMockRoom({ mutedIds: ['player-2'] });
+    rerender(<ChatPanel />);
+    fireEvent.click(screen.getByText('Unmute'));
+    await waitFor(() => {
+      expect(mockAppContext.setMuted).toHaveBeenCalledWith('Teammate', false);
+    });
+  });
+
+  it('should not show mute controls to regular players', () => {
+    renderChat(createMockRoom(), createMockPlayer());
+    expect(screen.queryByText('Mute')).not.toBeInTheDocument();
+  });
+
+  it('should replace the input with a notice when muted', () => {
+    renderChat(createMockRoom({ mutedIds: ['player-1'] }), createMockPlayer());
+
+    expect(screen.getByText('🔇 You are muted')).toBeInTheDocument();
+    expect(screen.queryByText('Send')).not.toBeInTheDocument();
+  });
+});
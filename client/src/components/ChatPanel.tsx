@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../state/AppContext';
+import type { ChatChannel } from '../types';
+import { MAX_CHAT_MESSAGE_LENGTH } from '../types';
+import { TEAM_STYLES } from './teams';
+
+export function ChatPanel() {
+  const { state, sendChat, setMuted } = useAppContext();
+  const { room, currentPlayer, spectator } = state;
+  const [channel, setChannel] = useState<ChatChannel>(currentPlayer ? 'team' : 'room');
+  const [draft, setDraft] = useState('');
+
+  if (!room || !(currentPlayer || spectator)) {
+    return null;
+  }
+
+  const viewerId = currentPlayer?.id ?? spectator?.id;
+  const isAdmin = currentPlayer?.isAdmin ?? false;
+  const mutedIds = room.mutedIds ?? [];
+  const isMuted = viewerId !== undefined && mutedIds.includes(viewerId);
+  // Spectators have no team, so they only ever see the room channel
+  const activeChannel: ChatChannel = currentPlayer ? channel : 'room';
+  const messages = (room.chat ?? []).filter(m => m.channel === activeChannel);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    try {
+      await sendChat(activeChannel, draft);
+      setDraft('');
+    } catch (error) {
+      console.error('Failed to send message:', error);
+    }
+  };
+
+  const handleToggleMute = async (nickname: string, muted: boolean) => {
+    try {
+      await setMuted(nickname, muted);
+    } catch (error) {
+      console.error('Failed to update mute:', error);
+    }
+  };
+
+  const tabClass = (tab: ChatChannel) => `flex-1 px-3 py-1 rounded-lg text-sm font-medium transition ${
+    activeChannel === tab ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-lg" aria-label="Chat">
+      <div className="flex gap-2 mb-3">
+        {currentPlayer && (
+          <button type="button" onClick={() => setChannel('team')} className={tabClass('team')}>
+            {TEAM_STYLES[currentPlayer.team].emoji} Team
+          </button>
+        )}
+        <button type="button" onClick={() => setChannel('room')} className={tabClass('room')}>
+          💬 Room
+        </button>
+      </div>
+
+      <ul className="h-48 overflow-y-auto space-y-1 mb-3 text-sm">
+        {messages.length === 0 && (
+          <li className="text-gray-400 text-center py-4">No messages yet</li>
+        )}
+        {messages.map(message => {
+          const senderMuted = mutedIds.includes(message.senderId);
+          return (
+            <li key={message.id} className="flex items-start justify-between gap-2">
+              <span className="break-words min-w-0">
+                <span className="font-semibold text-gray-800">{message.nickname}:</span>{' '}
+                <span className="text-gray-700">{message.text}</span>
+              </span>
+              {isAdmin && message.senderId !== viewerId && (
+                <button
+                  type="button"
+                  onClick={() => handleToggleMute(message.nickname, !senderMuted)}
+                  className="text-xs text-red-600 hover:text-red-800 shrink-0"
+                >
+                  {senderMuted ? 'Unmute' : 'Mute'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {isMuted ? (
+        <p className="text-sm text-gray-500 text-center">🔇 You are muted</p>
+      ) : (
+        <form onSubmit={handleSend} className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            placeholder={activeChannel === 'team' ? 'Message your team' : 'Message everyone'}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium transition"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GameEndView } from './GameEndView';
 import { AppProvider } from '../state/AppContext';
-import type { Room, Player, GameState, GameEndData, AppState } from '../types';
+import type { Room, Player, GameState, GameEndData, AppState, Team } from '../types';
 
 // Mock the AppContext
 const mockAppContext = {
@@ -13,6 +13,7 @@ const mockAppContext = {
     error: null,
   } as AppState,
   startRematch: vi.fn(),
+  leaveRoom: vi.fn(),
 };
 
 vi.mock('../state/AppContext', () => ({
@@ -39,6 +40,7 @@ const createMockPlayer = (overrides: Partial<Player> = {}): Player => ({
 
 const createMockGameState = (overrides: Partial<GameState> = {}): GameState => ({
   board: Array.from({ length: 6 }, () => Array.from({ length: 7 }, () => null)),
+  winLength: 4,
   currentTeam: 'red',
   round: 1,
   votes: {},
@@ -61,6 +63,12 @@ const createMockRoom = (overrides: Partial<Room> = {}): Room => ({
   settings: {
     timerSec: 15,
     maxPlayers: 10,
+    rows: 6,
+    cols: 7,
+    winLength: 4,
+    votingMode: 'plurality',
+    seriesTarget: 1,
+    startingTeam: 'red',
   },
   createdAt: Date.now(),
   ...overrides,
@@ -251,6 +259,17 @@ describe('GameEndView', () => {
       expect(yellowCells.length).toBeGreaterThan(0);
       expect(emptyCells.length).toBeGreaterThan(0);
     });
+
+    it('should mark squares still hidden by fog instead of drawing them empty', () => {
+      const gameState = createMockGameState();
+      gameState.board[5]![0] = 'hidden';
+      gameState.board[5]![1] = 'red';
+
+      renderGameEndView(createMockRoom({ game: gameState }), createMockPlayer(), createMockGameEndData({ line: [] }));
+
+      expect(screen.getAllByTitle('Hidden by fog')).toHaveLength(1);
+      expect(document.querySelectorAll('.bg-red-500.border-red-700')).toHaveLength(1);
+    });
   });
 
   describe('Team Rosters', () => {
@@ -435,6 +454,7 @@ describe('GameEndView', () => {
       const backButton = screen.getByRole('button', { name: '🏠 Back to Home' });
       fireEvent.click(backButton);
 
+      expect(mockAppContext.leaveRoom).toHaveBeenCalled();
       expect(window.location.reload).toHaveBeenCalled();
     });
 
@@ -459,6 +479,62 @@ describe('GameEndView', () => {
     });
   });
 
+  describe('Series Score', () => {
+    const seriesSettings = { ...createMockRoom().settings, seriesTarget: 2 };
+
+    it('should not show a series score for single games', () => {
+      const room = createMockRoom({ series: { wins: { red: 1, yellow: 0 }, gamesPlayed: 1 } });
+
+      renderGameEndView(room, createMockPlayer(), createMockGameEndData());
+
+      expect(screen.queryByLabelText('Series score')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '🔄 Play Again' })).toBeInTheDocument();
+    });
+
+    it('should show the running series score', () => {
+      const room = createMockRoom({
+        settings: seriesSettings,
+        series: { wins: { red: 1, yellow: 0 }, gamesPlayed: 1 },
+      });
+
+      renderGameEndView(room, createMockPlayer(), createMockGameEndData());
+
+      expect(screen.getByText('Series · first to 2 wins · game 1')).toBeInTheDocument();
+      expect(screen.getByText('🔴 1')).toBeInTheDocument();
+      expect(screen.getByText('0 🟡')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '▶️ Next Game' })).toBeInTheDocument();
+    });
+
+    it('should announce the series winner and offer a new series', () => {
+      const room = createMockRoom({
+        settings: seriesSettings,
+        series: { wins: { red: 1, yellow: 2 }, gamesPlayed: 3, winner: 'yellow' },
+      });
+
+      renderGameEndView(room, createMockPlayer(), createMockGameEndData({ result: 'yellow' }));
+
+      expect(screen.getByText('🏆 Yellow Team takes the series!')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '🔄 New Series' })).toBeInTheDocument();
+    });
+
+    it('should score every team in a three-team series', () => {
+      const teams: Team[] = ['red', 'yellow', 'green'];
+      const room = createMockRoom({
+        settings: { ...seriesSettings, teams },
+        game: createMockGameState({ teams }),
+        series: { wins: { red: 0, yellow: 1, green: 1 }, gamesPlayed: 2 },
+      });
+
+      renderGameEndView(room, createMockPlayer(), createMockGameEndData({ result: 'green' }));
+
+      expect(screen.getByText('Green Team Wins!')).toHaveClass('text-green-600');
+      expect(screen.getByText('🔴 0')).toBeInTheDocument();
+      expect(screen.getByText('🟡 1')).toBeInTheDocument();
+      expect(screen.getByText('🟢 1')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 4, name: /Green Team/ })).toHaveTextContent('🏆');
+    });
+  });
+
   describe('Game Outcomes', () => {
     it('should handle red team win correctly', () => {
       const room = createMockRoom();
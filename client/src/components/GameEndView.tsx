@@ -1,8 +1,10 @@
+import { Fragment } from 'react';
 import { useAppContext } from '../state/AppContext';
-import { Team } from '../types';
+import { Team, DEFAULT_TEAMS } from '../types';
+import { TEAM_STYLES, tokenClass } from './teams';
 
 export function GameEndView() {
-  const { state, startRematch } = useAppContext();
+  const { state, startRematch, leaveRoom } = useAppContext();
   
   if (!state.room || !state.room.game || !state.gameEndData) {
     return (
@@ -18,18 +20,20 @@ export function GameEndView() {
   const currentPlayer = state.currentPlayer;
   
   // Determine game outcome
-  const isWin = gameEndData.result !== 'draw';
   const isDraw = gameEndData.result === 'draw';
-  const winnerTeam = isWin ? gameEndData.result : undefined;
+  const winnerTeam = gameEndData.result !== 'draw' ? gameEndData.result : undefined;
   const winningLine = gameEndData.line;
+
+  // Series score carries across rematches; single-game rooms skip it
+  const series = room.settings.seriesTarget > 1 ? room.series : undefined;
+  const seriesWinner = series?.winner;
   
   // Player's team result
   const playerTeam = currentPlayer?.team;
   const playerWon = playerTeam && winnerTeam === playerTeam;
   
-  // Team rosters
-  const redTeam = players.filter(p => p.team === 'red');
-  const yellowTeam = players.filter(p => p.team === 'yellow');
+  // Team rosters, in turn order
+  const teams = room.game?.teams ?? room.settings.teams ?? DEFAULT_TEAMS;
   
   // Sorted players by matching votes (for MVP)
   const sortedPlayers = [...players].sort((a, b) => b.matchingVotes - a.matchingVotes);
@@ -47,31 +51,38 @@ export function GameEndView() {
 
   const handleBackToLobby = () => {
     // Reset to lobby view - this would need to be implemented on the server
-    // For now, we'll just navigate to home
+    // For now, we'll just navigate to home (leaving first so the reload doesn't resume our seat)
+    leaveRoom();
     window.location.reload();
   };
 
   const getResultTitle = () => {
     if (isDraw) return "It's a Draw!";
     if (playerWon) return "Your Team Won!";
-    if (isWin) return `${winnerTeam?.charAt(0).toUpperCase()}${winnerTeam?.slice(1)} Team Wins!`;
+    if (winnerTeam) return `${TEAM_STYLES[winnerTeam].label} Team Wins!`;
     return "Game Over";
   };
 
   const getResultColor = () => {
     if (isDraw) return "text-gray-600";
     if (playerWon) return "text-green-600";
-    if (isWin && winnerTeam === 'red') return "text-red-600";
-    if (isWin && winnerTeam === 'yellow') return "text-yellow-600";
+    if (winnerTeam) return TEAM_STYLES[winnerTeam].text;
     return "text-gray-600";
   };
 
+  const getPlayAgainLabel = () => {
+    if (!series) return '🔄 Play Again';
+    return seriesWinner ? '🔄 New Series' : '▶️ Next Game';
+  };
+
   const getTeamColor = (team: Team) => {
-    return team === 'red' ? 'text-red-600' : 'text-yellow-600';
+    return TEAM_STYLES[team].text;
   };
 
   const renderBoard = () => {
     const board = room.game!.board;
+    const columns = Array.from({ length: board[0]?.length ?? 0 }, (_, col) => col);
+    const boardGridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` };
     
     return (
       <div className="mb-8">
@@ -80,8 +91,8 @@ export function GameEndView() {
           {/* Board + Headers Container (shared padding) */}
           <div className="bg-blue-700 rounded-2xl p-4 shadow-xl w-full max-w-2xl">
             {/* Column Headers */}
-            <div className="grid grid-cols-7 gap-4 mb-3">
-              {[0, 1, 2, 3, 4, 5, 6].map(col => (
+            <div className="grid gap-4 mb-3" style={boardGridStyle}>
+              {columns.map(col => (
                 <div key={col} className="flex justify-center items-end">
                   <span className="text-gray-200 text-lg">↓</span>
                 </div>
@@ -89,7 +100,7 @@ export function GameEndView() {
             </div>
 
             {/* Connect 4 Board */}
-            <div className="grid grid-cols-7 gap-4 w-full">
+            <div className="grid gap-4 w-full" style={boardGridStyle}>
               {board.map((row, rowIndex) =>
                 row.map((cell, colIndex) => {
                   const isWinningCell = winningLine?.some(
@@ -102,18 +113,16 @@ export function GameEndView() {
                       className="aspect-square flex items-center justify-center cursor-default"
                     >
                       {/* Hole */}
-                      <div className={`w-full h-full rounded-full flex items-center justify-center ${
-                        isWinningCell ? 'bg-green-600 ring-4 ring-green-400 animate-pulse' : 'bg-blue-900'
-                      }`}>
+                      <div
+                        className={`w-full h-full rounded-full flex items-center justify-center ${
+                          isWinningCell ? 'bg-green-600 ring-4 ring-green-400 animate-pulse' : cell === 'hidden' ? 'bg-slate-500' : 'bg-blue-900'
+                        }`}
+                        title={cell === 'hidden' ? 'Hidden by fog' : undefined}
+                      >
                         {/* Token */}
-                        {cell !== null && (
+                        {cell !== null && cell !== 'hidden' && (
                           <div
-                            className={`w-[85%] h-[85%] rounded-full shadow-md border-2
-                              ${cell === 'red'
-                                ? 'bg-red-500 border-red-700'
-                                : cell === 'yellow'
-                                ? 'bg-yellow-400 border-yellow-600'
-                                : ''}`}
+                            className={`w-[85%] h-[85%] rounded-full shadow-md border-2 ${tokenClass(cell)}`}
                           />
                         )}
                         {/* Winning indicator */}
@@ -140,6 +149,11 @@ export function GameEndView() {
           <h1 className={`text-5xl font-bold mb-4 drop-shadow-lg ${getResultColor()}`}>
             {getResultTitle()}
           </h1>
+          {gameEndData.outOfTime && (
+            <p className="text-xl text-white mb-4 drop-shadow">
+              ⏰ {TEAM_STYLES[gameEndData.outOfTime].label} ran out of time
+            </p>
+          )}
           <div className="bg-white/90 backdrop-blur-sm rounded-xl px-6 py-3 inline-block shadow-xl">
             <span className="text-xl font-mono font-bold tracking-wider text-gray-800">
               Room: {room.code}
@@ -147,6 +161,35 @@ export function GameEndView() {
           </div>
         </div>
 
+        {/* Series Score */}
+        {series && (
+          <div className="text-center mb-10">
+            <div className="bg-white/95 backdrop-blur-sm rounded-xl px-8 py-4 inline-block shadow-xl" aria-label="Series score">
+              <p className="text-sm text-gray-600 mb-1">
+                Series · first to {room.settings.seriesTarget} wins · game {series.gamesPlayed}
+              </p>
+              <p className="text-3xl font-bold">
+                {teams.map((team, index) => (
+                  <Fragment key={team}>
+                    {index > 0 && <span className="text-gray-400 mx-3">–</span>}
+                    <span className={getTeamColor(team)}>
+                      {/* Head-to-head scores face each other: 🔴 1 – 0 🟡 */}
+                      {teams.length === 2 && index === 1
+                        ? `${series.wins[team] ?? 0} ${TEAM_STYLES[team].emoji}`
+                        : `${TEAM_STYLES[team].emoji} ${series.wins[team] ?? 0}`}
+                    </span>
+                  </Fragment>
+                ))}
+              </p>
+              {seriesWinner && (
+                <p className={`mt-2 text-lg font-bold ${getTeamColor(seriesWinner)}`}>
+                  🏆 {TEAM_STYLES[seriesWinner].label} Team takes the series!
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Game Board */}
         <div className="text-center mb-10">
           {renderBoard()}
@@ -159,37 +202,22 @@ export function GameEndView() {
             <h3 className="text-xl font-semibold mb-6 text-gray-800">Team Rosters</h3>
             
             <div className="grid grid-cols-2 gap-6">
-              {/* Red Team */}
-              <div>
-                <h4 className={`font-bold mb-3 text-lg ${getTeamColor('red')}`}>
-                  🔴 Red Team {winnerTeam === 'red' ? '🏆' : ''}
-                </h4>
-                <ul className="space-y-2">
-                  {redTeam.map(player => (
-                    <li key={player.id} className="text-sm p-2 rounded-lg bg-red-50">
-                      <span className="font-medium">{player.nickname}</span>
-                      {player.id === currentPlayer?.id && ' (You)'}
-                      {player.isAdmin && ' 👑'}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-              
-              {/* Yellow Team */}
-              <div>
-                <h4 className={`font-bold mb-3 text-lg ${getTeamColor('yellow')}`}>
-                  🟡 Yellow Team {winnerTeam === 'yellow' ? '🏆' : ''}
-                </h4>
-                <ul className="space-y-2">
-                  {yellowTeam.map(player => (
-                    <li key={player.id} className="text-sm p-2 rounded-lg bg-yellow-50">
-                      <span className="font-medium">{player.nickname}</span>
-                      {player.id === currentPlayer?.id && ' (You)'}
-                      {player.isAdmin && ' 👑'}
-                    </li>
-                  ))}
-                </ul>
-              </div>
+              {teams.map(team => (
+                <div key={team}>
+                  <h4 className={`font-bold mb-3 text-lg ${getTeamColor(team)}`}>
+                    {TEAM_STYLES[team].emoji} {TEAM_STYLES[team].label} Team {winnerTeam === team ? '🏆' : ''}
+                  </h4>
+                  <ul className="space-y-2">
+                    {players.filter(p => p.team === team).map(player => (
+                      <li key={player.id} className={`text-sm p-2 rounded-lg ${TEAM_STYLES[team].soft}`}>
+                        <span className="font-medium">{player.nickname}</span>
+                        {player.id === currentPlayer?.id && ' (You)'}
+                        {player.isAdmin && ' 👑'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -231,9 +259,7 @@ export function GameEndView() {
                       index === 2 ? 'bg-amber-600 text-white' :
                       'bg-gray-300 text-gray-700'
                     }`}>#{index + 1}</span>
-                    <div className={`w-4 h-4 rounded-full ${
-                      player.team === 'red' ? 'bg-red-500' : 'bg-yellow-400'
-                    }`}></div>
+                    <div className={`w-4 h-4 rounded-full ${TEAM_STYLES[player.team].dot}`}></div>
                     <span className="text-sm font-medium">
                       {player.nickname}
                       {player.id === currentPlayer?.id && ' (You)'}
@@ -255,7 +281,7 @@ export function GameEndView() {
               onClick={handlePlayAgain}
               className="px-8 py-4 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-xl hover:from-green-600 hover:to-green-700 font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-200 hover:scale-105"
             >
-              🔄 Play Again
+              {getPlayAgainLabel()}
             </button>
           )}
           
@@ -1,8 +1,8 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GameView } from './GameView';
 import { AppProvider } from '../state/AppContext';
-import type { Room, Player, GameState, Team } from '../types';
+import type { AppState, BoardCell, Room, Player, GameState, Team } from '../types';
 
 // Mock the socket manager
 vi.mock('../api/socket', () => ({
@@ -19,9 +19,13 @@ const mockAppContext = {
   state: {
     room: null,
     currentPlayer: null,
+    spectator: null,
     error: null,
-  },
+  } as AppState,
   castVote: vi.fn(),
+  castBallot: vi.fn(),
+  pauseGame: vi.fn(),
+  resumeGame: vi.fn(),
   leaveRoom: vi.fn(),
 };
 
@@ -43,6 +47,7 @@ const createMockPlayer = (overrides: Partial<Player> = {}): Player => ({
 
 const createMockGameState = (overrides: Partial<GameState> = {}): GameState => ({
   board: Array.from({ length: 6 }, () => Array.from({ length: 7 }, () => null)),
+  winLength: 4,
   currentTeam: 'red',
   round: 1,
   votes: {},
@@ -59,6 +64,12 @@ const createMockRoom = (overrides: Partial<Room> = {}): Room => ({
   settings: {
     timerSec: 15,
     maxPlayers: 10,
+    rows: 6,
+    cols: 7,
+    winLength: 4,
+    votingMode: 'plurality',
+    seriesTarget: 1,
+    startingTeam: 'red',
   },
   createdAt: Date.now(),
   ...overrides,
@@ -80,6 +91,7 @@ describe('GameView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockAppContext.state.error = null;
+    mockAppContext.state.spectator = null;
   });
 
   describe('Rendering', () => {
@@ -204,6 +216,22 @@ describe('GameView', () => {
       expect(cells).toHaveLength(42);
     });
 
+    it('should render a board sized by the game settings', () => {
+      const gameState = createMockGameState({
+        board: Array.from({ length: 8 }, () => Array.from({ length: 9 }, () => null)),
+        winLength: 5,
+        perColumnCounts: Array.from({ length: 9 }, () => 0),
+      });
+      const room = createMockRoom({ game: gameState });
+      const player = createMockPlayer();
+
+      renderGameView(room, player);
+
+      expect(screen.getAllByText('↓')).toHaveLength(9);
+      expect(document.querySelectorAll('[class*="aspect-square"]')).toHaveLength(72);
+      expect(screen.getByText(/Connect 5 pieces to win!/)).toBeInTheDocument();
+    });
+
     it('should render board with correct dimensions', () => {
       const room = createMockRoom();
       const player = createMockPlayer();
@@ -292,6 +320,255 @@ describe('GameView', () => {
         expect(screen.getByText(/Time:/)).toBeInTheDocument();
       }, { timeout: 1000 });
     });
+
+    it('should show both teams\' time banks in chess-clock rooms', () => {
+      const base = createMockRoom();
+      const room = createMockRoom({
+        settings: { ...base.settings, timeControl: { bankSec: 300, incrementSec: 5, onExpiry: 'lose' } },
+        game: createMockGameState({
+          endsAt: Date.now() + 245000,
+          clocks: { remainingMs: { red: 245000, yellow: 61000 }, incrementMs: 5000, runningSince: Date.now() },
+        }),
+      });
+      const player = createMockPlayer();
+
+      renderGameView(room, player);
+
+      expect(screen.getByText('5:00 + 5s per move')).toBeInTheDocument();
+      expect(screen.getByText('4:05')).toBeInTheDocument();
+      expect(screen.getByText('1:01')).toBeInTheDocument();
+    });
+
+    it('should explain how a tied vote was settled', () => {
+      const room = createMockRoom({ game: createMockGameState({ lastTieBreak: 'captain' }) });
+      const player = createMockPlayer();
+
+      renderGameView(room, player);
+
+      expect(screen.getByText(/Last move was a tie, settled by the team captain/)).toBeInTheDocument();
+    });
+
+    it('should not mention tie-breaks after a clear majority', () => {
+      const room = createMockRoom({ game: createMockGameState({ lastTieBreak: 'none' }) });
+      const player = createMockPlayer();
+
+      renderGameView(room, player);
+
+      expect(screen.queryByText(/Last move was a tie/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('PopOut', () => {
+    const popOutGame = () => {
+      const board = createMockGameState().board;
+      board[5]![0] = 'red';
+      board[5]![1] = 'yellow';
+      return createMockGameState({ variant: 'popout', board, perColumnCounts: Array.from({ length: 14 }, (_, move) => move === 7 ? 2 : 0) });
+    };
+
+    it('should only offer pops of the team\'s own bottom pieces', () => {
+      renderGameView(createMockRoom({ game: popOutGame() }), createMockPlayer({ team: 'red' }));
+
+      expect(screen.getByLabelText('Pop column 1')).toBeEnabled();
+      expect(screen.getByLabelText('Pop column 1')).toHaveTextContent('2');
+      expect(screen.getByLabelText('Pop column 2')).toBeDisabled();
+      expect(screen.getByLabelText('Pop column 3')).toBeDisabled();
+    });
+
+    it('should vote for a pop as its own move', () => {
+      renderGameView(createMockRoom({ game: popOutGame() }), createMockPlayer({ team: 'red' }));
+
+      fireEvent.click(screen.getByLabelText('Pop column 1'));
+
+      expect(mockAppContext.castVote).toHaveBeenCalledWith(7);
+    });
+
+    it('should not show pop controls in classic games', () => {
+      renderGameView(createMockRoom(), createMockPlayer());
+
+      expect(screen.queryByLabelText('Pop column 1')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Power-ups', () => {
+    const powerUpsGame = () => {
+      const board = createMockGameState().board;
+      board[5]![3] = 'wall';
+      return createMockGameState({
+        variant: 'powerups',
+        board,
+        perColumnCounts: Array.from({ length: 28 }, (_, move) => move === 16 ? 3 : 0),
+        powerUps: { red: { anvil: 1, bomb: 1, wall: 0 }, yellow: { anvil: 0, bomb: 0, wall: 0 } },
+      });
+    };
+
+    it('should offer the team\'s remaining special pieces', () => {
+      renderGameView(createMockRoom({ game: powerUpsGame() }), createMockPlayer({ team: 'red' }));
+
+      const pieces = screen.getByRole('group', { name: 'Piece to play' });
+      expect(within(pieces).getByText('🔵 Drop')).toHaveAttribute('aria-pressed', 'true');
+      expect(within(pieces).getByText('💣 Bomb (1)')).toBeEnabled();
+      expect(within(pieces).getByText('🧱 Wall (0)')).toBeDisabled();
+    });
+
+    it('should vote for the selected piece in the clicked column and show its counts', () => {
+      renderGameView(createMockRoom({ game: powerUpsGame() }), createMockPlayer({ team: 'red' }));
+
+      fireEvent.click(screen.getByText('💣 Bomb (1)'));
+      expect(screen.getByText('3')).toBeInTheDocument();
+      fireEvent.click(document.querySelectorAll('[class*="aspect-square"]')[2]!);
+
+      expect(mockAppContext.castVote).toHaveBeenCalledWith(16);
+    });
+
+    it('should draw walls as neutral pieces', () => {
+      renderGameView(createMockRoom({ game: powerUpsGame() }), createMockPlayer({ team: 'red' }));
+
+      expect(document.querySelectorAll('[class*="bg-gray-500 border-gray-700"]')).toHaveLength(1);
+    });
+
+    it('should not show the piece picker in classic games', () => {
+      renderGameView(createMockRoom(), createMockPlayer());
+
+      expect(screen.queryByRole('group', { name: 'Piece to play' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Fog of war', () => {
+    it('should cover the squares the team cannot see', () => {
+      const board: BoardCell[][] = createMockGameState().board.map(row => row.map(() => 'hidden'));
+      board[5]![0] = 'red';
+      const room = createMockRoom({
+        settings: { ...createMockRoom().settings, fogOfWar: true },
+        game: createMockGameState({ board }),
+      });
+
+      renderGameView(room, createMockPlayer({ team: 'red' }));
+
+      expect(screen.getAllByTitle('Hidden by fog')).toHaveLength(41);
+      expect(screen.getByText(/Fog of war: you only see/)).toBeInTheDocument();
+    });
+
+    it('should still let players vote for a column behind the fog', () => {
+      const board: BoardCell[][] = createMockGameState().board.map(row => row.map(() => 'hidden'));
+      renderGameView(createMockRoom({ game: createMockGameState({ board }) }), createMockPlayer({ team: 'red' }));
+
+      fireEvent.click(document.querySelectorAll('[class*="aspect-square"]')[4]!);
+
+      expect(mockAppContext.castVote).toHaveBeenCalledWith(4);
+    });
+  });
+
+  describe('Wrap-around', () => {
+    it('should show that the side edges connect', () => {
+      const room = createMockRoom({
+        settings: { ...createMockRoom().settings, wrapAround: true },
+        game: createMockGameState({ wrapAround: true }),
+      });
+
+      renderGameView(room, createMockPlayer());
+
+      expect(screen.getByText(/The left and right edges connect/)).toBeInTheDocument();
+      expect(screen.getByText(/Wrap-around: a line can run off one side/)).toBeInTheDocument();
+      expect(document.querySelector('.border-dashed.border-x-4')).toBeInTheDocument();
+    });
+
+    it('should not show the hint on a flat board', () => {
+      renderGameView(createMockRoom(), createMockPlayer());
+
+      expect(screen.queryByText(/The left and right edges connect/)).not.toBeInTheDocument();
+      expect(document.querySelector('.border-dashed.border-x-4')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('More than two teams', () => {
+    const teams: Team[] = ['red', 'yellow', 'green', 'blue'];
+
+    it('should show a panel for every team and mark whose turn it is', () => {
+      const room = createMockRoom({
+        settings: { ...createMockRoom().settings, teams },
+        players: [
+          createMockPlayer(),
+          createMockPlayer({ id: '2', nickname: 'Greenie', team: 'green', isAdmin: false }),
+          createMockPlayer({ id: '3', nickname: 'Bluey', team: 'blue', isAdmin: false }),
+        ],
+        game: createMockGameState({ teams, currentTeam: 'green' }),
+      });
+
+      renderGameView(room, createMockPlayer());
+
+      const greenPanel = screen.getByRole('heading', { level: 3, name: /Green Team/ });
+      expect(within(greenPanel).getByText('Current Turn')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 3, name: /Blue Team/ })).toBeInTheDocument();
+      expect(screen.getByText('Greenie')).toBeInTheDocument();
+      expect(screen.getByText('⏳ Waiting for 🟢 Green team to vote...')).toBeInTheDocument();
+    });
+
+    it('should draw green and blue pieces', () => {
+      const board: BoardCell[][] = createMockGameState().board.map(row => [...row]);
+      board[5]![0] = 'green';
+      board[5]![1] = 'blue';
+      const room = createMockRoom({
+        settings: { ...createMockRoom().settings, teams },
+        game: createMockGameState({ teams, board }),
+      });
+
+      renderGameView(room, createMockPlayer());
+
+      expect(document.querySelectorAll('.bg-green-500.border-green-700')).toHaveLength(1);
+      expect(document.querySelectorAll('.bg-sky-500.border-sky-700')).toHaveLength(1);
+    });
+
+    it('should list a clock for every team', () => {
+      const room = createMockRoom({
+        settings: { ...createMockRoom().settings, teams: ['red', 'yellow', 'green'] },
+        game: createMockGameState({
+          teams: ['red', 'yellow', 'green'],
+          clocks: { remainingMs: { red: 60000, yellow: 60000, green: 30000 }, incrementMs: 0 },
+        }),
+      });
+
+      renderGameView(room, createMockPlayer());
+
+      expect(screen.getByText('🟢 Green clock:')).toBeInTheDocument();
+      expect(screen.queryByText('🔵 Blue clock:')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Pausing', () => {
+    it('should let the admin pause a running game', () => {
+      renderGameView(createMockRoom(), createMockPlayer());
+
+      fireEvent.click(screen.getByText('⏸️ Pause Game'));
+
+      expect(mockAppContext.pauseGame).toHaveBeenCalled();
+      expect(screen.queryByRole('dialog', { name: 'Game paused' })).not.toBeInTheDocument();
+    });
+
+    it('should cover the board while paused and let the admin resume', () => {
+      const game = createMockGameState({ pausedRemainingMs: 9000 });
+      delete game.endsAt;
+      const room = createMockRoom({ game });
+      renderGameView(room, createMockPlayer());
+
+      const overlay = screen.getByRole('dialog', { name: 'Game paused' });
+      expect(overlay).toHaveTextContent('9s left in this turn');
+      fireEvent.click(within(overlay).getByText('▶️ Resume Game'));
+
+      expect(mockAppContext.resumeGame).toHaveBeenCalled();
+    });
+
+    it('should not vote or offer the controls to other players while paused', () => {
+      const game = createMockGameState({ pausedRemainingMs: 9000 });
+      delete game.endsAt;
+      const room = createMockRoom({ game });
+      renderGameView(room, createMockPlayer({ isAdmin: false }));
+
+      expect(screen.getByText('Waiting for the admin to resume the game...')).toBeInTheDocument();
+      expect(screen.queryByText(/Resume Game/)).not.toBeInTheDocument();
+      fireEvent.click(document.querySelectorAll('[class*="aspect-square"]')[0]!);
+      expect(mockAppContext.castVote).not.toHaveBeenCalled();
+    });
   });
 
   describe('Voting System', () => {
@@ -355,6 +632,57 @@ describe('GameView', () => {
       expect(mockAppContext.castVote).toHaveBeenCalledWith(0);
     });
 
+    it('should build a ranking from column clicks in ranked-choice rooms', async () => {
+      mockAppContext.castBallot.mockResolvedValue(undefined);
+      const room = createMockRoom();
+      room.settings.votingMode = 'ranked';
+      const player = createMockPlayer({ team: 'red' });
+
+      renderGameView(room, player);
+
+      const cells = document.querySelectorAll('[class*="aspect-square"]');
+      fireEvent.click(cells[3]!);
+      fireEvent.click(cells[1]!);
+      fireEvent.click(cells[5]!);
+      fireEvent.click(cells[1]!); // Clicking again removes the column
+      fireEvent.click(cells[6]!);
+
+      expect(mockAppContext.castVote).not.toHaveBeenCalled();
+      expect(screen.getByText('#1')).toBeInTheDocument();
+      expect(screen.getByText('#3')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Ranking' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.castBallot).toHaveBeenCalledWith([3, 5, 6]);
+      });
+    });
+
+    it('should cap rankings at three columns', () => {
+      const room = createMockRoom();
+      room.settings.votingMode = 'ranked';
+      const player = createMockPlayer({ team: 'red' });
+
+      renderGameView(room, player);
+
+      const cells = document.querySelectorAll('[class*="aspect-square"]');
+      [0, 1, 2, 3].forEach(col => fireEvent.click(cells[col]!));
+
+      expect(screen.queryByText('#4')).not.toBeInTheDocument();
+    });
+
+    it('should show the submitted ranking while waiting', () => {
+      const room = createMockRoom({
+        game: createMockGameState({ votes: { 'player-1': 3 }, ballots: { 'player-1': [3, 0] } }),
+      });
+      room.settings.votingMode = 'ranked';
+      const player = createMockPlayer({ team: 'red' });
+
+      renderGameView(room, player);
+
+      expect(screen.getByText('Your ranking: 4 → 1')).toBeInTheDocument();
+    });
+
     it('should not allow voting when not your team\'s turn', () => {
       const room = createMockRoom({ game: createMockGameState({ currentTeam: 'yellow' }) });
       const player = createMockPlayer({ team: 'red' });
@@ -518,6 +846,38 @@ describe('GameView', () => {
     });
   });
 
+  describe('Spectators', () => {
+    const renderAsSpectator = (room: Room) => {
+      mockAppContext.state.room = room;
+      mockAppContext.state.currentPlayer = null;
+      mockAppContext.state.spectator = { id: 'watcher', nickname: 'OfficeTV', connected: true };
+
+      return render(
+        <AppProvider>
+          <GameView />
+        </AppProvider>
+      );
+    };
+
+    it('should render the game read-only', () => {
+      const room = createMockRoom({ spectators: [{ id: 'watcher', nickname: 'OfficeTV', connected: true }] });
+
+      renderAsSpectator(room);
+
+      expect(screen.getByText(/Spectating · waiting for/)).toBeInTheDocument();
+      expect(screen.queryByText('🎯 Click a column to vote!')).not.toBeInTheDocument();
+      expect(screen.getByText('👀 Watching:')).toBeInTheDocument();
+    });
+
+    it('should not cast votes when a spectator clicks the board', () => {
+      const { container } = renderAsSpectator(createMockRoom());
+
+      fireEvent.click(container.querySelector('.aspect-square')!);
+
+      expect(mockAppContext.castVote).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty player lists', () => {
       const room = createMockRoom({ players: [] });
@@ -534,7 +894,7 @@ describe('GameView', () => {
 
     it('should handle missing game settings', () => {
       const room = createMockRoom({
-        settings: { timerSec: 0, maxPlayers: 0 },
+        settings: { timerSec: 0, maxPlayers: 0, rows: 6, cols: 7, winLength: 4, votingMode: 'plurality', seriesTarget: 1, startingTeam: 'red' },
       });
       const player = createMockPlayer();
 
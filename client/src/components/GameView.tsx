@@ -1,37 +1,45 @@
 import { useState, useEffect } from 'react';
 import { useAppContext } from '../state/AppContext';
+import { ChatPanel } from './ChatPanel';
+import type { MoveKind, PowerUp, Team, TieBreakRule } from '../types';
+import { DEFAULT_TEAMS, MAX_RANKED_CHOICES, MOVE_KINDS, toMove } from '../types';
+import { TEAM_STYLES, teamName, tokenClass } from './teams';
 
+const TIE_BREAK_LABELS: Record<Exclude<TieBreakRule, 'none'>, string> = {
+  captain: 'settled by the team captain',
+  random: 'settled at random',
+  center: 'settled by picking the most central column',
+  leftmost: 'settled by picking the leftmost column',
+};
+
+const PIECE_LABELS: Record<'drop' | PowerUp, string> = {
+  drop: '🔵 Drop',
+  anvil: '🔨 Anvil',
+  bomb: '💣 Bomb',
+  wall: '🧱 Wall',
+};
 
 export function GameView() {
-  const { state, castVote, leaveRoom } = useAppContext();
-  const { room, currentPlayer } = state;
+  const { state, castVote, castBallot, pauseGame, resumeGame, leaveRoom } = useAppContext();
+  const { room, currentPlayer, spectator } = state;
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [ranking, setRanking] = useState<number[]>([]);
+  const [piece, setPiece] = useState<'drop' | PowerUp>('drop');
 
-  if (!room || !currentPlayer || !room.game) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 flex items-center justify-center p-4">
-        <div className="bg-white rounded-xl shadow-2xl p-8">
-          <p>Loading game...</p>
-        </div>
-      </div>
-    );
-  }
-
-  const { game } = room;
-  const isMyTeamsTurn = currentPlayer.team === game.currentTeam;
-  const hasVoted = game.votes && game.votes[currentPlayer.id] !== undefined;
-  const voteCounts = game.perColumnCounts || [0, 0, 0, 0, 0, 0, 0];
+  // Hooks run before the loading screen below so every render calls the same ones
+  const endsAt = room?.game?.endsAt;
+  const round = room?.game?.round;
 
   // Timer effect
   useEffect(() => {
-    if (!game.endsAt) {
+    if (!endsAt) {
       setTimeRemaining(null);
       return;
     }
 
     const updateTimer = () => {
       const now = Date.now();
-      const remaining = Math.max(0, game.endsAt! - now);
+      const remaining = Math.max(0, endsAt - now);
       setTimeRemaining(remaining);
       
       if (remaining <= 0) {
@@ -46,20 +54,91 @@ export function GameView() {
     const interval = setInterval(updateTimer, 100);
     
     return () => clearInterval(interval);
-  }, [game.endsAt]);
+  }, [endsAt]);
+
+  // Start each round with an empty ranking and a plain drop
+  useEffect(() => {
+    setRanking([]);
+    setPiece('drop');
+  }, [round]);
+
+  if (!room || !(currentPlayer || spectator) || !room.game) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl p-8">
+          <p>Loading game...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { game } = room;
+  // Spectators see the same board read-only
+  const isSpectator = !currentPlayer;
+  const isMyTeamsTurn = currentPlayer?.team === game.currentTeam;
+  const hasVoted = !!currentPlayer && game.votes && game.votes[currentPlayer.id] !== undefined;
+  const isRanked = room.settings.votingMode === 'ranked';
+  const submittedRanking = currentPlayer
+    ? game.ballots?.[currentPlayer.id] ?? (hasVoted ? [game.votes[currentPlayer.id]!] : [])
+    : [];
+  const spectators = room.spectators ?? [];
+  const isPaused = game.pausedRemainingMs !== undefined;
+  const columns = Array.from({ length: game.board[0]?.length ?? 0 }, (_, col) => col);
+  const voteCounts = game.perColumnCounts || columns.map(() => 0);
+  const boardGridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` };
+  const isPopOut = game.variant === 'popout';
+  const isPowerUps = game.variant === 'powerups';
+  const isWrapAround = game.wrapAround ?? false;
+  const myPowerUps = currentPlayer ? game.powerUps?.[currentPlayer.team] : undefined;
+  const bottomRow = game.board[game.board.length - 1] ?? [];
+  const moveKinds = MOVE_KINDS[game.variant ?? 'classic'];
+  const moveKind = (move: number): MoveKind => moveKinds[Math.floor(move / columns.length)] ?? 'drop';
+  const moveLabel = (move: number) => {
+    const kind = moveKind(move);
+    const col = move % columns.length + 1;
+    return kind === 'drop' ? `${col}` : `${kind} ${col}`;
+  };
+  // Clicking the board plays the selected piece in that column
+  const columnMove = (col: number) => toMove(piece, col, columns.length, game.variant);
 
   const formatTime = (ms: number) => {
     const seconds = Math.ceil(ms / 1000);
     return `${seconds}s`;
   };
 
+  // Time banks read like a chess clock, e.g. 4:05
+  const formatClock = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  // The voting team's bank is the open window, which counts down locally between ticks
+  const timeBank = (team: Team) =>
+    team === game.currentTeam && timeRemaining !== null ? timeRemaining : game.clocks?.remainingMs[team] ?? 0;
+  const timeControl = room.settings.timeControl;
+
 
 
-  const handleColumnClick = async (column: number) => {
-    if (!isMyTeamsTurn || hasVoted) return;
+  // Moves come in as move ids: a plain drop is the column, pops and special pieces come after
+  const handleColumnClick = async (move: number) => {
+    if (!isMyTeamsTurn || hasVoted || isPaused) return;
     
+    if (isRanked) {
+      // Clicking builds the ranking in order; clicking a ranked column again removes it
+      const col = move % columns.length;
+      // Under fog of war a hidden top square may still be open; the server has the final say
+      const top = game.board[0]?.[col];
+      const isOpen = moveKind(move) === 'pop' ? bottomRow[col] === currentPlayer?.team : top === null || top === 'hidden';
+      setRanking(prev => {
+        if (prev.includes(move)) return prev.filter(col => col !== move);
+        if (prev.length >= MAX_RANKED_CHOICES || !isOpen) return prev;
+        return [...prev, move];
+      });
+      return;
+    }
+
     try {
-      await castVote(column);
+      await castVote(move);
     } catch (error) {
       console.error('Failed to cast vote:', error);
     }
@@ -69,8 +148,25 @@ export function GameView() {
 
 
 
-  const redTeam = room.players.filter(p => p.team === 'red');
-  const yellowTeam = room.players.filter(p => p.team === 'yellow');
+  const handleTogglePause = async () => {
+    try {
+      await (isPaused ? resumeGame() : pauseGame());
+    } catch (error) {
+      console.error('Failed to pause or resume the game:', error);
+    }
+  };
+
+  const handleSubmitRanking = async () => {
+    if (ranking.length === 0) return;
+
+    try {
+      await castBallot(ranking);
+    } catch (error) {
+      console.error('Failed to cast ballot:', error);
+    }
+  };
+
+  const teams = game.teams ?? room.settings.teams ?? DEFAULT_TEAMS;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 p-6">
@@ -95,55 +191,34 @@ export function GameView() {
         <div className="grid lg:grid-cols-3 gap-6 lg:gap-8 xl:gap-12 2xl:gap-16 3xl:gap-20 4xl:gap-24 5xl:gap-28 6xl:gap-32 7xl:gap-36 8xl:gap-40 9xl:gap-44 10xl:gap-48 11xl:gap-52 12xl:gap-56 13xl:gap-60">
           {/* Team Info - Left */}
           <div className="space-y-6 max-w-sm lg:max-w-md xl:max-w-lg 2xl:max-w-xl 3xl:max-w-2xl 4xl:max-w-3xl 5xl:max-w-4xl 6xl:max-w-5xl 7xl:max-w-6xl 8xl:max-w-7xl 9xl:max-w-8xl 10xl:max-w-9xl 11xl:max-w-10xl 12xl:max-w-11xl">
-            {/* Red Team */}
-            <div className={`p-6 rounded-xl shadow-lg ${game.currentTeam === 'red' ? 'bg-gradient-to-br from-red-50 to-red-100 border-2 border-red-500' : 'bg-gradient-to-br from-red-50 to-red-75 border border-red-200'}`}>
-              <h3 className="text-xl font-bold text-red-700 mb-4 flex items-center">
-                🔴 Red Team {game.currentTeam === 'red' && (
-                  <span className="ml-2 bg-red-500 text-white px-3 py-1 rounded-full text-sm animate-pulse">
-                    Current Turn
-                  </span>
-                )}
-              </h3>
-              <div className="space-y-2">
-                {redTeam.map(player => (
-                  <div key={player.id} className={`text-sm p-3 rounded-lg ${player.id === currentPlayer.id ? 'bg-red-200 font-bold shadow-md' : 'bg-white shadow-sm'}`}>
-                    <div className="flex items-center justify-between">
-                      <span>{player.nickname}</span>
-                      {game.votes && game.votes[player.id] !== undefined && (
-                        <span className="bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium">
-                          ✓ Voted
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {/* Yellow Team */}
-            <div className={`p-6 rounded-xl shadow-lg ${game.currentTeam === 'yellow' ? 'bg-gradient-to-br from-yellow-50 to-yellow-100 border-2 border-yellow-500' : 'bg-gradient-to-br from-yellow-50 to-yellow-75 border border-yellow-200'}`}>
-              <h3 className="text-xl font-bold text-yellow-700 mb-4 flex items-center">
-                🟡 Yellow Team {game.currentTeam === 'yellow' && (
-                  <span className="ml-2 bg-yellow-500 text-white px-3 py-1 rounded-full text-sm animate-pulse">
-                    Current Turn
-                  </span>
-                )}
-              </h3>
-              <div className="space-y-2">
-                {yellowTeam.map(player => (
-                  <div key={player.id} className={`text-sm p-3 rounded-lg ${player.id === currentPlayer.id ? 'bg-yellow-200 font-bold shadow-md' : 'bg-white shadow-sm'}`}>
-                    <div className="flex items-center justify-between">
-                      <span>{player.nickname}</span>
-                      {game.votes && game.votes[player.id] !== undefined && (
-                        <span className="bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium">
-                          ✓ Voted
-                        </span>
-                      )}
-                    </div>
+            {teams.map(team => {
+              const style = TEAM_STYLES[team];
+              return (
+                <div key={team} className={`p-6 rounded-xl shadow-lg ${game.currentTeam === team ? style.panelActive : style.panelIdle}`}>
+                  <h3 className={`text-xl font-bold ${style.heading} mb-4 flex items-center`}>
+                    {style.emoji} {style.label} Team {game.currentTeam === team && (
+                      <span className={`ml-2 ${style.badge} text-white px-3 py-1 rounded-full text-sm animate-pulse`}>
+                        Current Turn
+                      </span>
+                    )}
+                  </h3>
+                  <div className="space-y-2">
+                    {room.players.filter(p => p.team === team).map(player => (
+                      <div key={player.id} className={`text-sm p-3 rounded-lg ${player.id === currentPlayer?.id ? `${style.highlight} font-bold shadow-md` : 'bg-white shadow-sm'}`}>
+                        <div className="flex items-center justify-between">
+                          <span>{player.bot && '🤖 '}{player.nickname}</span>
+                          {game.votes && game.votes[player.id] !== undefined && (
+                            <span className="bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium">
+                              ✓ Voted
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </div>
+                </div>
+              );
+            })}
 
             {/* Game Info */}
             <div className="bg-white p-6 rounded-xl shadow-lg">
@@ -155,8 +230,23 @@ export function GameView() {
                 </div>
                 <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
                   <span>Timer:</span>
-                  <span className="font-bold text-purple-600">{room.settings.timerSec}s per turn</span>
+                  <span className="font-bold text-purple-600">
+                    {timeControl
+                      ? `${formatClock(timeControl.bankSec * 1000)} + ${timeControl.incrementSec}s per move`
+                      : `${room.settings.timerSec}s per turn`}
+                  </span>
                 </div>
+                {game.clocks && teams.map(team => (
+                  <div
+                    key={team}
+                    className={`flex items-center justify-between p-2 rounded-lg ${
+                      team === game.currentTeam ? 'bg-blue-50 font-bold' : 'bg-gray-50'
+                    }`}
+                  >
+                    <span>{teamName(team)} clock:</span>
+                    <span className={TEAM_STYLES[team].text}>{formatClock(timeBank(team))}</span>
+                  </div>
+                ))}
                 {timeRemaining !== null && (
                   <div className={`flex items-center justify-between p-2 rounded-lg font-bold ${
                     timeRemaining <= 5000 ? 'bg-red-50 text-red-600' : 'bg-blue-50 text-blue-600'
@@ -165,6 +255,17 @@ export function GameView() {
                     <span>{formatTime(timeRemaining)} remaining</span>
                   </div>
                 )}
+                {spectators.length > 0 && (
+                  <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                    <span>👀 Watching:</span>
+                    <span className="font-bold text-gray-700">{spectators.length}</span>
+                  </div>
+                )}
+                {game.lastTieBreak && game.lastTieBreak !== 'none' && (
+                  <div className="p-2 bg-amber-50 text-amber-700 rounded-lg">
+                    ⚖️ Last move was a tie, {TIE_BREAK_LABELS[game.lastTieBreak]}
+                  </div>
+                )}
                 {isMyTeamsTurn && (
                   <div className={`p-3 rounded-lg font-bold ${
                     hasVoted ? 'bg-green-50 text-green-600' : 'bg-blue-50 text-blue-600'
@@ -178,15 +279,19 @@ export function GameView() {
 
           {/* Game Board - Center */}
           <div className="flex flex-col items-center px-4 w-full max-w-5xl mx-auto mt-8">
-            {/* Board + Headers Container (shared padding) */}
-            <div className="bg-blue-700 rounded-2xl p-4 shadow-xl w-full">
+            {/* Board + Headers Container (shared padding); dashed sides show the edges connect */}
+            <div className={`bg-blue-700 rounded-2xl p-4 shadow-xl w-full ${isWrapAround ? 'border-x-4 border-dashed border-cyan-300' : ''}`}>
               {/* Column Headers */}
-              <div className="grid grid-cols-7 gap-4 mb-3">
-                {[0, 1, 2, 3, 4, 5, 6].map(col => (
+              <div className="grid gap-4 mb-3" style={boardGridStyle}>
+                {columns.map(col => (
                   <div key={col} className="flex justify-center items-end">
-                    {(voteCounts[col] || 0) > 0 ? (
+                    {isRanked && !hasVoted && ranking.includes(columnMove(col)) ? (
+                      <span className="bg-amber-500 text-white px-3 py-1 rounded-full text-sm font-bold shadow-md">
+                        #{ranking.indexOf(columnMove(col)) + 1}
+                      </span>
+                    ) : (voteCounts[columnMove(col)] || 0) > 0 ? (
                       <span className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm font-medium shadow-md">
-                        {voteCounts[col]}
+                        {voteCounts[columnMove(col)]}
                       </span>
                     ) : (
                       <span className="text-gray-200 text-lg">↓</span>
@@ -196,25 +301,23 @@ export function GameView() {
                </div>
 
               {/* Connect 4 Board */}
-              <div className="grid grid-cols-7 gap-4 w-full">
+              <div className="grid gap-4 w-full" style={boardGridStyle}>
                 {game.board.map((row, rowIndex) =>
-                  [0, 1, 2, 3, 4, 5, 6].map(colIndex => (
+                  columns.map(colIndex => (
                     <div
                       key={`${rowIndex}-${colIndex}`}
-                      onClick={() => handleColumnClick(colIndex)}
-                      className="aspect-square flex items-center justify-center cursor-pointer"
+                      onClick={() => handleColumnClick(columnMove(colIndex))}
+                      className={`aspect-square flex items-center justify-center ${isSpectator ? 'cursor-default' : 'cursor-pointer'}`}
                     >
-                      {/* Hole */}
-                      <div className="w-full h-full rounded-full bg-blue-900 flex items-center justify-center">
+                      {/* Hole; fog of war covers the squares this team can't see */}
+                      <div
+                        className={`w-full h-full rounded-full flex items-center justify-center ${row[colIndex] === 'hidden' ? 'bg-slate-500' : 'bg-blue-900'}`}
+                        title={row[colIndex] === 'hidden' ? 'Hidden by fog' : undefined}
+                      >
                         {/* Token */}
-                        {row[colIndex] !== null && (
+                        {row[colIndex] !== null && row[colIndex] !== 'hidden' && (
                           <div
-                            className={`w-[85%] h-[85%] rounded-full shadow-md border-2
-                              ${row[colIndex] === 'red'
-                                ? 'bg-red-500 border-red-700'
-                                : row[colIndex] === 'yellow'
-                                ? 'bg-yellow-400 border-yellow-600'
-                                : ''}`}
+                            className={`w-[85%] h-[85%] rounded-full shadow-md border-2 ${tokenClass(row[colIndex])}`}
                           />
                         )}
                       </div>
@@ -222,18 +325,94 @@ export function GameView() {
                   ))
                 )}
               </div>
-            </div>
 
+              {/* PopOut: pop one of your own pieces out of the bottom row instead of dropping */}
+              {isPopOut && (
+                <div className="grid gap-4 mt-3" style={boardGridStyle}>
+                  {columns.map(col => {
+                    const move = toMove('pop', col, columns.length, game.variant);
+                    const canPop = !isSpectator && isMyTeamsTurn && !hasVoted && !isPaused && bottomRow[col] === currentPlayer?.team;
+                    return (
+                      <button
+                        key={col}
+                        onClick={() => handleColumnClick(move)}
+                        disabled={!canPop}
+                        aria-label={`Pop column ${col + 1}`}
+                        className="bg-blue-900 text-white rounded-lg py-1 text-sm font-medium disabled:opacity-30 disabled:cursor-not-allowed hover:bg-blue-950"
+                      >
+                        {isRanked && !hasVoted && ranking.includes(move)
+                          ? `#${ranking.indexOf(move) + 1}`
+                          : `⏏ ${voteCounts[move] || ''}`}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
 
+              {isWrapAround && (
+                <p className="mt-3 text-center text-sm font-medium text-cyan-200">
+                  ⇠ The left and right edges connect: lines can wrap around ⇢
+                </p>
+              )}
+            </div>
 
+            {/* Power-ups: pick the piece that clicking a column plays */}
+            {isPowerUps && myPowerUps && (
+              <div className="flex justify-center gap-2 mt-4" role="group" aria-label="Piece to play">
+                {(['drop', 'anvil', 'bomb', 'wall'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setPiece(kind)}
+                    disabled={!isMyTeamsTurn || hasVoted || isPaused || (kind !== 'drop' && myPowerUps[kind] === 0)}
+                    aria-pressed={piece === kind}
+                    className={`px-4 py-2 rounded-xl text-sm font-medium shadow-md disabled:opacity-40 disabled:cursor-not-allowed ${
+                      piece === kind ? 'bg-amber-500 text-white' : 'bg-white text-gray-800 hover:bg-gray-100'
+                    }`}
+                  >
+                    {PIECE_LABELS[kind]}{kind !== 'drop' && ` (${myPowerUps[kind]})`}
+                  </button>
+                ))}
+              </div>
+            )}
 
             {/* Action Buttons */}
             <div className="mt-12 lg:mt-16 xl:mt-20 2xl:mt-24 3xl:mt-28 4xl:mt-32 5xl:mt-36 6xl:mt-40 7xl:mt-44 8xl:mt-48 9xl:mt-52 10xl:mt-56 11xl:mt-60 space-y-4">
               <div className="text-center">
-                {isMyTeamsTurn ? (
+                {isSpectator ? (
+                  <div className="bg-gray-500 text-white px-6 py-3 rounded-xl font-medium shadow-lg">
+                    👀 Spectating · waiting for {teamName(game.currentTeam)} team to vote...
+                  </div>
+                ) : isMyTeamsTurn ? (
                   hasVoted ? (
                     <div className="bg-green-500 text-white px-6 py-3 rounded-xl font-medium shadow-lg">
                       ✓ Waiting for other team members to vote...
+                      {isRanked && (
+                        <div className="text-sm mt-1">
+                          Your ranking: {submittedRanking.map(moveLabel).join(' → ')}
+                        </div>
+                      )}
+                    </div>
+                  ) : isRanked ? (
+                    <div className="space-y-3">
+                      <div className="bg-blue-500 text-white px-6 py-3 rounded-xl font-medium shadow-lg">
+                        🎯 Click up to {MAX_RANKED_CHOICES} columns in order of preference
+                      </div>
+                      <div className="flex justify-center gap-3">
+                        <button
+                          onClick={handleSubmitRanking}
+                          disabled={ranking.length === 0}
+                          className="bg-green-600 text-white px-6 py-2 rounded-xl hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-lg"
+                        >
+                          Submit Ranking
+                        </button>
+                        <button
+                          onClick={() => setRanking([])}
+                          disabled={ranking.length === 0}
+                          className="bg-gray-500 text-white px-6 py-2 rounded-xl hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-lg"
+                        >
+                          Clear
+                        </button>
+                      </div>
                     </div>
                   ) : (
                     <div className="bg-blue-500 text-white px-6 py-3 rounded-xl font-medium shadow-lg animate-pulse">
@@ -242,12 +421,20 @@ export function GameView() {
                   )
                 ) : (
                   <div className="bg-gray-500 text-white px-6 py-3 rounded-xl font-medium shadow-lg">
-                    ⏳ Waiting for {game.currentTeam === 'red' ? '🔴 Red' : '🟡 Yellow'} team to vote...
+                    ⏳ Waiting for {teamName(game.currentTeam)} team to vote...
                   </div>
                 )}
               </div>
               
-              <div className="flex justify-center">
+              <div className="flex justify-center gap-4">
+                {currentPlayer?.isAdmin && (
+                  <button
+                    onClick={handleTogglePause}
+                    className="bg-gray-700 text-white px-6 py-3 rounded-xl hover:bg-gray-800 transition-all duration-200 hover:scale-105 shadow-lg font-medium"
+                  >
+                    {isPaused ? '▶️ Resume Game' : '⏸️ Pause Game'}
+                  </button>
+                )}
                 <button
                   onClick={leaveRoom}
                   className="bg-red-600 text-white px-6 py-3 rounded-xl hover:bg-red-700 transition-all duration-200 hover:scale-105 shadow-lg font-medium"
@@ -336,6 +523,8 @@ export function GameView() {
               </div>
             )} */}
 
+            <ChatPanel />
+
             {/* Game Rules */}
             <div className="bg-white p-6 rounded-xl shadow-lg">
               <h3 className="font-bold text-gray-800 mb-4 text-lg">📖 How to Play</h3>
@@ -350,17 +539,63 @@ export function GameView() {
                 </li>
                 <li className="flex items-start">
                   <span className="text-blue-500 mr-2">•</span>
-                  Majority vote wins
+                  {isRanked ? 'Ranked ballots decided by instant-runoff' : 'Majority vote wins'} (team captain breaks ties)
                 </li>
+                {isPopOut && (
+                  <li className="flex items-start">
+                    <span className="text-blue-500 mr-2">•</span>
+                    PopOut: instead of dropping, pop one of your own pieces out of the bottom row (⏏)
+                  </li>
+                )}
+                {room.settings.fogOfWar && (
+                  <li className="flex items-start">
+                    <span className="text-blue-500 mr-2">•</span>
+                    Fog of war: you only see the squares around your pieces and each team's latest move
+                  </li>
+                )}
+                {isWrapAround && (
+                  <li className="flex items-start">
+                    <span className="text-blue-500 mr-2">•</span>
+                    Wrap-around: a line can run off one side of the board and continue on the other
+                  </li>
+                )}
+                {isPowerUps && (
+                  <li className="flex items-start">
+                    <span className="text-blue-500 mr-2">•</span>
+                    Power-ups: an anvil crushes its column, a bomb clears the pieces around it, a wall blocks both teams
+                  </li>
+                )}
                 <li className="flex items-start">
                   <span className="text-blue-500 mr-2">•</span>
-                  Connect 4 pieces to win!
+                  Connect {game.winLength} pieces to win!
                 </li>
               </ul>
             </div>
           </div>
         </div>
       </div>
+
+      {/* Paused overlay; the admin resumes from here */}
+      {isPaused && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-4" role="dialog" aria-label="Game paused">
+          <div className="bg-white rounded-xl shadow-2xl p-8 text-center max-w-sm">
+            <h2 className="text-3xl font-bold text-gray-800 mb-2">⏸️ Game Paused</h2>
+            <p className="text-gray-600 mb-6">
+              {formatTime(game.pausedRemainingMs!)} left in this turn once the game resumes
+            </p>
+            {currentPlayer?.isAdmin ? (
+              <button
+                onClick={handleTogglePause}
+                className="bg-green-600 text-white px-6 py-3 rounded-xl hover:bg-green-700 transition-all duration-200 shadow-lg font-medium"
+              >
+                ▶️ Resume Game
+              </button>
+            ) : (
+              <p className="text-sm text-gray-500">Waiting for the admin to resume the game...</p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -12,6 +12,7 @@ const mockAppContext = {
   } as AppState,
   createRoom: vi.fn(),
   joinRoom: vi.fn(),
+  spectateRoom: vi.fn(),
 };
 
 vi.mock('../state/AppContext', () => ({
@@ -31,13 +32,13 @@ const renderHomePage = () => {
 // Helper function to get the submit button (not the mode selector button)
 const getSubmitButton = (name: string) => {
   const buttons = screen.getAllByRole('button', { name });
-  return buttons.find(button => button.getAttribute('type') === 'submit');
+  return buttons.find(button => button.getAttribute('type') === 'submit')!;
 };
 
 // Helper function to get the Create Room submit button
 const getCreateRoomSubmitButton = () => {
   const buttons = screen.getAllByRole('button', { name: 'Create Room' });
-  return buttons.find(button => button.getAttribute('type') === 'submit');
+  return buttons.find(button => button.getAttribute('type') === 'submit')!;
 };
 
 describe('HomePage', () => {
@@ -321,6 +322,30 @@ describe('HomePage', () => {
     });
   });
 
+  describe('Spectating', () => {
+    it('should watch the room with the join form details', async () => {
+      mockAppContext.spectateRoom.mockResolvedValue(undefined);
+      renderHomePage();
+
+      fireEvent.change(screen.getByLabelText('Room Code'), { target: { value: 'ABC123' } });
+      fireEvent.change(screen.getByLabelText('Your Nickname'), { target: { value: 'OfficeTV' } });
+      fireEvent.click(screen.getByRole('button', { name: '👀 Watch as Spectator' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.spectateRoom).toHaveBeenCalledWith('ABC123', 'OfficeTV', undefined);
+      });
+      expect(mockAppContext.joinRoom).not.toHaveBeenCalled();
+    });
+
+    it('should not spectate without a room code and nickname', () => {
+      renderHomePage();
+
+      fireEvent.click(screen.getByRole('button', { name: '👀 Watch as Spectator' }));
+
+      expect(mockAppContext.spectateRoom).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Create Room Form', () => {
     beforeEach(() => {
       renderHomePage();
@@ -376,7 +401,7 @@ describe('HomePage', () => {
       fireEvent.click(submitButton);
 
       await waitFor(() => {
-        expect(mockAppContext.createRoom).toHaveBeenCalledWith('testpass', 15, 'TestPlayer');
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith('testpass', 15, 'TestPlayer', { rows: 6, cols: 7, winLength: 4 }, 'plurality', 1, undefined);
       });
     });
 
@@ -390,7 +415,55 @@ describe('HomePage', () => {
       fireEvent.click(submitButton);
 
       await waitFor(() => {
-        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer');
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer', { rows: 6, cols: 7, winLength: 4 }, 'plurality', 1, undefined);
+      });
+    });
+
+    it('should submit the selected board size', async () => {
+      mockAppContext.createRoom.mockResolvedValue(undefined);
+
+      fireEvent.change(screen.getByLabelText('Your Nickname'), { target: { value: 'TestPlayer' } });
+      fireEvent.change(screen.getByLabelText('Board Size'), { target: { value: '2' } });
+      fireEvent.click(getCreateRoomSubmitButton());
+
+      await waitFor(() => {
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer', { rows: 10, cols: 12, winLength: 5 }, 'plurality', 1, undefined);
+      });
+    });
+
+    it('should submit the selected voting mode', async () => {
+      mockAppContext.createRoom.mockResolvedValue(undefined);
+
+      fireEvent.change(screen.getByLabelText('Your Nickname'), { target: { value: 'TestPlayer' } });
+      fireEvent.change(screen.getByLabelText('Voting'), { target: { value: 'ranked' } });
+      fireEvent.click(getCreateRoomSubmitButton());
+
+      await waitFor(() => {
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer', { rows: 6, cols: 7, winLength: 4 }, 'ranked', 1, undefined);
+      });
+    });
+
+    it('should submit the selected series length', async () => {
+      mockAppContext.createRoom.mockResolvedValue(undefined);
+
+      fireEvent.change(screen.getByLabelText('Your Nickname'), { target: { value: 'TestPlayer' } });
+      fireEvent.change(screen.getByLabelText('Series'), { target: { value: '2' } });
+      fireEvent.click(getCreateRoomSubmitButton());
+
+      await waitFor(() => {
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer', { rows: 6, cols: 7, winLength: 4 }, 'plurality', 2, undefined);
+      });
+    });
+
+    it('should submit a requested vanity code in upper case', async () => {
+      mockAppContext.createRoom.mockResolvedValue(undefined);
+
+      fireEvent.change(screen.getByLabelText('Your Nickname'), { target: { value: 'TestPlayer' } });
+      fireEvent.change(screen.getByLabelText('Custom Room Code (optional)'), { target: { value: 'fridayfun' } });
+      fireEvent.click(getCreateRoomSubmitButton());
+
+      await waitFor(() => {
+        expect(mockAppContext.createRoom).toHaveBeenCalledWith(undefined, 15, 'TestPlayer', { rows: 6, cols: 7, winLength: 4 }, 'plurality', 1, 'FRIDAYFUN');
       });
     });
 
@@ -430,11 +503,11 @@ describe('HomePage', () => {
   });
 
   describe('Form Validation and Constraints', () => {
-    it('should limit room code to 8 characters', () => {
+    it('should limit room code to 12 characters', () => {
       renderHomePage();
 
       const roomCodeInput = screen.getByLabelText('Room Code');
-      expect(roomCodeInput).toHaveAttribute('maxLength', '8');
+      expect(roomCodeInput).toHaveAttribute('maxLength', '12');
     });
 
     it('should limit nickname to 20 characters', () => {
@@ -595,7 +668,7 @@ describe('HomePage', () => {
       // but prevents typing more characters in the UI
       expect(roomCodeInput).toHaveValue(longRoomCode);
       expect(nicknameInput).toHaveValue(longNickname);
-      expect(roomCodeInput).toHaveAttribute('maxLength', '8');
+      expect(roomCodeInput).toHaveAttribute('maxLength', '12');
       expect(nicknameInput).toHaveAttribute('maxLength', '20');
     });
 
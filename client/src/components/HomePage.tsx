@@ -1,8 +1,17 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../state/AppContext';
+import type { BoardConfig, VotingMode } from '../types';
+import { MAX_ROOM_CODE_LENGTH } from '../types';
+
+// Board presets offered when creating a room
+const BOARD_PRESETS: Array<{ label: string; config: BoardConfig }> = [
+  { label: 'Classic 6 × 7, connect 4', config: { rows: 6, cols: 7, winLength: 4 } },
+  { label: 'Large 8 × 9, connect 5', config: { rows: 8, cols: 9, winLength: 5 } },
+  { label: 'Huge 10 × 12, connect 5', config: { rows: 10, cols: 12, winLength: 5 } },
+];
 
 export function HomePage() {
-  const { createRoom, joinRoom, state } = useAppContext();
+  const { createRoom, joinRoom, spectateRoom, state } = useAppContext();
   const [mode, setMode] = useState<'join' | 'create'>('join');
   const [loading, setLoading] = useState(false);
   
@@ -16,7 +25,11 @@ export function HomePage() {
   // Create room form state
   const [createForm, setCreateForm] = useState({
     password: '',
-    timerSec: 15
+    timerSec: 15,
+    boardPreset: 0,
+    votingMode: 'plurality' as VotingMode,
+    seriesTarget: 1,
+    vanityCode: ''
   });
   
   const [nickname, setNickname] = useState('');
@@ -39,6 +52,24 @@ export function HomePage() {
     }
   };
 
+  // Watch without joining a team, e.g. from the office TV
+  const handleSpectateRoom = async () => {
+    if (!joinForm.roomCode.trim() || !joinForm.nickname.trim()) return;
+
+    setLoading(true);
+    try {
+      await spectateRoom(
+        joinForm.roomCode.toUpperCase(),
+        joinForm.nickname.trim(),
+        joinForm.password || undefined
+      );
+    } catch (error) {
+      console.error('Failed to spectate room:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCreateRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!nickname.trim()) return;
@@ -48,7 +79,11 @@ export function HomePage() {
       await createRoom(
         createForm.password || undefined,
         createForm.timerSec,
-        nickname.trim()
+        nickname.trim(),
+        BOARD_PRESETS[createForm.boardPreset]?.config,
+        createForm.votingMode,
+        createForm.seriesTarget,
+        createForm.vanityCode.trim() || undefined
       );
       // Room creation and auto-join will be handled by createRoom method
     } catch (error) {
@@ -131,7 +166,7 @@ export function HomePage() {
                 onChange={(e) => setJoinForm(prev => ({ ...prev, roomCode: e.target.value.toUpperCase() }))}
                 placeholder="Enter room code"
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-lg tracking-widest font-mono"
-                maxLength={8}
+                maxLength={MAX_ROOM_CODE_LENGTH}
                 required
               />
             </div>
@@ -173,6 +208,15 @@ export function HomePage() {
             >
               {loading ? 'Joining...' : 'Join Room'}
             </button>
+
+            <button
+              type="button"
+              onClick={handleSpectateRoom}
+              disabled={loading || state.connectionStatus !== 'connected'}
+              className="w-full bg-white text-blue-700 border border-blue-600 py-2 px-4 rounded-lg hover:bg-blue-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              👀 Watch as Spectator
+            </button>
           </form>
         )}
 
@@ -209,6 +253,22 @@ export function HomePage() {
               />
             </div>
 
+            <div>
+              <label htmlFor="vanityCode" className="block text-sm font-medium text-gray-700 mb-1">
+                Custom Room Code (optional)
+              </label>
+              <input
+                type="text"
+                id="vanityCode"
+                value={createForm.vanityCode}
+                onChange={(e) => setCreateForm(prev => ({ ...prev, vanityCode: e.target.value.toUpperCase() }))}
+                placeholder="e.g. FRIDAYFUN"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono tracking-widest"
+                minLength={6}
+                maxLength={MAX_ROOM_CODE_LENGTH}
+              />
+            </div>
+
             <div>
               <label htmlFor="timerSec" className="block text-sm font-medium text-gray-700 mb-1">
                 Vote Timer: {createForm.timerSec} seconds
@@ -232,6 +292,53 @@ export function HomePage() {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="boardPreset" className="block text-sm font-medium text-gray-700 mb-1">
+                Board Size
+              </label>
+              <select
+                id="boardPreset"
+                value={createForm.boardPreset}
+                onChange={(e) => setCreateForm(prev => ({ ...prev, boardPreset: parseInt(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {BOARD_PRESETS.map((preset, index) => (
+                  <option key={preset.label} value={index}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="votingMode" className="block text-sm font-medium text-gray-700 mb-1">
+                Voting
+              </label>
+              <select
+                id="votingMode"
+                value={createForm.votingMode}
+                onChange={(e) => setCreateForm(prev => ({ ...prev, votingMode: e.target.value as VotingMode }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="plurality">Majority (one column each)</option>
+                <option value="ranked">Ranked choice (rank up to 3 columns)</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="seriesTarget" className="block text-sm font-medium text-gray-700 mb-1">
+                Series
+              </label>
+              <select
+                id="seriesTarget"
+                value={createForm.seriesTarget}
+                onChange={(e) => setCreateForm(prev => ({ ...prev, seriesTarget: parseInt(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value={1}>Single game</option>
+                <option value={2}>Best of 3 (first to 2 wins)</option>
+                <option value={3}>Best of 5 (first to 3 wins)</option>
+              </select>
+            </div>
+
             <button
               type="submit"
               disabled={loading || state.connectionStatus !== 'connected'}
@@ -2,16 +2,25 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { LobbyView } from './LobbyView';
 import { AppProvider } from '../state/AppContext';
-import type { Room, Player, AppState } from '../types';
+import type { Room, Player, AppState, Team } from '../types';
 
 // Mock the AppContext
 const mockAppContext = {
   state: {
     room: null,
     currentPlayer: null,
+    spectator: null,
     error: null,
   } as AppState,
   startGame: vi.fn(),
+  kickPlayer: vi.fn(),
+  updateSettings: vi.fn(),
+  switchTeam: vi.fn(),
+  movePlayer: vi.fn(),
+  shuffleTeams: vi.fn(),
+  lockTeams: vi.fn(),
+  addBot: vi.fn(),
+  playVsComputer: vi.fn(),
   leaveRoom: vi.fn(),
 };
 
@@ -38,6 +47,12 @@ const createMockRoom = (overrides: Partial<Room> = {}): Room => ({
   settings: {
     timerSec: 15,
     maxPlayers: 10,
+    rows: 6,
+    cols: 7,
+    winLength: 4,
+    votingMode: 'plurality',
+    seriesTarget: 1,
+    startingTeam: 'red',
   },
   createdAt: Date.now(),
   ...overrides,
@@ -59,6 +74,7 @@ describe('LobbyView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockAppContext.state.error = null;
+    mockAppContext.state.spectator = null;
   });
 
   describe('Loading State', () => {
@@ -159,6 +175,12 @@ describe('LobbyView', () => {
         settings: {
           timerSec: 20,
           maxPlayers: 8,
+          rows: 6,
+          cols: 7,
+          winLength: 4,
+          votingMode: 'plurality',
+          seriesTarget: 1,
+          startingTeam: 'red',
         },
       });
       const player = createMockPlayer();
@@ -177,6 +199,12 @@ describe('LobbyView', () => {
         settings: {
           timerSec: 30,
           maxPlayers: 10,
+          rows: 6,
+          cols: 7,
+          winLength: 4,
+          votingMode: 'plurality',
+          seriesTarget: 1,
+          startingTeam: 'red',
         },
       });
       const player = createMockPlayer();
@@ -185,6 +213,55 @@ describe('LobbyView', () => {
 
       expect(screen.getByText('30 seconds')).toBeInTheDocument();
     });
+
+    it('should show the starting team', () => {
+      const room = createMockRoom({ settings: { ...createMockRoom().settings, startingTeam: 'yellow' } });
+
+      renderLobbyView(room, createMockPlayer({ isAdmin: false }));
+
+      expect(screen.getByText('Starting Team:')).toBeInTheDocument();
+      expect(screen.getByText('🟡 Yellow')).toBeInTheDocument();
+    });
+
+    it('should show the rule set and fog of war', () => {
+      const room = createMockRoom({ settings: { ...createMockRoom().settings, variant: 'powerups', fogOfWar: true } });
+
+      renderLobbyView(room, createMockPlayer({ isAdmin: false }));
+
+      expect(screen.getByText('Power-ups')).toBeInTheDocument();
+      expect(screen.getByText('Fog of war')).toBeInTheDocument();
+    });
+
+    it('should show when the board edges wrap around', () => {
+      const room = createMockRoom({ settings: { ...createMockRoom().settings, wrapAround: true } });
+
+      renderLobbyView(room, createMockPlayer({ isAdmin: false }));
+
+      expect(screen.getByText('Edges:')).toBeInTheDocument();
+      expect(screen.getByText('Wrap around')).toBeInTheDocument();
+    });
+
+    it('should let the admin open the settings editor', () => {
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+
+      renderLobbyView(createMockRoom({ players: [adminPlayer] }), adminPlayer);
+
+      fireEvent.click(screen.getByRole('button', { name: '✏️ Edit Settings' }));
+
+      expect(screen.getByLabelText('Vote Timer (seconds)')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Save Settings' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+      expect(screen.getByText('Vote Timer:')).toBeInTheDocument();
+    });
+
+    it('should not offer the settings editor to non-admin players', () => {
+      const player = createMockPlayer({ isAdmin: false });
+
+      renderLobbyView(createMockRoom({ players: [player] }), player);
+
+      expect(screen.queryByRole('button', { name: '✏️ Edit Settings' })).not.toBeInTheDocument();
+    });
   });
 
   describe('Team Display', () => {
@@ -283,7 +360,7 @@ describe('LobbyView', () => {
           createMockPlayer({ id: '1', team: 'red' }),
           createMockPlayer({ id: '2', team: 'yellow' }),
         ],
-        settings: { timerSec: 15, maxPlayers: 10 },
+        settings: { timerSec: 15, maxPlayers: 10, rows: 6, cols: 7, winLength: 4, startingTeam: 'red', votingMode: 'plurality', seriesTarget: 1 },
       });
       const player = createMockPlayer();
 
@@ -295,7 +372,7 @@ describe('LobbyView', () => {
     it('should show message when not enough players to start', () => {
       const room = createMockRoom({
         players: [createMockPlayer()], // Only 1 player
-        settings: { timerSec: 15, maxPlayers: 10 },
+        settings: { timerSec: 15, maxPlayers: 10, rows: 6, cols: 7, winLength: 4, startingTeam: 'red', votingMode: 'plurality', seriesTarget: 1 },
       });
       const player = createMockPlayer();
 
@@ -310,7 +387,7 @@ describe('LobbyView', () => {
           createMockPlayer({ id: '1', team: 'red' }),
           createMockPlayer({ id: '2', team: 'yellow' }),
         ],
-        settings: { timerSec: 15, maxPlayers: 10 },
+        settings: { timerSec: 15, maxPlayers: 10, rows: 6, cols: 7, winLength: 4, startingTeam: 'red', votingMode: 'plurality', seriesTarget: 1 },
       });
       const player = createMockPlayer();
 
@@ -320,6 +397,33 @@ describe('LobbyView', () => {
     });
   });
 
+  describe('Spectators', () => {
+    it('should list spectators without counting them as players', () => {
+      const room = createMockRoom({ spectators: [{ id: 'watcher', nickname: 'OfficeTV', connected: true }] });
+
+      renderLobbyView(room, createMockPlayer());
+
+      expect(screen.getByText('👀 Spectators: OfficeTV')).toBeInTheDocument();
+    });
+
+    it('should render the lobby for a spectator without admin controls', () => {
+      const spectator = { id: 'watcher', nickname: 'OfficeTV', connected: true };
+      mockAppContext.state.room = createMockRoom({ spectators: [spectator] });
+      mockAppContext.state.currentPlayer = null;
+      mockAppContext.state.spectator = spectator;
+
+      render(
+        <AppProvider>
+          <LobbyView />
+        </AppProvider>
+      );
+
+      expect(screen.getByText('👀 Spectators: OfficeTV (You)')).toBeInTheDocument();
+      expect(screen.getByText(/You are watching as a spectator/)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Start Game' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Admin Controls', () => {
     it('should show start game button for admin when enough players', () => {
       const room = createMockRoom({
@@ -375,6 +479,243 @@ describe('LobbyView', () => {
 
       expect(screen.getByText('Waiting for admin to start the game...')).toBeInTheDocument();
     });
+
+    it('should let the admin kick other players', async () => {
+      mockAppContext.kickPlayer.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        players: [
+          adminPlayer,
+          createMockPlayer({ id: '2', nickname: 'Troll', team: 'yellow', isAdmin: false }),
+        ],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      const kickButtons = screen.getAllByRole('button', { name: 'Kick' });
+      expect(kickButtons).toHaveLength(1);
+      fireEvent.click(kickButtons[0]!);
+
+      await waitFor(() => {
+        expect(mockAppContext.kickPlayer).toHaveBeenCalledWith('Troll');
+      });
+    });
+
+    it('should not show kick buttons to non-admin players', () => {
+      const regularPlayer = createMockPlayer({ isAdmin: false });
+      const room = createMockRoom({
+        players: [
+          regularPlayer,
+          createMockPlayer({ id: '2', nickname: 'Other', team: 'yellow', isAdmin: false }),
+        ],
+      });
+
+      renderLobbyView(room, regularPlayer);
+
+      expect(screen.queryByRole('button', { name: 'Kick' })).not.toBeInTheDocument();
+    });
+
+    it('should let the admin add a computer player at the chosen difficulty', async () => {
+      mockAppContext.addBot.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+
+      renderLobbyView(createMockRoom({ players: [adminPlayer] }), adminPlayer);
+
+      fireEvent.change(screen.getByLabelText('CPU Difficulty'), { target: { value: 'hard' } });
+      fireEvent.click(screen.getAllByRole('button', { name: '+ Add CPU' })[1]!);
+
+      await waitFor(() => {
+        expect(mockAppContext.addBot).toHaveBeenCalledWith('yellow', 'hard');
+      });
+    });
+
+    it('should let the admin set up office vs computer', async () => {
+      mockAppContext.playVsComputer.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+
+      renderLobbyView(createMockRoom({ players: [adminPlayer] }), adminPlayer);
+
+      fireEvent.click(screen.getByRole('button', { name: '🤖 Office vs Computer' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.playVsComputer).toHaveBeenCalledWith('medium');
+      });
+    });
+
+    it('should not show computer player controls to non-admin players', () => {
+      const regularPlayer = createMockPlayer({ isAdmin: false });
+
+      renderLobbyView(createMockRoom({ players: [regularPlayer] }), regularPlayer);
+
+      expect(screen.queryByRole('button', { name: '+ Add CPU' })).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('CPU Difficulty')).not.toBeInTheDocument();
+    });
+
+    it('should mark computer players in the team lists', () => {
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        players: [
+          adminPlayer,
+          createMockPlayer({ id: 'bot-1', nickname: 'CPU 1', team: 'yellow', isAdmin: false, bot: { depth: 3, randomness: 0.1 } }),
+        ],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      expect(screen.getByTitle('Computer player')).toBeInTheDocument();
+    });
+  });
+
+  describe('Team Management', () => {
+    it('should let a player switch to the other team', async () => {
+      mockAppContext.switchTeam.mockResolvedValue(undefined);
+      const player = createMockPlayer({ isAdmin: false, team: 'red' });
+
+      renderLobbyView(createMockRoom({ players: [player] }), player);
+
+      fireEvent.click(screen.getByRole('button', { name: '⇄ Switch to Yellow Team' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.switchTeam).toHaveBeenCalled();
+      });
+    });
+
+    it('should disable switching for players while teams are locked', () => {
+      const player = createMockPlayer({ isAdmin: false, team: 'yellow' });
+
+      renderLobbyView(createMockRoom({ players: [player], teamsLocked: true }), player);
+
+      expect(screen.getByRole('button', { name: '⇄ Switch to Red Team' })).toBeDisabled();
+      expect(screen.getByText('🔒 Teams are locked by the admin')).toBeInTheDocument();
+    });
+
+    it('should let the admin move another player to the other team', async () => {
+      mockAppContext.movePlayer.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        players: [
+          adminPlayer,
+          createMockPlayer({ id: '2', nickname: 'Mover', team: 'yellow', isAdmin: false }),
+        ],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      expect(screen.queryByRole('button', { name: '→ Yellow' })).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: '→ Red' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.movePlayer).toHaveBeenCalledWith('Mover', 'red');
+      });
+    });
+
+    it('should let the admin shuffle and lock teams', async () => {
+      mockAppContext.shuffleTeams.mockResolvedValue(undefined);
+      mockAppContext.lockTeams.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+
+      renderLobbyView(createMockRoom({ players: [adminPlayer] }), adminPlayer);
+
+      fireEvent.click(screen.getByRole('button', { name: '🔀 Shuffle Teams' }));
+      fireEvent.click(screen.getByRole('button', { name: '🔒 Lock Teams' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.shuffleTeams).toHaveBeenCalled();
+        expect(mockAppContext.lockTeams).toHaveBeenCalledWith(true);
+      });
+    });
+
+    it('should offer to unlock locked teams', () => {
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+
+      renderLobbyView(createMockRoom({ players: [adminPlayer], teamsLocked: true }), adminPlayer);
+
+      expect(screen.getByRole('button', { name: '🔓 Unlock Teams' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '⇄ Switch to Yellow Team' })).not.toBeDisabled();
+    });
+
+    it('should not show team controls to non-admin players', () => {
+      const player = createMockPlayer({ isAdmin: false });
+
+      renderLobbyView(createMockRoom({ players: [player] }), player);
+
+      expect(screen.queryByRole('button', { name: '🔀 Shuffle Teams' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: '🔒 Lock Teams' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('More Than Two Teams', () => {
+    const threeTeamSettings = { ...createMockRoom().settings, teams: ['red', 'yellow', 'green'] as Team[] };
+
+    it('should show a column for every team', () => {
+      const player = createMockPlayer({ isAdmin: false });
+
+      renderLobbyView(createMockRoom({ settings: threeTeamSettings, players: [player] }), player);
+
+      expect(screen.getByText('🔴 Red Team (1)')).toBeInTheDocument();
+      expect(screen.getByText('🟡 Yellow Team (0)')).toBeInTheDocument();
+      expect(screen.getByText('🟢 Green Team (0)')).toBeInTheDocument();
+      expect(screen.queryByText(/Blue Team/)).not.toBeInTheDocument();
+    });
+
+    it('should let the admin move a player to any other team', async () => {
+      mockAppContext.movePlayer.mockResolvedValue(undefined);
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        settings: threeTeamSettings,
+        players: [
+          adminPlayer,
+          createMockPlayer({ id: '2', nickname: 'Mover', team: 'yellow', isAdmin: false }),
+        ],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      expect(screen.getByRole('button', { name: '→ Red' })).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: '→ Green' }));
+
+      await waitFor(() => {
+        expect(mockAppContext.movePlayer).toHaveBeenCalledWith('Mover', 'green');
+      });
+    });
+
+    it('should switch players to the next team in turn order', () => {
+      const player = createMockPlayer({ isAdmin: false, team: 'yellow' });
+
+      renderLobbyView(createMockRoom({ settings: threeTeamSettings, players: [player] }), player);
+
+      expect(screen.getByRole('button', { name: '⇄ Switch to Green Team' })).toBeInTheDocument();
+    });
+
+    it('should need a player per team to start', () => {
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        settings: threeTeamSettings,
+        players: [adminPlayer, createMockPlayer({ id: '2', nickname: 'Other', team: 'yellow', isAdmin: false })],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      expect(screen.getByText('Need at least 3 players to start the game')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Need More Players' })).toBeDisabled();
+    });
+
+    it('should not start while a team has no players', () => {
+      const adminPlayer = createMockPlayer({ isAdmin: true });
+      const room = createMockRoom({
+        settings: threeTeamSettings,
+        players: [
+          adminPlayer,
+          createMockPlayer({ id: '2', nickname: 'Other', team: 'red', isAdmin: false }),
+          createMockPlayer({ id: '3', nickname: 'Third', team: 'yellow', isAdmin: false }),
+        ],
+      });
+
+      renderLobbyView(room, adminPlayer);
+
+      expect(screen.getByText('Every team needs at least one player to start the game')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Need More Players' })).toBeDisabled();
+    });
   });
 
   describe('User Interactions', () => {
@@ -462,7 +803,7 @@ describe('LobbyView', () => {
       );
       const room = createMockRoom({
         players,
-        settings: { timerSec: 15, maxPlayers },
+        settings: { timerSec: 15, maxPlayers, rows: 6, cols: 7, winLength: 4, startingTeam: 'red', votingMode: 'plurality', seriesTarget: 1 },
       });
       const player = createMockPlayer();
 
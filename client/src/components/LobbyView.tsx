@@ -1,10 +1,30 @@
+import { useState } from 'react';
 import { useAppContext } from '../state/AppContext';
+import { ChatPanel } from './ChatPanel';
+import { RoomSettingsForm } from './RoomSettingsForm';
+import { TEAM_STYLES, teamName } from './teams';
+import type { BotDifficulty, GameVariant, Team, TimeExpiryRule } from '../types';
+import { DEFAULT_TEAMS } from '../types';
+
+const EXPIRY_LABELS: Record<TimeExpiryRule, string> = {
+  lose: 'team loses',
+  random: 'random moves',
+  ai: 'computer moves',
+};
+
+const VARIANT_LABELS: Record<GameVariant, string> = {
+  classic: 'Classic',
+  popout: 'PopOut',
+  powerups: 'Power-ups',
+};
 
 export function LobbyView() {
-  const { state, startGame, leaveRoom } = useAppContext();
-  const { room, currentPlayer } = state;
+  const { state, startGame, kickPlayer, switchTeam, movePlayer, shuffleTeams, lockTeams, addBot, playVsComputer, leaveRoom } = useAppContext();
+  const { room, currentPlayer, spectator } = state;
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
+  const [editingSettings, setEditingSettings] = useState(false);
 
-  if (!room || !currentPlayer) {
+  if (!room || !(currentPlayer || spectator)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 flex items-center justify-center p-4">
         <div className="bg-white rounded-xl shadow-2xl p-8">
@@ -14,10 +34,14 @@ export function LobbyView() {
     );
   }
 
-  const redTeamPlayers = room.players.filter(player => player.team === 'red');
-  const yellowTeamPlayers = room.players.filter(player => player.team === 'yellow');
-  const isAdmin = currentPlayer.isAdmin;
-  const canStartGame = room.players.length >= 2; // Minimum 2 players to start
+  const teams = room.settings.teams ?? DEFAULT_TEAMS;
+  // Switching moves you to the next team in turn order, like the server does
+  const switchTarget = (team: Team) => teams[(teams.indexOf(team) + 1) % teams.length] ?? team;
+  const isAdmin = currentPlayer?.isAdmin ?? false;
+  const viewerId = currentPlayer?.id ?? spectator?.id;
+  const spectators = room.spectators ?? [];
+  const canStartGame = teams.every(team => room.players.some(p => p.team === team)); // At least one player per team to start
+  const teamsLocked = room.teamsLocked ?? false;
 
   const handleStartGame = async () => {
     try {
@@ -27,6 +51,62 @@ export function LobbyView() {
     }
   };
 
+  const handleKickPlayer = async (nickname: string) => {
+    try {
+      await kickPlayer(nickname);
+    } catch (error) {
+      console.error('Failed to kick player:', error);
+    }
+  };
+
+  const handleSwitchTeam = async () => {
+    try {
+      await switchTeam();
+    } catch (error) {
+      console.error('Failed to switch team:', error);
+    }
+  };
+
+  const handleMovePlayer = async (nickname: string, team: Team) => {
+    try {
+      await movePlayer(nickname, team);
+    } catch (error) {
+      console.error('Failed to move player:', error);
+    }
+  };
+
+  const handleShuffleTeams = async () => {
+    try {
+      await shuffleTeams();
+    } catch (error) {
+      console.error('Failed to shuffle teams:', error);
+    }
+  };
+
+  const handleToggleLock = async () => {
+    try {
+      await lockTeams(!teamsLocked);
+    } catch (error) {
+      console.error('Failed to lock teams:', error);
+    }
+  };
+
+  const handleAddBot = async (team: Team) => {
+    try {
+      await addBot(team, botDifficulty);
+    } catch (error) {
+      console.error('Failed to add computer player:', error);
+    }
+  };
+
+  const handlePlayVsComputer = async () => {
+    try {
+      await playVsComputer(botDifficulty);
+    } catch (error) {
+      console.error('Failed to set up game against the computer:', error);
+    }
+  };
+
   const handleLeaveRoom = () => {
     leaveRoom();
   };
@@ -58,90 +138,209 @@ export function LobbyView() {
 
         {/* Room Settings */}
         <div className="mb-8 p-4 bg-gray-50 rounded-lg">
-          <h3 className="text-lg font-semibold text-gray-800 mb-2">Game Settings</h3>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-semibold text-gray-800">Game Settings</h3>
+            {isAdmin && !editingSettings && (
+              <button
+                onClick={() => setEditingSettings(true)}
+                className="text-sm text-blue-700 hover:text-blue-900 underline"
+              >
+                ✏️ Edit Settings
+              </button>
+            )}
+          </div>
+          {isAdmin && editingSettings ? (
+            <RoomSettingsForm onClose={() => setEditingSettings(false)} />
+          ) : (
           <div className="grid grid-cols-2 gap-4 text-sm">
+            {room.settings.timeControl ? (
+              <div>
+                <span className="font-medium">Time Bank:</span> {room.settings.timeControl.bankSec}s + {room.settings.timeControl.incrementSec}s per move
+                ({EXPIRY_LABELS[room.settings.timeControl.onExpiry]} when out of time)
+              </div>
+            ) : (
+              <div>
+                <span className="font-medium">Vote Timer:</span> {room.settings.timerSec} seconds
+              </div>
+            )}
             <div>
-              <span className="font-medium">Vote Timer:</span> {room.settings.timerSec} seconds
+              <span className="font-medium">Max Players:</span> {room.settings.maxPlayers}
             </div>
             <div>
-              <span className="font-medium">Max Players:</span> {room.settings.maxPlayers}
+              <span className="font-medium">Board:</span> {room.settings.rows} × {room.settings.cols}
+            </div>
+            <div>
+              <span className="font-medium">Win Length:</span> {room.settings.winLength} in a row
+            </div>
+            {room.settings.variant && room.settings.variant !== 'classic' && (
+              <div>
+                <span className="font-medium">Rules:</span> {VARIANT_LABELS[room.settings.variant]}
+              </div>
+            )}
+            {room.settings.fogOfWar && (
+              <div>
+                <span className="font-medium">Visibility:</span> Fog of war
+              </div>
+            )}
+            {room.settings.wrapAround && (
+              <div>
+                <span className="font-medium">Edges:</span> Wrap around
+              </div>
+            )}
+            <div>
+              <span className="font-medium">Voting:</span> {room.settings.votingMode === 'ranked' ? 'Ranked choice' : 'Majority'}
+            </div>
+            {room.settings.seriesTarget > 1 && (
+              <div>
+                <span className="font-medium">Series:</span> First to {room.settings.seriesTarget} wins
+              </div>
+            )}
+            <div>
+              <span className="font-medium">Starting Team:</span> {teamName(room.settings.startingTeam)}
             </div>
           </div>
+          )}
         </div>
 
         {/* Teams */}
-        <div className="grid md:grid-cols-2 gap-6 mb-8">
-          {/* Red Team */}
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-            <h3 className="text-lg font-bold text-red-700 mb-3 flex items-center">
-              🔴 Red Team ({redTeamPlayers.length})
-            </h3>
-            <div className="space-y-2">
-              {redTeamPlayers.map(player => (
-                <div
-                  key={player.id}
-                  className={`p-2 rounded-md ${
-                    player.id === currentPlayer.id
-                      ? 'bg-red-200 border-2 border-red-400'
-                      : 'bg-white border border-red-300'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">{player.nickname}</span>
-                    {player.isAdmin && (
-                      <span className="bg-red-600 text-white px-2 py-1 rounded-full text-xs">
-                        Admin
-                      </span>
-                    )}
-                  </div>
+        <div className={`grid gap-6 mb-8 ${teams.length > 2 ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'}`}>
+          {teams.map(team => {
+            const style = TEAM_STYLES[team];
+            const teamPlayers = room.players.filter(player => player.team === team);
+            return (
+              <div key={team} className={`${style.panel} rounded-lg p-4`}>
+                <h3 className={`text-lg font-bold ${style.heading} mb-3 flex items-center`}>
+                  {style.emoji} {style.label} Team ({teamPlayers.length})
+                </h3>
+                <div className="space-y-2">
+                  {teamPlayers.map(player => (
+                    <div
+                      key={player.id}
+                      className={`p-2 rounded-md ${player.id === viewerId ? style.self : style.member}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          {player.bot && <span title="Computer player">🤖 </span>}
+                          {player.nickname}
+                        </span>
+                        {player.isAdmin && (
+                          <span className={`${style.badge} text-white px-2 py-1 rounded-full text-xs`}>
+                            Admin
+                          </span>
+                        )}
+                        {isAdmin && player.id !== viewerId && (
+                          <span className="flex gap-2">
+                            {teams.filter(other => other !== team).map(other => (
+                              <button
+                                key={other}
+                                onClick={() => handleMovePlayer(player.nickname, other)}
+                                className={`text-xs text-gray-500 ${TEAM_STYLES[other].hover} underline`}
+                              >
+                                → {TEAM_STYLES[other].label}
+                              </button>
+                            ))}
+                            <button
+                              onClick={() => handleKickPlayer(player.nickname)}
+                              className={`text-xs text-gray-500 ${style.hover} underline`}
+                            >
+                              Kick
+                            </button>
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {teamPlayers.length === 0 && (
+                    <p className={`${style.muted} text-sm italic`}>No players yet</p>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleAddBot(team)}
+                      className={`text-sm ${style.link} underline`}
+                    >
+                      + Add CPU
+                    </button>
+                  )}
                 </div>
-              ))}
-              {redTeamPlayers.length === 0 && (
-                <p className="text-red-500 text-sm italic">No players yet</p>
-              )}
-            </div>
-          </div>
+              </div>
+            );
+          })}
+        </div>
 
-          {/* Yellow Team */}
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-            <h3 className="text-lg font-bold text-yellow-700 mb-3 flex items-center">
-              🟡 Yellow Team ({yellowTeamPlayers.length})
-            </h3>
-            <div className="space-y-2">
-              {yellowTeamPlayers.map(player => (
-                <div
-                  key={player.id}
-                  className={`p-2 rounded-md ${
-                    player.id === currentPlayer.id
-                      ? 'bg-yellow-200 border-2 border-yellow-400'
-                      : 'bg-white border border-yellow-300'
-                  }`}
+        {/* Team Controls */}
+        {(currentPlayer || isAdmin) && (
+          <div className="mb-8 flex flex-wrap items-center justify-center gap-4">
+            {currentPlayer && (
+              <button
+                onClick={handleSwitchTeam}
+                disabled={teamsLocked && !isAdmin}
+                className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition"
+              >
+                ⇄ Switch to {TEAM_STYLES[switchTarget(currentPlayer.team)].label} Team
+              </button>
+            )}
+            {isAdmin && (
+              <>
+                <button
+                  onClick={handleShuffleTeams}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 text-sm font-medium transition"
                 >
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">{player.nickname}</span>
-                    {player.isAdmin && (
-                      <span className="bg-yellow-600 text-white px-2 py-1 rounded-full text-xs">
-                        Admin
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {yellowTeamPlayers.length === 0 && (
-                <p className="text-yellow-600 text-sm italic">No players yet</p>
-              )}
-            </div>
+                  🔀 Shuffle Teams
+                </button>
+                <button
+                  onClick={handleToggleLock}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 text-sm font-medium transition"
+                >
+                  {teamsLocked ? '🔓 Unlock Teams' : '🔒 Lock Teams'}
+                </button>
+              </>
+            )}
+            {teamsLocked && !isAdmin && (
+              <p className="text-sm text-gray-500">🔒 Teams are locked by the admin</p>
+            )}
           </div>
-        </div>
+        )}
+
+        {/* Computer Players */}
+        {isAdmin && (
+          <div className="mb-8 p-4 bg-gray-50 rounded-lg flex flex-wrap items-center justify-center gap-4">
+            <label htmlFor="botDifficulty" className="text-sm font-medium text-gray-700">
+              CPU Difficulty
+            </label>
+            <select
+              id="botDifficulty"
+              value={botDifficulty}
+              onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
+            <button
+              onClick={handlePlayVsComputer}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 text-sm font-medium transition"
+            >
+              🤖 Office vs Computer
+            </button>
+          </div>
+        )}
 
         {/* Players Summary */}
         <div className="text-center mb-6">
           <p className="text-gray-600">
             {room.players.length} / {room.settings.maxPlayers} players
           </p>
-          {room.players.length < 2 && (
+          {!canStartGame && (
+            <p className="text-sm text-gray-500 mt-1">
+              {room.players.length < teams.length
+                ? `Need at least ${teams.length} players to start the game`
+                : 'Every team needs at least one player to start the game'}
+            </p>
+          )}
+          {spectators.length > 0 && (
             <p className="text-sm text-gray-500 mt-1">
-              Need at least 2 players to start the game
+              👀 Spectators: {spectators.map(s => s.id === viewerId ? `${s.nickname} (You)` : s.nickname).join(', ')}
             </p>
           )}
         </div>
@@ -168,18 +367,24 @@ export function LobbyView() {
 
         {!isAdmin && (
           <p className="text-center text-sm text-gray-500 mt-4">
+            {spectator && !currentPlayer && 'You are watching as a spectator. '}
             Waiting for admin to start the game...
           </p>
         )}
 
+        {/* Chat */}
+        <div className="mt-8">
+          <ChatPanel />
+        </div>
+
         {/* Instructions */}
         <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-lg">
           <h4 className="text-sm font-medium text-blue-800 mb-2">Game Rules:</h4>
           <ul className="text-xs text-blue-700 space-y-1">
             <li>• Teams take turns dropping pieces into the board</li>
             <li>• Each team votes on which column to use during their turn</li>
-            <li>• Majority vote wins (admin breaks ties)</li>
-            <li>• First team to connect 4 pieces horizontally, vertically, or diagonally wins!</li>
+            <li>• Majority vote wins (team captain breaks ties; the admin captains their team)</li>
+            <li>• First team to connect {room.settings.winLength} pieces horizontally, vertically, or diagonally wins!</li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,189 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RoomSettingsForm } from './RoomSettingsForm';
+import type { Room, RoomSettings, AppState } from '../types';
+
+// Mock the AppContext
+const mockAppContext = {
+  state: {
+    room: null,
+    currentPlayer: null,
+    spectator: null,
+    error: null,
+  } as AppState,
+  updateSettings: vi.fn(),
+};
+
+vi.mock('../state/AppContext', () => ({
+  useAppContext: () => mockAppContext,
+}));
+
+const createSettings = (overrides: Partial<RoomSettings> = {}): RoomSettings => ({
+  timerSec: 15,
+  maxPlayers: 10,
+  rows: 6,
+  cols: 7,
+  winLength: 4,
+  votingMode: 'plurality',
+  seriesTarget: 1,
+  startingTeam: 'red',
+  ...overrides,
+});
+
+const createMockRoom = (settings: RoomSettings): Room => ({
+  code: 'TEST123',
+  players: [],
+  state: 'lobby',
+  settings,
+  createdAt: Date.now(),
+});
+
+describe('RoomSettingsForm', () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAppContext.updateSettings.mockResolvedValue(undefined);
+    mockAppContext.state.room = createMockRoom(createSettings());
+  });
+
+  it('should start from the current settings', () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Vote Timer (seconds)')).toHaveValue(15);
+    expect(screen.getByLabelText('Max Players')).toHaveValue(10);
+    expect(screen.getByLabelText('Starting Team')).toHaveValue('red');
+    expect(screen.getByLabelText('Voting')).toHaveValue('plurality');
+  });
+
+  it('should send only the changed settings and close', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Vote Timer (seconds)'), { target: { value: '25' } });
+    fireEvent.change(screen.getByLabelText('Starting Team'), { target: { value: 'yellow' } });
+    fireEvent.change(screen.getByLabelText('Series'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ timerSec: 25, startingTeam: 'yellow', seriesTarget: 2 });
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  it('should stay open when the server rejects the change', async () => {
+    mockAppContext.updateSettings.mockRejectedValue(new Error('The room already has 3 players'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Max Players'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ maxPlayers: 2 });
+    });
+    expect(onClose).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should switch the room to a chess clock and back', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Time Control'), { target: { value: 'bank' } });
+    fireEvent.change(screen.getByLabelText('Time Bank (seconds)'), { target: { value: '600' } });
+    fireEvent.change(screen.getByLabelText('When Time Runs Out'), { target: { value: 'ai' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ timeControl: { bankSec: 600, incrementSec: 5, onExpiry: 'ai' } });
+    });
+  });
+
+  it('should clear the chess clock explicitly', async () => {
+    mockAppContext.state.room = createMockRoom(createSettings({ timeControl: { bankSec: 300, incrementSec: 0, onExpiry: 'lose' } }));
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Time Control'), { target: { value: 'turn' } });
+    expect(screen.queryByLabelText('Time Bank (seconds)')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ timeControl: null });
+    });
+  });
+
+  it('should switch the rule set to PopOut', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Rules')).toHaveValue('classic');
+    fireEvent.change(screen.getByLabelText('Rules'), { target: { value: 'popout' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ variant: 'popout' });
+    });
+  });
+
+  it('should turn on fog of war', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Visibility')).toHaveValue('full');
+    fireEvent.change(screen.getByLabelText('Visibility'), { target: { value: 'fog' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ fogOfWar: true });
+    });
+  });
+
+  it('should let the board edges wrap around', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Board Edges')).toHaveValue('flat');
+    fireEvent.change(screen.getByLabelText('Board Edges'), { target: { value: 'wrap' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ wrapAround: true });
+    });
+  });
+
+  it('should play with more teams and offer them as the starting team', async () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Teams')).toHaveValue('2');
+    fireEvent.change(screen.getByLabelText('Teams'), { target: { value: '4' } });
+    fireEvent.change(screen.getByLabelText('Starting Team'), { target: { value: 'blue' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => {
+      expect(mockAppContext.updateSettings).toHaveBeenCalledWith({ teams: ['red', 'yellow', 'green', 'blue'], startingTeam: 'blue' });
+    });
+  });
+
+  it('should fall back to red when the starting team drops out', async () => {
+    mockAppContext.state.room = createMockRoom(createSettings({ teams: ['red', 'yellow', 'green'], startingTeam: 'green' }));
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Teams'), { target: { value: '2' } });
+    expect(screen.getByLabelText('Starting Team')).toHaveValue('red');
+    expect(screen.queryByRole('option', { name: '🟢 Green' })).not.toBeInTheDocument();
+  });
+
+  it('should close without a request when nothing changed', () => {
+    render(<RoomSettingsForm onClose={onClose} />);
+
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    expect(mockAppContext.updateSettings).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should pick up settings changed by the server', () => {
+    const { rerender } = render(<RoomSettingsForm onClose={onClose} />);
+
+    mockAppContext.state.room = createMockRoom(createSettings({ timerSec: 30 }));
+    rerender(<RoomSettingsForm onClose={onClose} />);
+
+    expect(screen.getByLabelText('Vote Timer (seconds)')).toHaveValue(30);
+  });
+});
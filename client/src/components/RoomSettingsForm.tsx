@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../state/AppContext';
+import type { GameVariant, RoomSettings, SettingsChanges, Team, TimeControl, TimeExpiryRule, VotingMode } from '../types';
+import { DEFAULT_TEAMS, TEAMS } from '../types';
+import { teamName } from './teams';
+
+const DEFAULT_TIME_CONTROL: TimeControl = { bankSec: 300, incrementSec: 5, onExpiry: 'lose' };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Admin-only lobby editor; the server validates ranges and broadcasts the result to everyone
+export function RoomSettingsForm({ onClose }: { onClose: () => void }) {
+  const { state, updateSettings } = useAppContext();
+  const settings = state.room?.settings;
+  const [draft, setDraft] = useState<RoomSettings | undefined>(settings);
+  const [saving, setSaving] = useState(false);
+
+  // Start over from whatever the server last confirmed; room:state arrives as a fresh object
+  // on every broadcast, so compare by value
+  const settingsKey = JSON.stringify(settings);
+  useEffect(() => {
+    setDraft(settings);
+  }, [settingsKey]);
+
+  if (!settings || !draft) {
+    return null;
+  }
+
+  const setNumber = (key: keyof RoomSettings) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const value = parseInt(e.target.value);
+    setDraft(prev => prev && { ...prev, [key]: Number.isNaN(value) ? 0 : value });
+  };
+
+  // Rooms play with the first N colours; the starting team falls back to red if it dropped out
+  const setTeamCount = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const count = parseInt(e.target.value);
+    const teams = count === (settings.teams ?? DEFAULT_TEAMS).length ? settings.teams : TEAMS.slice(0, count);
+    setDraft(prev => prev && {
+      ...prev,
+      teams,
+      startingTeam: (teams ?? DEFAULT_TEAMS).includes(prev.startingTeam) ? prev.startingTeam : 'red',
+    });
+  };
+  const draftTeams = draft.teams ?? DEFAULT_TEAMS;
+
+  const setTimeControl = (changes: Partial<TimeControl>) => {
+    setDraft(prev => prev && { ...prev, timeControl: { ...DEFAULT_TIME_CONTROL, ...prev.timeControl, ...changes } });
+  };
+
+  const setTimeBankNumber = (key: 'bankSec' | 'incrementSec') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value);
+    setTimeControl({ [key]: Number.isNaN(value) ? 0 : value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Only send what changed so concurrent edits to other fields aren't overwritten
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(([key, value]) => settings[key as keyof RoomSettings] !== value)
+    ) as SettingsChanges;
+    // The server keeps settings that aren't sent, so switching the clock off has to say so
+    if ('timeControl' in changes && !changes.timeControl) {
+      changes.timeControl = null;
+    }
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateSettings(changes);
+      onClose();
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-4 text-sm">
+      <div>
+        <label htmlFor="settingsTimer" className="block font-medium text-gray-700 mb-1">Vote Timer (seconds)</label>
+        <input id="settingsTimer" type="number" min={5} max={120} value={draft.timerSec} onChange={setNumber('timerSec')} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="settingsMaxPlayers" className="block font-medium text-gray-700 mb-1">Max Players</label>
+        <input id="settingsMaxPlayers" type="number" min={2} max={10} value={draft.maxPlayers} onChange={setNumber('maxPlayers')} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="settingsRows" className="block font-medium text-gray-700 mb-1">Rows</label>
+        <input id="settingsRows" type="number" min={4} max={12} value={draft.rows} onChange={setNumber('rows')} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="settingsCols" className="block font-medium text-gray-700 mb-1">Columns</label>
+        <input id="settingsCols" type="number" min={4} max={14} value={draft.cols} onChange={setNumber('cols')} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="settingsWinLength" className="block font-medium text-gray-700 mb-1">Win Length</label>
+        <input id="settingsWinLength" type="number" min={3} max={6} value={draft.winLength} onChange={setNumber('winLength')} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="settingsStartingTeam" className="block font-medium text-gray-700 mb-1">Starting Team</label>
+        <select
+          id="settingsStartingTeam"
+          value={draft.startingTeam}
+          onChange={(e) => setDraft(prev => prev && { ...prev, startingTeam: e.target.value as Team })}
+          className={inputClass}
+        >
+          {draftTeams.map(team => (
+            <option key={team} value={team}>{teamName(team)}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsTeams" className="block font-medium text-gray-700 mb-1">Teams</label>
+        <select id="settingsTeams" value={draftTeams.length} onChange={setTeamCount} className={inputClass}>
+          <option value={2}>2 teams</option>
+          <option value={3}>3 teams</option>
+          <option value={4}>4 teams</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsVotingMode" className="block font-medium text-gray-700 mb-1">Voting</label>
+        <select
+          id="settingsVotingMode"
+          value={draft.votingMode}
+          onChange={(e) => setDraft(prev => prev && { ...prev, votingMode: e.target.value as VotingMode })}
+          className={inputClass}
+        >
+          <option value="plurality">Majority</option>
+          <option value="ranked">Ranked choice</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsVariant" className="block font-medium text-gray-700 mb-1">Rules</label>
+        <select
+          id="settingsVariant"
+          value={draft.variant ?? 'classic'}
+          onChange={(e) => setDraft(prev => prev && { ...prev, variant: e.target.value as GameVariant })}
+          className={inputClass}
+        >
+          <option value="classic">Classic</option>
+          <option value="popout">PopOut</option>
+          <option value="powerups">Power-ups</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsFog" className="block font-medium text-gray-700 mb-1">Visibility</label>
+        <select
+          id="settingsFog"
+          value={draft.fogOfWar ? 'fog' : 'full'}
+          onChange={(e) => setDraft(prev => prev && { ...prev, fogOfWar: e.target.value === 'fog' })}
+          className={inputClass}
+        >
+          <option value="full">Whole board</option>
+          <option value="fog">Fog of war</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsWrap" className="block font-medium text-gray-700 mb-1">Board Edges</label>
+        <select
+          id="settingsWrap"
+          value={draft.wrapAround ? 'wrap' : 'flat'}
+          onChange={(e) => setDraft(prev => prev && { ...prev, wrapAround: e.target.value === 'wrap' })}
+          className={inputClass}
+        >
+          <option value="flat">Flat</option>
+          <option value="wrap">Wrap around</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsSeries" className="block font-medium text-gray-700 mb-1">Series</label>
+        <select id="settingsSeries" value={draft.seriesTarget} onChange={setNumber('seriesTarget')} className={inputClass}>
+          <option value={1}>Single game</option>
+          <option value={2}>Best of 3 (first to 2 wins)</option>
+          <option value={3}>Best of 5 (first to 3 wins)</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="settingsTimeControl" className="block font-medium text-gray-700 mb-1">Time Control</label>
+        <select
+          id="settingsTimeControl"
+          value={draft.timeControl ? 'bank' : 'turn'}
+          onChange={(e) => e.target.value === 'bank'
+            ? setTimeControl({})
+            : setDraft(prev => prev && { ...prev, timeControl: undefined })}
+          className={inputClass}
+        >
+          <option value="turn">Timer per turn</option>
+          <option value="bank">Chess clock per team</option>
+        </select>
+      </div>
+      {draft.timeControl && (
+        <>
+          <div>
+            <label htmlFor="settingsTimeBank" className="block font-medium text-gray-700 mb-1">Time Bank (seconds)</label>
+            <input id="settingsTimeBank" type="number" min={30} max={3600} value={draft.timeControl.bankSec} onChange={setTimeBankNumber('bankSec')} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="settingsIncrement" className="block font-medium text-gray-700 mb-1">Increment per Move (seconds)</label>
+            <input id="settingsIncrement" type="number" min={0} max={60} value={draft.timeControl.incrementSec} onChange={setTimeBankNumber('incrementSec')} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="settingsOnExpiry" className="block font-medium text-gray-700 mb-1">When Time Runs Out</label>
+            <select
+              id="settingsOnExpiry"
+              value={draft.timeControl.onExpiry}
+              onChange={(e) => setTimeControl({ onExpiry: e.target.value as TimeExpiryRule })}
+              className={inputClass}
+            >
+              <option value="lose" disabled={draftTeams.length > 2}>The team loses</option>
+              <option value="random">Random moves</option>
+              <option value="ai">Computer moves</option>
+            </select>
+          </div>
+        </>
+      )}
+      <div className="col-span-2 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 font-medium transition"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 font-medium transition"
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+    </form>
+  );
+}
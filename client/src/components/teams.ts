@@ -0,0 +1,111 @@
+import type { BoardCell, Team } from '../types';
+
+// How each team is drawn; class names are spelled out in full so Tailwind keeps them
+export interface TeamStyle {
+  label: string;
+  emoji: string;
+  token: string;      // piece on the board
+  dot: string;        // small marker next to a player's name
+  text: string;       // scores and clocks
+  heading: string;    // team panel title
+  panel: string;      // lobby team box
+  panelActive: string;  // in-game team box on its turn
+  panelIdle: string;    // in-game team box waiting
+  self: string;       // the viewer's own row in the lobby
+  member: string;     // other players' rows in the lobby
+  highlight: string;  // the viewer's own row in game
+  badge: string;      // admin / current turn pill
+  muted: string;      // "No players yet"
+  link: string;       // add-CPU link
+  hover: string;      // move-to-team link hover
+  soft: string;       // end-screen roster row
+}
+
+export const TEAM_STYLES: Record<Team, TeamStyle> = {
+  red: {
+    label: 'Red',
+    emoji: '🔴',
+    token: 'bg-red-500 border-red-700',
+    dot: 'bg-red-500',
+    text: 'text-red-600',
+    heading: 'text-red-700',
+    panel: 'bg-red-50 border border-red-200',
+    panelActive: 'bg-gradient-to-br from-red-50 to-red-100 border-2 border-red-500',
+    panelIdle: 'bg-gradient-to-br from-red-50 to-red-75 border border-red-200',
+    self: 'bg-red-200 border-2 border-red-400',
+    member: 'bg-white border border-red-300',
+    highlight: 'bg-red-200',
+    badge: 'bg-red-600',
+    muted: 'text-red-500',
+    link: 'text-red-700 hover:text-red-900',
+    hover: 'hover:text-red-700',
+    soft: 'bg-red-50',
+  },
+  yellow: {
+    label: 'Yellow',
+    emoji: '🟡',
+    token: 'bg-yellow-400 border-yellow-600',
+    dot: 'bg-yellow-400',
+    text: 'text-yellow-600',
+    heading: 'text-yellow-700',
+    panel: 'bg-yellow-50 border border-yellow-200',
+    panelActive: 'bg-gradient-to-br from-yellow-50 to-yellow-100 border-2 border-yellow-500',
+    panelIdle: 'bg-gradient-to-br from-yellow-50 to-yellow-75 border border-yellow-200',
+    self: 'bg-yellow-200 border-2 border-yellow-400',
+    member: 'bg-white border border-yellow-300',
+    highlight: 'bg-yellow-200',
+    badge: 'bg-yellow-600',
+    muted: 'text-yellow-600',
+    link: 'text-yellow-700 hover:text-yellow-900',
+    hover: 'hover:text-yellow-700',
+    soft: 'bg-yellow-50',
+  },
+  green: {
+    label: 'Green',
+    emoji: '🟢',
+    token: 'bg-green-500 border-green-700',
+    dot: 'bg-green-500',
+    text: 'text-green-600',
+    heading: 'text-green-700',
+    panel: 'bg-green-50 border border-green-200',
+    panelActive: 'bg-gradient-to-br from-green-50 to-green-100 border-2 border-green-500',
+    panelIdle: 'bg-gradient-to-br from-green-50 to-green-75 border border-green-200',
+    self: 'bg-green-200 border-2 border-green-400',
+    member: 'bg-white border border-green-300',
+    highlight: 'bg-green-200',
+    badge: 'bg-green-600',
+    muted: 'text-green-600',
+    link: 'text-green-700 hover:text-green-900',
+    hover: 'hover:text-green-700',
+    soft: 'bg-green-50',
+  },
+  // Sky rather than blue so the pieces stand out against the board
+  blue: {
+    label: 'Blue',
+    emoji: '🔵',
+    token: 'bg-sky-500 border-sky-700',
+    dot: 'bg-sky-500',
+    text: 'text-sky-600',
+    heading: 'text-sky-700',
+    panel: 'bg-sky-50 border border-sky-200',
+    panelActive: 'bg-gradient-to-br from-sky-50 to-sky-100 border-2 border-sky-500',
+    panelIdle: 'bg-gradient-to-br from-sky-50 to-sky-75 border border-sky-200',
+    self: 'bg-sky-200 border-2 border-sky-400',
+    member: 'bg-white border border-sky-300',
+    highlight: 'bg-sky-200',
+    badge: 'bg-sky-600',
+    muted: 'text-sky-600',
+    link: 'text-sky-700 hover:text-sky-900',
+    hover: 'hover:text-sky-700',
+    soft: 'bg-sky-50',
+  },
+};
+
+// "🔴 Red", for inline mentions of a team
+export const teamName = (team: Team): string => `${TEAM_STYLES[team].emoji} ${TEAM_STYLES[team].label}`;
+
+// Classes for a piece on the board; empty and fogged squares have none
+export const tokenClass = (cell: BoardCell | undefined): string => {
+  if (cell === 'wall') return 'bg-gray-500 border-gray-700';
+  return cell && cell !== 'hidden' ? TEAM_STYLES[cell].token : '';
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { appReducer } from './AppContext';
+import type { AppState, GameStartData, Room } from '../types';
+
+const createLobbyState = (): AppState => {
+  const room: Room = {
+    code: 'ABC123',
+    players: [{ id: 'player-1', nickname: 'TestPlayer', team: 'red', isAdmin: true, matchingVotes: 0, connected: true }],
+    settings: { timerSec: 15, maxPlayers: 10, rows: 6, cols: 7, winLength: 4, startingTeam: 'red', votingMode: 'plurality', seriesTarget: 1 },
+    state: 'lobby',
+    createdAt: Date.now(),
+  };
+  return {
+    currentView: 'lobby',
+    room,
+    currentPlayer: room.players[0]!,
+    spectator: null,
+    connectionStatus: 'connected',
+    error: null,
+    gameEndData: null,
+  };
+};
+
+const createStartData = (overrides: Partial<GameStartData> = {}): GameStartData => ({
+  board: Array.from({ length: 6 }, () => Array<null>(7).fill(null)),
+  winLength: 4,
+  currentTeam: 'red',
+  round: 1,
+  timerSec: 15,
+  endsAt: 1000,
+  ...overrides,
+});
+
+describe('appReducer', () => {
+  describe('GAME_STARTED', () => {
+    it('should keep the rule set, teams, board shape and power-ups the game started with', () => {
+      const state = appReducer(createLobbyState(), {
+        type: 'GAME_STARTED',
+        gameData: createStartData({
+          variant: 'powerups',
+          teams: ['red', 'yellow', 'green'],
+          wrapAround: true,
+          powerUps: { red: { anvil: 1, bomb: 1, wall: 1 } },
+        }),
+      });
+
+      expect(state.currentView).toBe('game');
+      expect(state.room?.game).toMatchObject({
+        variant: 'powerups',
+        teams: ['red', 'yellow', 'green'],
+        wrapAround: true,
+        powerUps: { red: { anvil: 1, bomb: 1, wall: 1 } },
+        votes: {},
+        perColumnCounts: [0, 0, 0, 0, 0, 0, 0],
+      });
+    });
+    it('should keep time banks so the first tick can update them', () => {
+      const started = appReducer(createLobbyState(), {
+        type: 'GAME_STARTED',
+        gameData: createStartData({ clocks: { remainingMs: { red: 60000, yellow: 60000 }, incrementMs: 0 } }),
+      });
+
+      const ticked = appReducer(started, {
+        type: 'TIMER_UPDATE',
+        timerData: { endsAt: 2000, clocks: { red: 59000, yellow: 60000 } },
+      });
+
+      expect(ticked.room?.game?.endsAt).toBe(2000);
+      expect(ticked.room?.game?.clocks).toEqual({ remainingMs: { red: 59000, yellow: 60000 }, incrementMs: 0 });
+    });
+  });
+});
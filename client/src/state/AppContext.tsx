@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
-import type { AppState, Room, Player, VoteCount, GameEndData } from '../types';
+import type { AppState, Room, SettingsChanges, Player, VoteCount, GameStartData, GameEndData, GameState, SeriesState, Spectator, BoardConfig, Team, BotDifficulty, VotingMode, ChatChannel, ChatMessage } from '../types';
+import { MAX_CHAT_HISTORY } from '../types';
 import { socketManager } from '../api/socket';
 
 // State management
@@ -7,38 +8,61 @@ interface AppContextType {
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
   // Socket methods
-  createRoom: (password?: string, timerSec?: number, nickname?: string) => Promise<{ roomCode: string; adminToken: string }>;
+  createRoom: (password?: string, timerSec?: number, nickname?: string, board?: BoardConfig, votingMode?: VotingMode, seriesTarget?: number, vanityCode?: string) => Promise<{ roomCode: string; adminToken: string }>;
   joinRoom: (roomCode: string, nickname: string, password?: string) => Promise<void>;
+  spectateRoom: (roomCode: string, nickname: string, password?: string) => Promise<void>;
   startGame: () => Promise<void>;
   castVote: (column: number) => Promise<void>;
+  castBallot: (ranking: number[]) => Promise<void>;
   startRematch: () => Promise<void>;
+  pauseGame: () => Promise<void>;
+  resumeGame: () => Promise<void>;
+  kickPlayer: (nickname: string) => Promise<void>;
+  updateSettings: (changes: SettingsChanges) => Promise<void>;
+  switchTeam: () => Promise<void>;
+  movePlayer: (nickname: string, team: Team) => Promise<void>;
+  shuffleTeams: () => Promise<void>;
+  lockTeams: (locked: boolean) => Promise<void>;
+  addBot: (team?: Team, difficulty?: BotDifficulty) => Promise<void>;
+  playVsComputer: (difficulty?: BotDifficulty) => Promise<void>;
+  sendChat: (channel: ChatChannel, text: string) => Promise<void>;
+  setMuted: (nickname: string, muted: boolean) => Promise<void>;
   leaveRoom: () => void;
 }
 
-type AppAction =
+export type AppAction =
   | { type: 'SET_VIEW'; view: AppState['currentView'] }
   | { type: 'SET_ROOM'; room: Room }
   | { type: 'SET_PLAYER'; player: Player }
+  | { type: 'SET_SPECTATOR'; spectator: Spectator }
   | { type: 'SET_CONNECTION_STATUS'; status: AppState['connectionStatus'] }
   | { type: 'SET_ERROR'; error: string | null }
   | { type: 'UPDATE_ROOM_STATE'; room: Room }
-  | { type: 'GAME_STARTED'; gameData: any }
+  | { type: 'SESSION_RESUMED'; room: Room; player: Player | null; spectator: Spectator | null }
+  | { type: 'GAME_STARTED'; gameData: GameStartData }
   | { type: 'GAME_MOVE_APPLIED'; moveData: any }
   | { type: 'GAME_ENDED'; endData: GameEndData }
+  | { type: 'SERIES_ENDED'; series: SeriesState }
+  | { type: 'CHAT_MESSAGE'; message: ChatMessage }
   | { type: 'VOTE_UPDATE'; voteData: VoteCount }
-  | { type: 'TIMER_UPDATE'; timerData: { endsAt: number } }
+  | { type: 'TIMER_UPDATE'; timerData: { endsAt: number; clocks?: Partial<Record<Team, number>> | undefined } }
   | { type: 'RESET' };
 
 const initialState: AppState = {
   currentView: 'home',
   room: null,
   currentPlayer: null,
+  spectator: null,
   connectionStatus: 'disconnected',
   error: null,
   gameEndData: null,
 };
 
-function appReducer(state: AppState, action: AppAction): AppState {
+function emptyColumnCounts(board: GameState['board']): number[] {
+  return Array.from({ length: board[0]?.length ?? 0 }, () => 0);
+}
+
+export function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'SET_VIEW':
       return { ...state, currentView: action.view };
@@ -49,14 +73,46 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_PLAYER':
       return { ...state, currentPlayer: action.player };
     
+    case 'SET_SPECTATOR':
+      return { ...state, spectator: action.spectator };
+    
     case 'SET_CONNECTION_STATUS':
       return { ...state, connectionStatus: action.status };
     
     case 'SET_ERROR':
       return { ...state, error: action.error };
     
-    case 'UPDATE_ROOM_STATE':
-      return { ...state, room: action.room };
+    case 'UPDATE_ROOM_STATE': {
+      // Team moves and admin hand-offs arrive with the room; keep our own player in step
+      const you = state.currentPlayer && action.room.players.find(p => p.id === state.currentPlayer!.id);
+      return { ...state, room: action.room, currentPlayer: you ?? state.currentPlayer };
+    }
+    
+    case 'SESSION_RESUMED': {
+      const { room, player, spectator } = action;
+      const result = room.game?.result;
+      if (room.state === 'ended' && result) {
+        return {
+          ...state,
+          currentView: 'ended',
+          room,
+          currentPlayer: player,
+          spectator,
+          gameEndData: {
+            result: result.winner ?? 'draw',
+            ...(result.winningLine && { line: result.winningLine }),
+            scoreboard: room.players,
+          },
+        };
+      }
+      return {
+        ...state,
+        currentView: room.state === 'active' && room.game ? 'game' : 'lobby',
+        room,
+        currentPlayer: player,
+        spectator,
+      };
+    }
     
     case 'GAME_STARTED':
       if (!state.room) return state;
@@ -69,7 +125,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
           game: {
             ...action.gameData,
             votes: {},
-            perColumnCounts: [0, 0, 0, 0, 0, 0, 0],
+            perColumnCounts: emptyColumnCounts(action.gameData.board),
           }
         }
       };
@@ -84,10 +140,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
             ...state.room.game,
             board: action.moveData.board,
             lastMove: action.moveData.lastMove,
+            lastTieBreak: action.moveData.tieBreak,
             currentTeam: action.moveData.nextTeam,
             round: state.room.game.round + 1,
             votes: {},
-            perColumnCounts: [0, 0, 0, 0, 0, 0, 0],
+            perColumnCounts: emptyColumnCounts(action.moveData.board),
           }
         }
       };
@@ -110,13 +167,27 @@ function appReducer(state: AppState, action: AppAction): AppState {
           ...state.room,
           state: 'ended',
           players: action.endData.scoreboard,
+          ...(action.endData.series && { series: action.endData.series }),
           game: {
             ...state.room.game,
+            ...(action.endData.board && { board: action.endData.board }),
             result: gameResult
           }
         }
       };
     
+    case 'SERIES_ENDED':
+      if (!state.room) return state;
+      return { ...state, room: { ...state.room, series: action.series } };
+    
+    case 'CHAT_MESSAGE': {
+      if (!state.room) return state;
+      const chat = state.room.chat ?? [];
+      // A room:state snapshot may already carry the message
+      if (chat.some(m => m.id === action.message.id)) return state;
+      return { ...state, room: { ...state.room, chat: [...chat, action.message].slice(-MAX_CHAT_HISTORY) } };
+    }
+    
     case 'VOTE_UPDATE':
       if (!state.room || !state.room.game) return state;
       return {
@@ -138,13 +209,18 @@ function appReducer(state: AppState, action: AppAction): AppState {
           ...state.room,
           game: {
             ...state.room.game,
-            endsAt: action.timerData.endsAt
+            endsAt: action.timerData.endsAt,
+            // Time banks as the server counted them at this tick
+            ...(action.timerData.clocks && state.room.game.clocks && {
+              clocks: { ...state.room.game.clocks, remainingMs: action.timerData.clocks }
+            })
           }
         }
       };
     
     case 'RESET':
-      return initialState;
+      // Leaving a room doesn't drop the socket connection
+      return { ...initialState, connectionStatus: state.connectionStatus };
     
     default:
       return state;
@@ -166,6 +242,13 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     socket.on('connect', () => {
       dispatch({ type: 'SET_CONNECTION_STATUS', status: 'connected' });
       dispatch({ type: 'SET_ERROR', error: null });
+
+      // Reclaim our seat after a page refresh or dropped connection
+      if (socketManager.hasResumeToken()) {
+        socketManager.resumeSession()
+          .then(result => dispatch({ type: 'SESSION_RESUMED', room: result.room, player: result.you ?? null, spectator: result.spectator ?? null }))
+          .catch(error => console.log('Could not resume session:', error.message));
+      }
     });
 
     socket.on('disconnect', () => {
@@ -182,6 +265,23 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'UPDATE_ROOM_STATE', room });
     });
 
+    socket.on('room:kicked', (kickData) => {
+      socketManager.clearResumeToken();
+      dispatch({ type: 'RESET' });
+      dispatch({ type: 'SET_ERROR', error: kickData.reason });
+    });
+
+    socket.on('room:closed', (closeData) => {
+      socketManager.clearResumeToken();
+      dispatch({ type: 'RESET' });
+      dispatch({
+        type: 'SET_ERROR',
+        error: closeData.reason === 'ended'
+          ? 'The room was closed after the game ended'
+          : 'The room was closed after a period of inactivity'
+      });
+    });
+
     socket.on('game:started', (gameData) => {
       dispatch({ type: 'GAME_STARTED', gameData });
     });
@@ -194,13 +294,21 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'GAME_ENDED', endData });
     });
 
+    socket.on('series:ended', (series) => {
+      dispatch({ type: 'SERIES_ENDED', series });
+    });
+
+    socket.on('chat:message', (message) => {
+      dispatch({ type: 'CHAT_MESSAGE', message });
+    });
+
     socket.on('game:voteUpdate', (voteData) => {
       dispatch({ type: 'VOTE_UPDATE', voteData });
     });
 
     socket.on('game:tick', (timerData) => {
       const endsAt = Date.now() + timerData.remainingMs;
-      dispatch({ type: 'TIMER_UPDATE', timerData: { endsAt } });
+      dispatch({ type: 'TIMER_UPDATE', timerData: { endsAt, clocks: timerData.clocks } });
     });
 
     socket.on('error', (errorData) => {
@@ -212,9 +320,13 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       socket.off('disconnect');
       socket.off('connect_error');
       socket.off('room:state');
+      socket.off('room:kicked');
+      socket.off('room:closed');
       socket.off('game:started');
       socket.off('game:moveApplied');
       socket.off('game:ended');
+      socket.off('series:ended');
+      socket.off('chat:message');
       socket.off('game:voteUpdate');
       socket.off('game:tick');
       socket.off('error');
@@ -222,10 +334,10 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   // Socket action methods
-  const createRoom = async (password?: string, timerSec?: number, nickname?: string) => {
+  const createRoom = async (password?: string, timerSec?: number, nickname?: string, board?: BoardConfig, votingMode?: VotingMode, seriesTarget?: number, vanityCode?: string) => {
     try {
       dispatch({ type: 'SET_ERROR', error: null });
-      const result = await socketManager.createRoom(password, timerSec);
+      const result = await socketManager.createRoom(password, timerSec, board, votingMode, seriesTarget, vanityCode);
       console.log('Room created:', result.roomCode);
       
       // If nickname is provided, automatically join the room
@@ -256,6 +368,20 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const spectateRoom = async (roomCode: string, nickname: string, password?: string) => {
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      const result = await socketManager.spectateRoom(roomCode, nickname, password);
+      dispatch({ type: 'SET_ROOM', room: result.room });
+      dispatch({ type: 'SET_SPECTATOR', spectator: result.spectator });
+      const { room } = result;
+      dispatch({ type: 'SET_VIEW', view: room.state === 'active' && room.game ? 'game' : 'lobby' });
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
   const startGame = async () => {
     if (!state.room) throw new Error('No room to start game');
     try {
@@ -271,7 +397,18 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     if (!state.room) throw new Error('No room to cast vote');
     try {
       dispatch({ type: 'SET_ERROR', error: null });
-      await socketManager.castVote(state.room.code, column);
+      await socketManager.castVote(state.room.code, column, state.room.game?.round);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const castBallot = async (ranking: number[]) => {
+    if (!state.room) throw new Error('No room to cast vote');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.castBallot(state.room.code, ranking, state.room.game?.round);
     } catch (error) {
       dispatch({ type: 'SET_ERROR', error: (error as Error).message });
       throw error;
@@ -289,6 +426,138 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const pauseGame = async () => {
+    if (!state.room) throw new Error('No game to pause');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.pauseGame(state.room.code);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const resumeGame = async () => {
+    if (!state.room) throw new Error('No game to resume');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.resumeGame(state.room.code);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const kickPlayer = async (nickname: string) => {
+    if (!state.room) throw new Error('No room to kick from');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.kickPlayer(state.room.code, nickname);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const updateSettings = async (changes: SettingsChanges) => {
+    if (!state.room) throw new Error('No room to configure');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.updateSettings(state.room.code, changes);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const switchTeam = async () => {
+    if (!state.room) throw new Error('No room to switch teams in');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.switchTeam(state.room.code);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const movePlayer = async (nickname: string, team: Team) => {
+    if (!state.room) throw new Error('No room to move players in');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.movePlayer(state.room.code, nickname, team);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const shuffleTeams = async () => {
+    if (!state.room) throw new Error('No room to shuffle');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.shuffleTeams(state.room.code);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const lockTeams = async (locked: boolean) => {
+    if (!state.room) throw new Error('No room to lock');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.lockTeams(state.room.code, locked);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const addBot = async (team?: Team, difficulty?: BotDifficulty) => {
+    if (!state.room) throw new Error('No room to add a computer player to');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.addBot(state.room.code, team, difficulty);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const playVsComputer = async (difficulty?: BotDifficulty) => {
+    if (!state.room) throw new Error('No room to set up');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.playVsComputer(state.room.code, difficulty);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const sendChat = async (channel: ChatChannel, text: string) => {
+    if (!state.room) throw new Error('No room to chat in');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.sendChat(state.room.code, channel, text);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
+  const setMuted = async (nickname: string, muted: boolean) => {
+    if (!state.room) throw new Error('No room to moderate');
+    try {
+      dispatch({ type: 'SET_ERROR', error: null });
+      await socketManager.setMuted(state.room.code, nickname, muted);
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: (error as Error).message });
+      throw error;
+    }
+  };
+
   const leaveRoom = () => {
     if (state.room) {
       socketManager.leaveRoom(state.room.code);
@@ -301,9 +570,23 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     dispatch,
     createRoom,
     joinRoom,
+    spectateRoom,
     startGame,
     castVote,
+    castBallot,
     startRematch,
+    pauseGame,
+    resumeGame,
+    kickPlayer,
+    updateSettings,
+    switchTeam,
+    movePlayer,
+    shuffleTeams,
+    lockTeams,
+    addBot,
+    playVsComputer,
+    sendChat,
+    setMuted,
     leaveRoom,
   };
 
@@ -1,9 +1,7 @@
-import { expect, afterEach } from 'vitest';
+import { afterEach } from 'vitest';
 import { cleanup } from '@testing-library/react';
-import * as matchers from '@testing-library/jest-dom/matchers';
-
-// extends Vitest's expect method with methods from react-testing-library
-expect.extend(matchers);
+// extends Vitest's expect method (and its types) with methods from react-testing-library
+import '@testing-library/jest-dom/vitest';
 
 // runs a cleanup after each test case (e.g. clearing jsdom)
 afterEach(() => {
@@ -1,5 +1,13 @@
 // Shared types with server
-export type Team = 'red' | 'yellow';
+export type Team = 'red' | 'yellow' | 'green' | 'blue';
+
+// Every team colour in turn order; rooms play with the first two unless configured otherwise
+export const TEAMS: Team[] = ['red', 'yellow', 'green', 'blue'];
+export const DEFAULT_TEAMS: Team[] = ['red', 'yellow'];
+
+// A board square: a team's piece, a neutral wall from the power-ups rule set, or empty;
+// 'hidden' marks squares fog of war keeps from this viewer
+export type BoardCell = Team | 'wall' | 'hidden' | null;
 
 export interface Player {
   id: string;
@@ -8,31 +16,160 @@ export interface Player {
   isAdmin: boolean;
   matchingVotes: number;
   connected: boolean;
+  bot?: BotSettings;
+}
+
+// Watches the game without a team; never votes
+export interface Spectator {
+  id: string;
+  nickname: string;
+  connected: boolean;
+}
+
+// 'team' messages only reach teammates; 'room' reaches everyone including spectators
+export type ChatChannel = 'room' | 'team';
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  nickname: string;
+  channel: ChatChannel;
+  team?: Team;
+  text: string;
+  sentAt: number;
+}
+
+// Matches the server's limits
+export const MAX_CHAT_HISTORY = 50;
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+export const MAX_ROOM_CODE_LENGTH = 12;   // vanity codes; generated ones are 6
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+// Search depth and chance of a random move for computer players
+export interface BotSettings {
+  depth: number;
+  randomness: number;
+}
+
+export interface BoardConfig {
+  rows: number;
+  cols: number;
+  winLength: number;
+}
+
+// 'popout' lets a team pop one of its own pieces out of the bottom row instead of dropping one;
+// 'powerups' gives each team a few special pieces
+export type GameVariant = 'classic' | 'popout' | 'powerups';
+
+// Special pieces: an anvil clears its column and lands at the bottom, a bomb removes itself and
+// the pieces around where it lands, a wall is a neutral blocker
+export type PowerUp = 'anvil' | 'bomb' | 'wall';
+
+export type MoveKind = 'drop' | 'pop' | PowerUp;
+
+// The kinds of move each rule set offers, in move id order
+export const MOVE_KINDS: Record<GameVariant, MoveKind[]> = {
+  classic: ['drop'],
+  popout: ['drop', 'pop'],
+  powerups: ['drop', 'anvil', 'bomb', 'wall'],
+};
+
+// 'plurality' counts one column per player; 'ranked' takes ordered preferences resolved by instant-runoff
+export type VotingMode = 'plurality' | 'ranked';
+
+// What happens to a team whose time bank runs out: it loses, or its moves are played for it
+export type TimeExpiryRule = 'lose' | 'random' | 'ai';
+
+// Chess-clock timing: each team gets a bank of time that only drains while it votes
+export interface TimeControl {
+  bankSec: number;
+  incrementSec: number;  // added to the bank after each move made in time
+  onExpiry: TimeExpiryRule;
+}
+
+// Time left on each team's bank, as of the last update from the server
+export interface TeamClocks {
+  remainingMs: Partial<Record<Team, number>>;
+  incrementMs: number;
+  runningSince?: number;
+}
+
+export interface RoomSettings extends BoardConfig {
+  timerSec: number;
+  timeControl?: TimeControl | undefined;  // replaces the per-turn timer when set
+  variant?: GameVariant | undefined;      // rule set; classic when unset
+  fogOfWar?: boolean | undefined;         // each team only sees the squares around its own pieces
+  wrapAround?: boolean | undefined;       // left and right edges touch, so lines can wrap round the board
+  teams?: Team[] | undefined;             // 2-4 teams in turn order; red and yellow when unset
+  maxPlayers: number;
+  votingMode: VotingMode;
+  seriesTarget: number;  // games a team must win to take the series; 1 plays standalone games
+  startingTeam: Team;    // opens the first game; later games in a series rotate through the teams
+}
+
+// Lobby settings edit; a null time control goes back to the per-turn timer
+export type SettingsChanges = Omit<Partial<RoomSettings>, 'timeControl'> & { timeControl?: TimeControl | null };
+
+// Most columns a player may rank in a ranked-choice ballot
+export const MAX_RANKED_CHOICES = 3;
+
+// Running score across rematches; starts over once a team reaches the series target
+export interface SeriesState {
+  wins: Partial<Record<Team, number>>;
+  gamesPlayed: number;
+  winner?: Team;
 }
 
 export interface Room {
   code: string;
   passwordHash?: string;
   players: Player[];
+  spectators?: Spectator[];
+  chat?: ChatMessage[];        // only the messages this viewer may see
+  mutedIds?: string[];
+  teamsLocked?: boolean;       // only the admin can change teams
   state: 'lobby' | 'active' | 'ended' | 'aborted';
   game?: GameState;
-  settings: { timerSec: number; maxPlayers: number };
+  series?: SeriesState;
+  settings: RoomSettings;
   createdAt: number;
+  lastActivityAt?: number;
 }
 
+// Why the server closed a room on its own
+export type RoomCloseReason = 'empty' | 'idle' | 'ended';
+
 export interface GameState {
-  board: (Team | null)[][];     // [rows][cols] - 6 rows x 7 columns
+  board: BoardCell[][];         // [rows][cols] - dimensions come from room settings
+  winLength: number;
   currentTeam: Team;
+  teams?: Team[];               // turn order; red and yellow when unset
+  wrapAround?: boolean;         // lines may wrap from the right edge to the left
   round: number;
-  votes: Record<string, number>;
-  perColumnCounts: number[];
+  variant?: GameVariant;
+  votes: Record<string, number>; // playerId -> move; opponents' votes arrive redacted to -1 (voted, column hidden)
+  ballots?: Record<string, number[]>; // ranked-choice rooms: teammates' rankings, first choice mirrored in votes
+  perColumnCounts: number[];    // one entry per move
   endsAt?: number;
-  lastMove?: { col: number; row: number; team: Team };
-  result?: { winner?: Team; draw?: boolean; winningLine?: {col:number,row:number}[] };
+  pausedRemainingMs?: number;  // set while an admin has the game paused
+  lastMove?: { col: number; row: number; team: Team; popped?: boolean; piece?: PowerUp };
+  lastMoves?: Partial<Record<Team, { col: number; row: number }>>; // each team's most recent move
+  lastTieBreak?: TieBreakRule;
+  powerUps?: Partial<Record<Team, Record<PowerUp, number>>>; // special pieces left, in power-ups games
+  clocks?: TeamClocks;
+  result?: { winner?: Team; draw?: boolean; winningLine?: {col:number,row:number}[]; outOfTime?: Team };
 }
 
+// Move k * cols + c plays the rule set's k-th kind of move in column c; plain drops are just the column
+export const toMove = (kind: MoveKind, col: number, cols: number, variant: GameVariant = 'classic'): number =>
+  MOVE_KINDS[variant].indexOf(kind) * cols + col;
+
+// How a turn's column was picked; 'none' means a clear majority
+export type TieBreakRule = 'none' | 'captain' | 'random' | 'center' | 'leftmost';
+
 // Client-specific types
-export interface GameSettings {
+export interface GameSettings extends BoardConfig {
   timerSec: number;
   maxPlayers: number;
 }
@@ -44,30 +181,56 @@ export interface VoteCount {
 
 // Socket event types
 export interface ClientToServerEvents {
-  'room:create': (data: { password?: string; timerSec?: number }, callback: (response: any) => void) => void;
-  'room:join': (data: { roomCode: string; nickname: string; password?: string }, callback: (response: any) => void) => void;
+  'room:create': (data: { password?: string; timerSec?: number; rows?: number; cols?: number; winLength?: number; votingMode?: VotingMode; seriesTarget?: number }, callback: (response: any) => void) => void;
+  'room:join': (data: { roomCode: string; nickname: string; password?: string; adminToken?: string }, callback: (response: any) => void) => void;
+  'room:spectate': (data: { roomCode: string; nickname: string; password?: string }, callback: (response: any) => void) => void;
+  'room:resume': (data: { resumeToken: string; adminToken?: string }, callback: (response: any) => void) => void;
   'room:start': (data: { roomCode: string }, callback: (response: any) => void) => void;
-  'room:vote': (data: { roomCode: string; column: number }, callback: (response: any) => void) => void;
+  'room:vote': (data: { roomCode: string; column?: number; ranking?: number[]; round?: number | undefined }, callback: (response: any) => void) => void;
   'room:rematch': (data: { roomCode: string }, callback: (response: any) => void) => void;
+  'game:pause': (data: { roomCode: string }, callback: (response: any) => void) => void;
+  'game:resume': (data: { roomCode: string }, callback: (response: any) => void) => void;
   'room:kick': (data: { roomCode: string; nickname: string }, callback: (response: any) => void) => void;
+  'room:updateSettings': (data: { roomCode: string } & SettingsChanges, callback: (response: any) => void) => void;
+  'room:switchTeam': (data: { roomCode: string }, callback: (response: any) => void) => void;
+  'room:movePlayer': (data: { roomCode: string; nickname: string; team: Team }, callback: (response: any) => void) => void;
+  'room:shuffleTeams': (data: { roomCode: string }, callback: (response: any) => void) => void;
+  'room:lockTeams': (data: { roomCode: string; locked: boolean }, callback: (response: any) => void) => void;
+  'room:addBot': (data: { roomCode: string; team?: Team; difficulty?: BotDifficulty }, callback: (response: any) => void) => void;
+  'room:vsComputer': (data: { roomCode: string; difficulty?: BotDifficulty }, callback: (response: any) => void) => void;
   'room:leave': (data: { roomCode: string }) => void;
+  'chat:send': (data: { roomCode: string; channel: ChatChannel; text: string }, callback: (response: any) => void) => void;
+  'chat:mute': (data: { roomCode: string; nickname: string; muted: boolean }, callback: (response: any) => void) => void;
 }
 
 export interface ServerToClientEvents {
   'room:state': (data: Room) => void;
-  'game:started': (data: { board: (Team | null)[][]; currentTeam: Team; round: number; timerSec: number; endsAt: number }) => void;
-  'game:tick': (data: { remainingMs: number }) => void;
+  'room:kicked': (data: { roomCode: string; reason: string }) => void;
+  'room:closed': (data: { roomCode: string; reason: RoomCloseReason }) => void;
+  'game:started': (data: GameStartData) => void;
+  'game:tick': (data: { remainingMs: number; clocks?: Partial<Record<Team, number>> }) => void;
   'game:voteUpdate': (data: VoteCount) => void;
-  'game:moveApplied': (data: { board: (Team | null)[][]; lastMove: {col:number,row:number,team:Team}; nextTeam: Team }) => void;
-  'game:ended': (data: { result: 'red'|'yellow'|'draw'; line?: Array<{col:number,row:number}>; scoreboard: Player[] }) => void;
+  'game:moveApplied': (data: { board: BoardCell[][]; lastMove: {col:number,row:number,team:Team,popped?:boolean,piece?:PowerUp}; nextTeam: Team; tieBreak?: TieBreakRule }) => void;
+  'game:ended': (data: { result: Team | 'draw'; board?: BoardCell[][]; line?: Array<{col:number,row:number}>; outOfTime?: Team; scoreboard: Player[]; series?: SeriesState }) => void;
+  'series:ended': (data: { winner: Team; wins: Partial<Record<Team, number>>; gamesPlayed: number }) => void;
+  'chat:message': (data: ChatMessage) => void;
   'error': (data: { code: string; message: string }) => void;
 }
 
+// Game start data: the opening state of the game, with the board as the viewer sees it
+export type GameStartData = Pick<GameState, 'board' | 'winLength' | 'currentTeam' | 'round' | 'variant' | 'teams' | 'wrapAround' | 'powerUps' | 'clocks'> & {
+  timerSec: number;
+  endsAt: number;
+};
+
 // Game end data
 export interface GameEndData {
-  result: 'red' | 'yellow' | 'draw';
+  result: Team | 'draw';
+  board?: BoardCell[][];  // the whole board, which fog of war hid during the game
   line?: Array<{col: number; row: number}>;
+  outOfTime?: Team;  // the loser's time bank ran out
   scoreboard: Player[];
+  series?: SeriesState;
 }
 
 // UI State types
@@ -75,6 +238,7 @@ export interface AppState {
   currentView: 'home' | 'lobby' | 'game' | 'ended';
   room: Room | null;
   currentPlayer: Player | null;
+  spectator: Spectator | null;   // set instead of currentPlayer when watching
   connectionStatus: 'disconnected' | 'connecting' | 'connected';
   error: string | null;
   gameEndData: GameEndData | null;
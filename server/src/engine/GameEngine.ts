@@ -1,24 +1,28 @@
-import type { Team, GameState, Cell, IGameEngine } from '../types';
+import type { Team, BoardCell, GameState, Cell, BoardConfig, IGameEngine, PowerUp } from '../types';
+import { DEFAULT_TEAMS } from '../types';
+
+export const DEFAULT_BOARD_CONFIG: BoardConfig = { rows: 6, cols: 7, winLength: 4 };
 
 export class GameEngine implements IGameEngine {
-  newGame(): GameState {
-    // Create 6x7 board (6 rows, 7 columns each) - row-major order
-    const board: (Team | null)[][] = Array.from({ length: 6 }, () => 
-      Array.from({ length: 7 }, () => null)
+  newGame(config: BoardConfig = DEFAULT_BOARD_CONFIG): GameState {
+    // Create rows x cols board - row-major order
+    const board: BoardCell[][] = Array.from({ length: config.rows }, () => 
+      Array.from({ length: config.cols }, () => null)
     );
 
     return {
       board,
+      winLength: config.winLength,
       currentTeam: 'red',
       round: 1,
       votes: {},
-      perColumnCounts: [0, 0, 0, 0, 0, 0, 0],
+      perColumnCounts: Array.from({ length: config.cols }, () => 0),
     };
   }
 
-  isValidMove(board: (Team | null)[][], col: number): boolean {
+  isValidMove(board: BoardCell[][], col: number): boolean {
     // Check if column is within bounds
-    if (col < 0 || col >= 7) {
+    if (col < 0 || col >= this.getColumnCount(board)) {
       return false;
     }
 
@@ -27,7 +31,11 @@ export class GameEngine implements IGameEngine {
     return !!(board[0] && board[0][col] === null);
   }
 
-  applyMove(board: (Team | null)[][], col: number, team: Team): { board: (Team | null)[][]; row: number } {
+  applyMove(board: BoardCell[][], col: number, team: Team): { board: BoardCell[][]; row: number } {
+    return this.dropPiece(board, col, team);
+  }
+
+  private dropPiece(board: BoardCell[][], col: number, piece: Team | 'wall'): { board: BoardCell[][]; row: number } {
     if (!this.isValidMove(board, col)) {
       throw new Error(`Invalid move: column ${col}`);
     }
@@ -35,9 +43,9 @@ export class GameEngine implements IGameEngine {
     // Create a deep copy of the board to avoid mutation
     const newBoard = board.map(row => [...row]);
 
-    // Find the lowest empty row (gravity effect) - start from bottom (row 5) and go up
+    // Find the lowest empty row (gravity effect) - start from bottom row and go up
     let targetRow = -1;
-    for (let row = 5; row >= 0; row--) {
+    for (let row = newBoard.length - 1; row >= 0; row--) {
       const currentRow = newBoard[row];
       if (currentRow && currentRow[col] === null) {
         targetRow = row;
@@ -52,7 +60,7 @@ export class GameEngine implements IGameEngine {
     // Place the piece
     const targetRowArray = newBoard[targetRow];
     if (targetRowArray) {
-      targetRowArray[col] = team;
+      targetRowArray[col] = piece;
     }
 
     return {
@@ -61,7 +69,14 @@ export class GameEngine implements IGameEngine {
     };
   }
 
-  checkWin(board: (Team | null)[][], lastMove: { col: number; row: number; team: Team }): { winner?: Team; winningLine?: Cell[] } {
+  // With `wrapAround` the left and right edges touch, so horizontal and diagonal lines continue
+  // on the other side of the board
+  checkWin(
+    board: BoardCell[][],
+    lastMove: { col: number; row: number; team: Team },
+    winLength = DEFAULT_BOARD_CONFIG.winLength,
+    wrapAround = false
+  ): { winner?: Team; winningLine?: Cell[] } {
     const { col, row, team } = lastMove;
 
     // Check all four directions from the last move position
@@ -73,11 +88,11 @@ export class GameEngine implements IGameEngine {
     ];
 
     for (const direction of directions) {
-      const line = this.checkDirection(board, col, row, team, direction.deltaCol, direction.deltaRow);
-      if (line.length >= 4) {
+      const line = this.checkDirection(board, col, row, team, direction.deltaCol, direction.deltaRow, wrapAround);
+      if (line.length >= winLength) {
         return {
           winner: team,
-          winningLine: line.slice(0, 4) // Return exactly 4 pieces
+          winningLine: line.slice(0, winLength) // Return exactly winLength pieces
         };
       }
     }
@@ -86,32 +101,38 @@ export class GameEngine implements IGameEngine {
   }
 
   private checkDirection(
-    board: (Team | null)[][],
+    board: BoardCell[][],
     startCol: number,
     startRow: number,
     team: Team,
     deltaCol: number,
-    deltaRow: number
+    deltaRow: number,
+    wrapAround: boolean
   ): Cell[] {
     const line: Cell[] = [];
+    const rows = board.length;
+    const cols = this.getColumnCount(board);
+    const matches = (col: number, row: number) => {
+      const wrapped = this.columnAt(board, col, wrapAround);
+      return wrapped !== undefined && row >= 0 && row < rows && board[row]?.[wrapped] === team;
+    };
+    // A row round the cylinder would otherwise meet itself; diagonals climb, so they never do
+    const maxLength = wrapAround && deltaRow === 0 ? cols : Infinity;
 
     // Check in both directions from the starting position
-    // First, go backwards
+    // First, go backwards until we find a different piece or edge
     let col = startCol;
     let row = startRow;
-    
-    // Go backwards until we find a different piece or edge
-    while (col >= 0 && col < 7 && row >= 0 && row < 6 && board[row]?.[col] === team) {
+    let steps = 1;
+    while (steps < maxLength && matches(col - deltaCol, row - deltaRow)) {
       col -= deltaCol;
       row -= deltaRow;
+      steps++;
     }
-    
+
     // Now go forward and collect all matching pieces
-    col += deltaCol;
-    row += deltaRow;
-    
-    while (col >= 0 && col < 7 && row >= 0 && row < 6 && board[row]?.[col] === team) {
-      line.push({ col, row });
+    while (line.length < maxLength && matches(col, row)) {
+      line.push({ col: this.columnAt(board, col, wrapAround)!, row });
       col += deltaCol;
       row += deltaRow;
     }
@@ -119,10 +140,23 @@ export class GameEngine implements IGameEngine {
     return line;
   }
 
-  isBoardFull(board: (Team | null)[][]): boolean {
+  // Off the side of the board, or back round to the other side on a cylinder
+  private columnAt(board: BoardCell[][], col: number, wrapAround: boolean): number | undefined {
+    const cols = this.getColumnCount(board);
+    if (wrapAround) return ((col % cols) + cols) % cols;
+    return col >= 0 && col < cols ? col : undefined;
+  }
+
+  // The columns either side of `col` and the column itself, each once
+  private neighbourColumns(board: BoardCell[][], col: number, wrapAround: boolean): number[] {
+    const columns = [col - 1, col, col + 1].map(c => this.columnAt(board, c, wrapAround));
+    return [...new Set(columns.filter((c): c is number => c !== undefined))];
+  }
+
+  isBoardFull(board: BoardCell[][]): boolean {
     // Check if all top rows are filled (row 0 for each column)
     if (!board[0]) return false;
-    for (let col = 0; col < 7; col++) {
+    for (let col = 0; col < board[0].length; col++) {
       if (board[0][col] === null) {
         return false;
       }
@@ -130,7 +164,136 @@ export class GameEngine implements IGameEngine {
     return true;
   }
 
-  nextTeam(team: Team): Team {
-    return team === 'red' ? 'yellow' : 'red';
+  // PopOut: a team may only pop its own piece, and only from the bottom row
+  canPop(board: BoardCell[][], col: number, team: Team): boolean {
+    return col >= 0 && col < this.getColumnCount(board) && board[board.length - 1]?.[col] === team;
+  }
+
+  // Remove the bottom piece of a column and let the pieces above it fall one row
+  applyPop(board: BoardCell[][], col: number): { board: BoardCell[][]; row: number } {
+    const bottom = board.length - 1;
+    if (col < 0 || col >= this.getColumnCount(board) || board[bottom]?.[col] == null) {
+      throw new Error(`Invalid pop: column ${col}`);
+    }
+
+    const newBoard = board.map(row => [...row]);
+    for (let row = bottom; row > 0; row--) {
+      newBoard[row]![col] = newBoard[row - 1]![col] ?? null;
+    }
+    newBoard[0]![col] = null;
+
+    return { board: newBoard, row: bottom };
+  }
+
+  // Lines through any piece of a column, per team; after a pop both teams may have connected
+  checkColumnWins(
+    board: BoardCell[][],
+    col: number,
+    winLength = DEFAULT_BOARD_CONFIG.winLength,
+    wrapAround = false
+  ): Partial<Record<Team, Cell[]>> {
+    const wins: Partial<Record<Team, Cell[]>> = {};
+    for (let row = 0; row < board.length; row++) {
+      const team = board[row]?.[col];
+      if (team && team !== 'wall' && team !== 'hidden' && !wins[team]) {
+        const { winningLine } = this.checkWin(board, { col, row, team }, winLength, wrapAround);
+        if (winningLine) {
+          wins[team] = winningLine;
+        }
+      }
+    }
+    return wins;
+  }
+
+  // Play a special piece. The row is where the piece came to rest (or went off, for a bomb).
+  applyPowerUp(
+    board: BoardCell[][],
+    col: number,
+    team: Team,
+    piece: PowerUp,
+    wrapAround = false
+  ): { board: BoardCell[][]; row: number } {
+    switch (piece) {
+      case 'wall':
+        return this.dropPiece(board, col, 'wall');
+      case 'anvil': {
+        // Crushes everything in the column and settles at the bottom as the team's piece
+        const { board: dropped } = this.dropPiece(board, col, team);
+        const bottom = dropped.length - 1;
+        for (let row = 0; row < bottom; row++) {
+          dropped[row]![col] = null;
+        }
+        dropped[bottom]![col] = team;
+        return { board: dropped, row: bottom };
+      }
+      case 'bomb': {
+        // Clears the 3x3 block around where it lands, then the neighbouring columns settle
+        const { board: dropped, row } = this.dropPiece(board, col, team);
+        const columns = this.neighbourColumns(dropped, col, wrapAround);
+        for (let r = row - 1; r <= row + 1; r++) {
+          for (const c of columns) {
+            if (dropped[r]?.[c] !== undefined) {
+              dropped[r]![c] = null;
+            }
+          }
+        }
+        for (const c of columns) {
+          this.settleColumn(dropped, c);
+        }
+        return { board: dropped, row };
+      }
+    }
+  }
+
+  // Every line on the board, per team; removing pieces can connect either team anywhere
+  checkBoardWins(
+    board: BoardCell[][],
+    winLength = DEFAULT_BOARD_CONFIG.winLength,
+    wrapAround = false
+  ): Partial<Record<Team, Cell[]>> {
+    const wins: Partial<Record<Team, Cell[]>> = {};
+    for (let col = 0; col < this.getColumnCount(board); col++) {
+      const columnWins = this.checkColumnWins(board, col, winLength, wrapAround);
+      for (const [team, line] of Object.entries(columnWins) as [Team, Cell[]][]) {
+        wins[team] ??= line;
+      }
+    }
+    return wins;
+  }
+
+  // The board as one team sees it under fog of war: the squares around its own pieces plus the
+  // revealed ones. Viewers without a team only see the revealed squares.
+  fogView(board: BoardCell[][], team: Team | undefined, revealed: Cell[], wrapAround = false): BoardCell[][] {
+    const nearOwnPiece = (row: number, col: number) => {
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (const c of this.neighbourColumns(board, col, wrapAround)) {
+          if (team !== undefined && board[r]?.[c] === team) {
+            return true;
+          }
+        }
+      }
+      return false;
+    };
+
+    return board.map((cells, row) => cells.map((cell, col) =>
+      nearOwnPiece(row, col) || revealed.some(r => r.row === row && r.col === col) ? cell : 'hidden'
+    ));
+  }
+
+  // Let the pieces of a column fall onto each other, keeping their order
+  private settleColumn(board: BoardCell[][], col: number): void {
+    const pieces = board.map(row => row[col] ?? null).filter(cell => cell !== null);
+    for (let row = board.length - 1; row >= 0; row--) {
+      board[row]![col] = pieces.pop() ?? null;
+    }
+  }
+
+  // The team after `team` in turn order, wrapping around
+  nextTeam(team: Team, teams: Team[] = DEFAULT_TEAMS): Team {
+    return teams[(teams.indexOf(team) + 1) % teams.length]!;
+  }
+
+  private getColumnCount(board: BoardCell[][]): number {
+    return board[0]?.length ?? 0;
   }
 }
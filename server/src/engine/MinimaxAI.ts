@@ -0,0 +1,180 @@
+import type { Team, BoardCell, BotDifficulty, BotSettings, IGameEngine } from '../types';
+import { DEFAULT_TEAMS } from '../types';
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, BotSettings> = {
+  easy: { depth: 1, randomness: 0.35 },
+  medium: { depth: 3, randomness: 0.1 },
+  hard: { depth: 5, randomness: 0 },
+};
+
+// Longest a bot thinks about a move. The search blocks the event loop for every room, so on big
+// boards the bot settles for the deepest search that fits.
+export const SEARCH_BUDGET_MS = 500;
+
+const WIN_SCORE = 1_000_000;
+
+// What stays the same throughout one search
+interface SearchRules {
+  teams: Team[];
+  winLength: number;
+  wrapAround: boolean;
+  deadline: number;  // epoch ms after which the search gives up
+}
+
+// Abandons a search that ran out of time
+class SearchTimeout extends Error {}
+
+export class MinimaxAI {
+  constructor(
+    private gameEngine: IGameEngine,
+    private settings: BotSettings,
+    private random: () => number = Math.random,
+    private now: () => number = Date.now
+  ) {}
+
+  // With more than two teams the search treats whichever team moves next as the opponent
+  chooseColumn(board: BoardCell[][], team: Team, winLength: number, teams: Team[] = DEFAULT_TEAMS, wrapAround = false): number {
+    const validCols = this.getOrderedColumns(board);
+    if (validCols.length === 0) {
+      throw new Error('No valid moves');
+    }
+
+    // Occasionally play a random move so easier bots make mistakes
+    if (this.random() < this.settings.randomness) {
+      return validCols[Math.floor(this.random() * validCols.length)]!;
+    }
+
+    // Iterative deepening: search one ply deeper at a time and keep the choice of the deepest search
+    // that finished in time. The one-ply search always runs to the end.
+    const deadline = this.now() + SEARCH_BUDGET_MS;
+    let bestCols = validCols;
+    for (let depth = 1; depth <= Math.max(1, this.settings.depth); depth++) {
+      const rules = { teams, winLength, wrapAround, deadline: depth === 1 ? Infinity : deadline };
+      try {
+        bestCols = this.bestColumns(board, validCols, team, rules, depth);
+      } catch (error) {
+        if (error instanceof SearchTimeout) {
+          break;
+        }
+        throw error;
+      }
+    }
+
+    // Random selection among equally good moves
+    return bestCols[Math.floor(this.random() * bestCols.length)]!;
+  }
+
+  // The columns that score best when searched `depth` plies deep
+  private bestColumns(board: BoardCell[][], validCols: number[], team: Team, rules: SearchRules, depth: number): number[] {
+    let bestScore = -Infinity;
+    let bestCols: number[] = [];
+    for (const col of validCols) {
+      const score = this.scoreMove(board, col, team, rules, depth - 1, -Infinity, Infinity);
+      if (score > bestScore) {
+        bestScore = score;
+        bestCols = [col];
+      } else if (score === bestScore) {
+        bestCols.push(col);
+      }
+    }
+    return bestCols;
+  }
+
+  // Score of playing `col` for `team`, from `team`'s point of view
+  private scoreMove(
+    board: BoardCell[][],
+    col: number,
+    team: Team,
+    rules: SearchRules,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number {
+    if (this.now() > rules.deadline) {
+      throw new SearchTimeout();
+    }
+
+    const { board: nextBoard, row } = this.gameEngine.applyMove(board, col, team);
+
+    if (this.gameEngine.checkWin(nextBoard, { col, row, team }, rules.winLength, rules.wrapAround).winner) {
+      // Prefer faster wins
+      return WIN_SCORE + depth;
+    }
+
+    if (this.gameEngine.isBoardFull(nextBoard)) {
+      return 0;
+    }
+
+    if (depth === 0) {
+      return this.evaluate(nextBoard, team, rules);
+    }
+
+    // Negamax: the opponent's best reply is our worst outcome, so their
+    // search window is ours negated
+    const opponent = this.gameEngine.nextTeam(team, rules.teams);
+    let opponentAlpha = -beta;
+    const opponentBeta = -alpha;
+    let best = -Infinity;
+    for (const reply of this.getOrderedColumns(nextBoard)) {
+      const score = this.scoreMove(nextBoard, reply, opponent, rules, depth - 1, opponentAlpha, opponentBeta);
+      best = Math.max(best, score);
+      opponentAlpha = Math.max(opponentAlpha, score);
+      if (opponentAlpha >= opponentBeta) {
+        break;
+      }
+    }
+
+    return -best;
+  }
+
+  // Static evaluation: reward open lines of our pieces, penalise the opponent's
+  private evaluate(board: BoardCell[][], team: Team, { winLength, wrapAround }: SearchRules): number {
+    const rows = board.length;
+    const cols = board[0]?.length ?? 0;
+    const directions = [
+      { deltaCol: 1, deltaRow: 0 },
+      { deltaCol: 0, deltaRow: 1 },
+      { deltaCol: 1, deltaRow: 1 },
+      { deltaCol: 1, deltaRow: -1 }
+    ];
+
+    let score = 0;
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        for (const { deltaCol, deltaRow } of directions) {
+          // When the board wraps, windows run off the right edge and back in on the left; only a
+          // row shorter than the window can't hold one
+          const endCol = col + deltaCol * (winLength - 1);
+          const endRow = row + deltaRow * (winLength - 1);
+          const offSide = wrapAround ? deltaRow === 0 && winLength > cols : endCol < 0 || endCol >= cols;
+          if (offSide || endRow < 0 || endRow >= rows) {
+            continue;
+          }
+
+          let own = 0;
+          let theirs = 0;
+          for (let i = 0; i < winLength; i++) {
+            const cell = board[row + deltaRow * i]?.[(col + deltaCol * i) % cols];
+            if (cell === team) own++;
+            else if (cell !== null) theirs++;
+          }
+
+          // Only windows that one side can still complete matter
+          if (theirs === 0 && own > 0) score += Math.pow(10, own - 1);
+          if (own === 0 && theirs > 0) score -= Math.pow(10, theirs - 1);
+        }
+      }
+    }
+
+    return score;
+  }
+
+  // Valid columns ordered centre-out, which helps alpha-beta prune earlier
+  private getOrderedColumns(board: BoardCell[][]): number[] {
+    const cols = board[0]?.length ?? 0;
+    const center = (cols - 1) / 2;
+    return Array.from({ length: cols }, (_, col) => col)
+      .filter(col => this.gameEngine.isValidMove(board, col))
+      .sort((a, b) => Math.abs(a - center) - Math.abs(b - center));
+  }
+}
@@ -1,5 +1,12 @@
 import express from 'express';
-import { RoomService } from '../services/RoomService';
+import { RoomService, RoomServiceError } from '../services/RoomService';
+
+// Room creation failures the caller can fix; anything else is a server error
+const CREATE_ROOM_STATUS: Record<string, number> = {
+  ROOM_CODE_TAKEN: 409,
+  INVALID_ROOM_CODE: 400,
+  INVALID_SETTINGS: 400,
+};
 
 export function createRoutes(roomService: RoomService): express.Router {
   const router = express.Router();
@@ -9,15 +16,19 @@ export function createRoutes(roomService: RoomService): express.Router {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
-  // Create room endpoint (alternative to socket)
+  // Create room endpoint (alternative to socket). The room waits for its host: whoever joins
+  // with the returned adminToken becomes admin, not simply the first player in.
   router.post('/rooms/create', async (req, res) => {
     try {
-      const { password, timerSec } = req.body;
-      const result = await roomService.createRoom({ password, timerSec });
+      const { password, timerSec, rows, cols, winLength, votingMode, variant, fogOfWar, wrapAround, teams, seriesTarget, timeControl, vanityCode } = req.body;
+      const result = await roomService.createRoom({ password, timerSec, rows, cols, winLength, votingMode, variant, fogOfWar, wrapAround, teams, seriesTarget, timeControl, vanityCode, hostJoinsLater: true });
       res.json(result);
     } catch (error) {
-      console.error('Error creating room via HTTP:', error);
-      res.status(500).json({ 
+      const status = error instanceof RoomServiceError ? CREATE_ROOM_STATUS[error.code] ?? 500 : 500;
+      if (status === 500) {
+        console.error('Error creating room via HTTP:', error);
+      }
+      res.status(status).json({
         error: 'Failed to create room',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -25,9 +36,11 @@ export function createRoutes(roomService: RoomService): express.Router {
   });
 
   // Get room info (for debugging/admin purposes)
+  // Votes are redacted unless the caller presents a player's resume token in X-Resume-Token
   router.get('/rooms/:code', async (req, res) => {
     try {
-      const room = await roomService.getRoom(req.params.code);
+      const viewerId = roomService.identifyViewer(req.params.code, req.get('x-resume-token'));
+      const room = await roomService.getRoomForViewer(req.params.code, viewerId);
       if (!room) {
         res.status(404).json({ error: 'Room not found' });
         return;
@@ -2,24 +2,56 @@ import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
 import { GameEngine } from './engine/GameEngine';
-import { MajorityTurnDecider } from './services/MajorityTurnDecider';
+import { CaptainTurnDecider } from './services/CaptainTurnDecider';
 import { SystemClock } from './utils/Clock';
 import { InMemoryRoomStore } from './services/InMemoryRoomStore';
+import { SqliteRoomStore } from './services/SqliteRoomStore';
 import { AccessControl } from './services/AccessControl';
+import { ChatFilter } from './services/ChatFilter';
+import { HmacSessionTokens } from './services/SessionTokens';
 import { RoomService } from './services/RoomService';
+import { ChatService } from './services/ChatService';
+import { DEFAULT_ROOM_LIFETIMES, RoomSweeper } from './services/RoomSweeper';
 import { SocketServer } from './transport/SocketServer';
 import { createRoutes } from './http/routes';
+import type { IRoomStore, TieBreakFallback } from './types';
 
 const PORT = process.env['PORT'] || 3001;
 const CLIENT_URL = process.env['CLIENT_URL'] || 'http://localhost:5173';
 
+// Room lifetimes in minutes, e.g. ROOM_TTL_EMPTY_MIN=5
+function minutesFromEnv(name: string, fallbackMs: number): number {
+  const minutes = Number(process.env[name]);
+  return minutes > 0 ? minutes * 60 * 1000 : fallbackMs;
+}
+
+// ROOM_STORE=sqlite keeps rooms in a database file (SQLITE_PATH) so they survive restarts
+function createRoomStore(): IRoomStore {
+  const storeType = process.env['ROOM_STORE'] || 'memory';
+  switch (storeType) {
+    case 'memory':
+      return new InMemoryRoomStore();
+    case 'sqlite':
+      // Resume tokens have to outlive the process as the rooms do, or no player could take back a seat
+      if (!process.env['SESSION_SECRET']) {
+        throw new Error('ROOM_STORE=sqlite needs SESSION_SECRET so resume tokens survive restarts');
+      }
+      return new SqliteRoomStore(process.env['SQLITE_PATH'] || 'connect4.db');
+    default:
+      throw new Error(`Unknown ROOM_STORE: ${storeType}`);
+  }
+}
+
 async function startServer() {
   // Initialize dependencies
   const gameEngine = new GameEngine();
-  const turnDecider = new MajorityTurnDecider();
+  const turnDecider = new CaptainTurnDecider(
+    (process.env['TIE_BREAK_FALLBACK'] as TieBreakFallback | undefined) || 'random'
+  );
   const clock = new SystemClock();
-  const roomStore = new InMemoryRoomStore();
+  const roomStore = createRoomStore();
   const accessControl = new AccessControl();
+  const sessionTokens = new HmacSessionTokens(process.env['SESSION_SECRET']);
   
   // Initialize services
   const roomService = new RoomService(
@@ -27,8 +59,10 @@ async function startServer() {
     accessControl,
     gameEngine,
     turnDecider,
-    clock
+    clock,
+    sessionTokens
   );
+  const chatService = new ChatService(roomStore, new ChatFilter(), clock);
 
   // Create Express app
   const app = express();
@@ -47,7 +81,19 @@ async function startServer() {
   const httpServer = createServer(app);
 
   // Initialize Socket.IO
-  new SocketServer(httpServer, roomService);
+  const socketServer = new SocketServer(httpServer, roomService, chatService);
+
+  // Resume games that were in progress before a restart (only a persistent store has any)
+  await socketServer.restoreActiveRooms();
+
+  // Close rooms nobody uses any more
+  const roomSweeper = new RoomSweeper(roomStore, roomService, clock, {
+    emptyMs: minutesFromEnv('ROOM_TTL_EMPTY_MIN', DEFAULT_ROOM_LIFETIMES.emptyMs),
+    idleLobbyMs: minutesFromEnv('ROOM_TTL_LOBBY_MIN', DEFAULT_ROOM_LIFETIMES.idleLobbyMs),
+    endedMs: minutesFromEnv('ROOM_TTL_ENDED_MIN', DEFAULT_ROOM_LIFETIMES.endedMs)
+  });
+  roomSweeper.setClosedCallback(({ roomCode, reason }) => socketServer.notifyRoomClosed(roomCode, reason));
+  roomSweeper.start();
 
   // Start server
   httpServer.listen(PORT, () => {
@@ -60,7 +106,11 @@ async function startServer() {
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\n🛑 Shutting down server...');
+    roomSweeper.stop();
     httpServer.close(() => {
+      if (roomStore instanceof SqliteRoomStore) {
+        roomStore.close();
+      }
       console.log('✅ Server closed');
       process.exit(0);
     });
@@ -9,8 +9,8 @@ export class AccessControl implements IAccessControl {
   }
 
   validateRoomCode(code: string): boolean {
-    // Room codes should be 6-8 characters, alphanumeric (excluding confusing chars)
-    const validPattern = /^[A-Z2-9]{6,8}$/;
+    // Room codes should be 6-12 characters, uppercase letters and digits 2-9 (vanity codes may be longer than generated ones)
+    const validPattern = /^[A-Z2-9]{6,12}$/;
     return validPattern.test(code);
   }
 
@@ -0,0 +1,47 @@
+import type { TieBreakFallback, TurnContext, TurnDecision } from '../types';
+import { MajorityTurnDecider } from './MajorityTurnDecider';
+
+export const TIE_BREAK_FALLBACKS: TieBreakFallback[] = ['random', 'center', 'leftmost'];
+
+// Majority vote where the team captain's vote settles ties
+export class CaptainTurnDecider extends MajorityTurnDecider {
+  constructor(private fallback: TieBreakFallback = 'random') {
+    super();
+    if (!TIE_BREAK_FALLBACKS.includes(fallback)) {
+      throw new Error(`Unknown tie-break fallback: ${fallback}`);
+    }
+  }
+
+  override decideTurn(perColumnCounts: number[], validCols: number[], context: TurnContext): TurnDecision {
+    const tiedColumns = this.findTopColumns(perColumnCounts, validCols);
+    if (tiedColumns.length === 1) {
+      return { column: tiedColumns[0]!, tieBreak: 'none' };
+    }
+
+    const captainVote = context.captainId !== undefined ? context.votes[context.captainId] : undefined;
+    if (captainVote !== undefined && tiedColumns.includes(captainVote)) {
+      return { column: captainVote, tieBreak: 'captain' };
+    }
+
+    return { column: this.applyFallback(tiedColumns, context.columnCount ?? perColumnCounts.length), tieBreak: this.fallback };
+  }
+
+  // Tied PopOut pops are measured by the column they pop; leftmost prefers drops to pops
+  private applyFallback(tiedColumns: number[], columnCount: number): number {
+    switch (this.fallback) {
+      case 'leftmost':
+        return Math.min(...tiedColumns);
+      case 'center': {
+        // Closest to the middle; the left one wins when two are equally close
+        const center = (columnCount - 1) / 2;
+        const distance = (move: number) => Math.abs((move % columnCount) - center);
+        return tiedColumns.reduce((best, col) =>
+          distance(col) < distance(best) ? col : best
+        );
+      }
+      case 'random':
+      default:
+        return this.pickRandomColumn(tiedColumns);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { IChatFilter } from '../types';
+import { MAX_CHAT_MESSAGE_LENGTH } from '../types';
+
+// Words masked in chat, matched as whole words with common suffixes so "scunthorpe"-style
+// false positives stay out
+const DEFAULT_BLOCKED_WORDS = [
+  'arse', 'asshole', 'bastard', 'bitch', 'bollocks', 'cock', 'crap', 'cunt', 'dick',
+  'fuck', 'motherfucker', 'piss', 'prick', 'shit', 'slut', 'twat', 'wanker', 'whore'
+];
+
+export class ChatFilter implements IChatFilter {
+  private readonly blocked: RegExp;
+
+  constructor(blockedWords: string[] = DEFAULT_BLOCKED_WORDS) {
+    const alternatives = blockedWords.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    this.blocked = new RegExp(`\\b(?:${alternatives})(?:s|es|ed|er|ers|ing|y)?\\b`, 'gi');
+  }
+
+  validateMessage(text: string): { valid: boolean; error?: string } {
+    if (typeof text !== 'string' || this.clean(text).length === 0) {
+      return { valid: false, error: 'Message cannot be empty' };
+    }
+
+    if (this.clean(text).length > MAX_CHAT_MESSAGE_LENGTH) {
+      return { valid: false, error: `Message too long (max ${MAX_CHAT_MESSAGE_LENGTH} characters)` };
+    }
+
+    return { valid: true };
+  }
+
+  // Strip invisible characters, collapse whitespace and mask blocked words
+  sanitizeMessage(text: string): string {
+    return this.clean(text).replace(this.blocked, match => '*'.repeat(match.length));
+  }
+
+  private clean(text: string): string {
+    return text
+      .replace(/[\u0000-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060\uFEFF]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
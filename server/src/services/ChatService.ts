@@ -0,0 +1,98 @@
+import type {
+  ChatChannel,
+  ChatMessage,
+  IChatFilter,
+  IClock,
+  IRoomStore,
+  Player,
+  Spectator
+} from '../types';
+import { MAX_CHAT_HISTORY } from '../types';
+import { RoomServiceError } from './RoomService';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ChatService {
+  constructor(
+    private roomStore: IRoomStore,
+    private chatFilter: IChatFilter,
+    private clock: IClock
+  ) {}
+
+  // Validate, filter and store a message; the caller delivers it to the channel's audience
+  async sendMessage(roomCode: string, senderId: string, channel: ChatChannel, text: string): Promise<ChatMessage> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const player = room.players.find(p => p.id === senderId);
+    const sender: Player | Spectator | undefined = player ?? room.spectators?.find(s => s.id === senderId);
+    if (!sender) {
+      throw new RoomServiceError('PLAYER_NOT_FOUND', 'Player not found in room');
+    }
+
+    if (channel !== 'room' && channel !== 'team') {
+      throw new RoomServiceError('INVALID_CHANNEL', 'Unknown chat channel');
+    }
+
+    if (channel === 'team' && !player) {
+      throw new RoomServiceError('INVALID_CHANNEL', 'Spectators can only use room chat');
+    }
+
+    if (room.mutedIds?.includes(senderId)) {
+      throw new RoomServiceError('CHAT_MUTED', 'You have been muted by the admin');
+    }
+
+    const validation = this.chatFilter.validateMessage(text);
+    if (!validation.valid) {
+      throw new RoomServiceError('INVALID_MESSAGE', validation.error || 'Invalid message');
+    }
+
+    const message: ChatMessage = {
+      id: uuidv4(),
+      senderId,
+      nickname: sender.nickname,
+      channel,
+      text: this.chatFilter.sanitizeMessage(text),
+      sentAt: this.clock.now()
+    };
+    if (channel === 'team') {
+      message.team = player!.team;
+    }
+
+    room.chat = [...(room.chat ?? []), message].slice(-MAX_CHAT_HISTORY);
+    room.lastActivityAt = message.sentAt;
+    await this.roomStore.updateRoom(room.code, room);
+
+    return message;
+  }
+
+  // Admin-only: silence or unsilence a player or spectator by nickname
+  async setMuted(roomCode: string, adminPlayerId: string, nickname: string, muted: boolean): Promise<Player | Spectator> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can mute players');
+    }
+
+    const wanted = nickname.trim().toLowerCase();
+    const target = [...room.players, ...(room.spectators ?? [])].find(v => v.nickname.toLowerCase() === wanted);
+    if (!target) {
+      throw new RoomServiceError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    if (target.id === admin.id) {
+      throw new RoomServiceError('INVALID_TARGET', 'Admin cannot mute themselves');
+    }
+
+    const others = (room.mutedIds ?? []).filter(id => id !== target.id);
+    room.mutedIds = muted ? [...others, target.id] : others;
+    await this.roomStore.updateRoom(room.code, room);
+
+    return target;
+  }
+}
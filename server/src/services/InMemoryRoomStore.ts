@@ -4,6 +4,9 @@ export class InMemoryRoomStore implements IRoomStore {
   private rooms = new Map<string, Room>();
 
   async createRoom(room: Room): Promise<void> {
+    if (this.rooms.has(room.code)) {
+      throw new Error(`Room ${room.code} already exists`);
+    }
     this.rooms.set(room.code, room);
   }
 
@@ -23,6 +26,10 @@ export class InMemoryRoomStore implements IRoomStore {
     this.rooms.delete(code);
   }
 
+  async listRooms(): Promise<Room[]> {
+    return this.getAllRooms();
+  }
+
   // Helper methods for testing and management
   getAllRooms(): Room[] {
     return Array.from(this.rooms.values());
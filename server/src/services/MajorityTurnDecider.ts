@@ -1,12 +1,13 @@
-import type { ITurnDecider } from '../types';
+import type { ITurnDecider, TurnContext, TurnDecision } from '../types';
+import { DEFAULT_BOARD_CONFIG } from '../engine/GameEngine';
 
 export class MajorityTurnDecider implements ITurnDecider {
-  tallyVotes(votes: Record<string, number>, validCols: number[]): number[] {
-    const counts = [0, 0, 0, 0, 0, 0, 0]; // 7 columns
+  tallyVotes(votes: Record<string, number>, validCols: number[], columnCount = DEFAULT_BOARD_CONFIG.cols): number[] {
+    const counts = Array.from({ length: columnCount }, () => 0);
     
     for (const column of Object.values(votes)) {
       // Only count votes for valid columns
-      if (validCols.includes(column) && column >= 0 && column < 7) {
+      if (validCols.includes(column) && column >= 0 && column < columnCount) {
         counts[column] = (counts[column] || 0) + 1;
       }
     }
@@ -14,13 +15,22 @@ export class MajorityTurnDecider implements ITurnDecider {
     return counts;
   }
 
-  decideColumn(perColumnCounts: number[], validCols: number[] = [0, 1, 2, 3, 4, 5, 6]): number {
-    // If no votes at all, pick random valid column
-    const totalVotes = perColumnCounts.reduce((sum, count) => sum + count, 0);
-    if (totalVotes === 0) {
-      return this.pickRandomColumn(validCols);
+  decideColumn(perColumnCounts: number[], validCols: number[] = perColumnCounts.map((_, col) => col)): number {
+    return this.decideTurn(perColumnCounts, validCols, { votes: {} }).column;
+  }
+
+  decideTurn(perColumnCounts: number[], validCols: number[], _context: TurnContext): TurnDecision {
+    const tiedColumns = this.findTopColumns(perColumnCounts, validCols);
+    if (tiedColumns.length === 1) {
+      return { column: tiedColumns[0]!, tieBreak: 'none' };
     }
-    
+
+    // Random selection among tied columns
+    return { column: this.pickRandomColumn(tiedColumns), tieBreak: 'random' };
+  }
+
+  // Valid columns sharing the highest vote count; every valid column when nobody voted
+  protected findTopColumns(perColumnCounts: number[], validCols: number[]): number[] {
     // Find maximum vote count among valid columns only
     let maxVotes = 0;
     for (let col = 0; col < perColumnCounts.length; col++) {
@@ -30,9 +40,9 @@ export class MajorityTurnDecider implements ITurnDecider {
       }
     }
     
-    // If still no votes for valid columns, pick random valid column
+    // If no votes for valid columns, any valid column will do
     if (maxVotes === 0) {
-      return this.pickRandomColumn(validCols);
+      return [...validCols];
     }
     
     // Find all columns with the maximum votes (among valid columns)
@@ -43,11 +53,10 @@ export class MajorityTurnDecider implements ITurnDecider {
       }
     }
     
-    // Random selection among tied columns
-    return this.pickRandomColumn(tiedColumns);
+    return tiedColumns;
   }
 
-  private pickRandomColumn(columns: number[]): number {
+  protected pickRandomColumn(columns: number[]): number {
     if (columns.length === 0) {
       return 0; // Fallback
     }
@@ -0,0 +1,62 @@
+import type { ITurnDecider, TurnContext, TurnDecision } from '../types';
+import { MajorityTurnDecider } from './MajorityTurnDecider';
+
+// Instant-runoff over ranked ballots. Live tallies count first choices; when the runoff
+// ends in a dead heat, the wrapped decider settles it.
+export class RankedChoiceTurnDecider implements ITurnDecider {
+  constructor(private tieBreaker: ITurnDecider = new MajorityTurnDecider()) {}
+
+  tallyVotes(votes: Record<string, number>, validCols: number[], columnCount?: number): number[] {
+    return this.tieBreaker.tallyVotes(votes, validCols, columnCount);
+  }
+
+  decideColumn(perColumnCounts: number[], validCols: number[] = perColumnCounts.map((_, col) => col)): number {
+    return this.decideTurn(perColumnCounts, validCols, { votes: {} }).column;
+  }
+
+  decideTurn(perColumnCounts: number[], validCols: number[], context: TurnContext): TurnDecision {
+    const ballots = this.collectBallots(context, validCols);
+    let remaining = validCols.filter(col => ballots.some(ballot => ballot.includes(col)));
+
+    // Nobody ranked a playable column
+    if (remaining.length === 0) {
+      return this.tieBreaker.decideTurn(perColumnCounts, validCols, context);
+    }
+
+    for (;;) {
+      const roundCounts = perColumnCounts.map(() => 0);
+      let activeBallots = 0;
+      for (const ballot of ballots) {
+        const choice = ballot.find(col => remaining.includes(col));
+        if (choice !== undefined) {
+          roundCounts[choice] = (roundCounts[choice] ?? 0) + 1;
+          activeBallots++;
+        }
+      }
+
+      const counts = remaining.map(col => roundCounts[col] ?? 0);
+      const most = Math.max(...counts);
+      const fewest = Math.min(...counts);
+
+      // A strict majority of the ballots still in play wins outright
+      if (most * 2 > activeBallots) {
+        return { column: remaining[counts.indexOf(most)]!, tieBreak: 'none' };
+      }
+
+      // Every remaining column is level, so nothing can be eliminated
+      if (most === fewest) {
+        return this.tieBreaker.decideTurn(roundCounts, remaining, context);
+      }
+
+      remaining = remaining.filter(col => (roundCounts[col] ?? 0) > fewest);
+    }
+  }
+
+  // Each voter's ranking restricted to playable columns; plain votes count as a one-column ballot
+  private collectBallots(context: TurnContext, validCols: number[]): number[][] {
+    return Object.entries(context.votes).map(([playerId, column]) => {
+      const ranking = context.ballots?.[playerId] ?? [column];
+      return ranking.filter(col => validCols.includes(col));
+    });
+  }
+}
@@ -0,0 +1,22 @@
+// Runs the commands for one room one at a time, in the order they arrive; different rooms don't
+// wait for each other. A failing command rejects its own caller and doesn't block the ones behind it.
+export class RoomCommandQueue {
+  private tails = new Map<string, Promise<void>>();
+
+  run<T>(roomCode: string, command: () => Promise<T>): Promise<T> {
+    // An idle room starts the command right away rather than on a later tick
+    const previous = this.tails.get(roomCode);
+    const result = previous ? previous.then(command) : command();
+    const tail = result.then(() => undefined, () => undefined);
+    this.tails.set(roomCode, tail);
+
+    // Forget idle rooms so the map doesn't grow with every room ever played
+    tail.then(() => {
+      if (this.tails.get(roomCode) === tail) {
+        this.tails.delete(roomCode);
+      }
+    });
+
+    return result;
+  }
+}
@@ -1,18 +1,50 @@
 import type { 
   Room, 
+  RoomSettings,
   Player, 
   Team,
+  BoardCell,
+  SeriesState,
+  Spectator,
+  GameState,
+  BoardConfig,
+  BotDifficulty,
+  BotSettings,
+  VotingMode,
+  GameVariant,
+  TimeControl,
+  ITurnDecider,
   IRoomStore, 
   IAccessControl, 
   IClock,
-  IGameEngine
+  IGameEngine,
+  ISessionTokens
 } from '../types';
+import { DEFAULT_TEAMS, HIDDEN_VOTE, MOVE_KINDS, POWER_UP_INVENTORY, TEAMS } from '../types';
 import { TurnManager } from './TurnManager';
+import type { TurnResult } from './TurnManager';
+import { RoomCommandQueue } from './RoomCommandQueue';
+import { DEFAULT_BOARD_CONFIG } from '../engine/GameEngine';
+import { MinimaxAI, BOT_DIFFICULTIES } from '../engine/MinimaxAI';
+import { RankedChoiceTurnDecider } from './RankedChoiceTurnDecider';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash, timingSafeEqual } from 'crypto';
 
 export interface CreateRoomRequest {
   password?: string;
   timerSec?: number;
+  rows?: number;
+  cols?: number;
+  winLength?: number;
+  votingMode?: VotingMode;
+  variant?: GameVariant;
+  fogOfWar?: boolean;
+  wrapAround?: boolean;
+  teams?: Team[];
+  seriesTarget?: number;
+  timeControl?: TimeControl;
+  hostJoinsLater?: boolean;  // nobody is admin until someone presents the admin token
+  vanityCode?: string;       // custom room code chosen by the host, e.g. FRIDAYFUN
 }
 
 export interface CreateRoomResponse {
@@ -24,46 +56,151 @@ export interface JoinRoomRequest {
   roomCode: string;
   nickname: string;
   password?: string;
+  adminToken?: string;  // from createRoom; makes the joining player the admin
 }
 
 export interface JoinRoomResponse {
   room: Room;
   player: Player;
+  resumeToken: string;
 }
 
+export interface SpectateRoomResponse {
+  room: Room;
+  spectator: Spectator;
+  resumeToken: string;
+}
+
+// Settings the admin may change from the lobby; omitted fields keep their current value
+export interface UpdateSettingsRequest {
+  timerSec?: number;
+  maxPlayers?: number;
+  startingTeam?: Team;
+  rows?: number;
+  cols?: number;
+  winLength?: number;
+  votingMode?: VotingMode;
+  variant?: GameVariant;
+  fogOfWar?: boolean;
+  wrapAround?: boolean;
+  teams?: Team[];
+  seriesTarget?: number;
+  timeControl?: TimeControl | null;  // null goes back to the per-turn timer
+}
+
+export interface AddBotRequest {
+  team?: Team;
+  difficulty?: BotDifficulty | BotSettings;
+}
+
+// Supported board geometry for room settings
+export const BOARD_LIMITS = {
+  minRows: 4,
+  maxRows: 12,
+  minCols: 4,
+  maxCols: 14,
+  minWinLength: 3,
+  maxWinLength: 6,
+};
+
+// Supported number of teams in a room
+export const TEAM_LIMITS = {
+  minTeams: 2,
+  maxTeams: TEAMS.length,
+};
+
+// Supported range for first-to-N series
+export const SERIES_LIMITS = {
+  minTarget: 1,
+  maxTarget: 5,
+};
+
+// Supported ranges for the remaining room settings
+export const SETTINGS_LIMITS = {
+  minTimerSec: 5,
+  maxTimerSec: 120,
+  minPlayers: 2,
+  maxPlayers: 10,
+};
+
+// Supported ranges for chess-clock time banks
+export const TIME_CONTROL_LIMITS = {
+  minBankSec: 30,
+  maxBankSec: 3600,
+  minIncrementSec: 0,
+  maxIncrementSec: 60,
+};
+
+// Random codes drawn before room creation gives up
+export const MAX_ROOM_CODE_ATTEMPTS = 10;
+
+// Supported range for custom bot search depth
+export const BOT_LIMITS = {
+  minDepth: 1,
+  maxDepth: 6,
+};
 
 
 export class RoomService {
   private turnManagers = new Map<string, TurnManager>();
+  private pendingRemovals = new Map<string, NodeJS.Timeout>(); // `${roomCode}:${playerId}` -> grace timer
+  private commands = new RoomCommandQueue();
 
   constructor(
     private roomStore: IRoomStore,
     private accessControl: IAccessControl,
     private gameEngine: IGameEngine,
     private turnDecider: any,
-    private clock: IClock
+    private clock: IClock,
+    private sessionTokens: ISessionTokens
   ) {}
 
   async createRoom(request: CreateRoomRequest): Promise<CreateRoomResponse> {
-    const roomCode = this.accessControl.generateRoomCode();
+    const settings: RoomSettings = {
+      timerSec: request.timerSec || 15,
+      maxPlayers: SETTINGS_LIMITS.maxPlayers,
+      votingMode: request.votingMode ?? 'plurality',
+      variant: request.variant ?? 'classic',
+      fogOfWar: request.fogOfWar ?? false,
+      wrapAround: request.wrapAround ?? false,
+      teams: request.teams,
+      seriesTarget: request.seriesTarget ?? SERIES_LIMITS.minTarget,
+      startingTeam: request.teams?.[0] ?? 'red',
+      timeControl: request.timeControl,
+      ...this.resolveBoardConfig(request)
+    };
+    this.validateSettings(settings);
+    const passwordHash = request.password ? await this.accessControl.hashPassword(request.password) : undefined;
+    const roomCode = await this.allocateRoomCode(request.vanityCode);
     const adminToken = uuidv4();
     
     const room: Room = {
       code: roomCode,
-      passwordHash: request.password ? await this.accessControl.hashPassword(request.password) : undefined,
+      passwordHash,
+      adminTokenHash: this.hashAdminToken(adminToken),
       players: [],
+      bans: [],
       state: 'lobby',
-      settings: {
-        timerSec: request.timerSec || 15,
-        maxPlayers: 10
-      },
+      settings,
+      series: this.createSeries(settings),
       createdAt: this.clock.now()
     };
+    if (request.hostJoinsLater) {
+      room.awaitingHost = true;
+    }
 
-    await this.roomStore.createRoom(room);
+    try {
+      await this.roomStore.createRoom(room);
+    } catch (error) {
+      // Another room took the code between the check above and now
+      if (await this.roomStore.getRoom(roomCode)) {
+        throw new RoomServiceError('ROOM_CODE_TAKEN', 'That room code is already in use');
+      }
+      throw error;
+    }
     
     // Create turn manager for this room
-    this.turnManagers.set(roomCode, new TurnManager(this.gameEngine, this.turnDecider, this.clock));
+    this.turnManagers.set(roomCode, new TurnManager(this.gameEngine, this.createTurnDecider(settings.votingMode), this.clock));
 
     return { roomCode, adminToken };
   }
@@ -74,34 +211,25 @@ export class RoomService {
       throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
     }
 
-    // Validate password if required
-    if (room.passwordHash && !request.password) {
-      throw new RoomServiceError('PASSWORD_REQUIRED', 'Room requires a password');
-    }
+    const sanitizedNickname = await this.admitToRoom(room, playerId, request);
+    const claimsAdmin = this.presentsAdminToken(room, request.adminToken);
 
-    if (room.passwordHash && request.password) {
-      const validPassword = await this.accessControl.validatePassword(request.password, room.passwordHash);
-      if (!validPassword) {
-        throw new RoomServiceError('INVALID_PASSWORD', 'Invalid password');
-      }
-    }
-
-    // Validate nickname
-    const nicknameValidation = this.accessControl.validateNickname(request.nickname);
-    if (!nicknameValidation.valid) {
-      throw new RoomServiceError('INVALID_NICKNAME', nicknameValidation.error!);
+    // Check if nickname is already taken
+    if (this.findSpectatorByNickname(room, sanitizedNickname)) {
+      throw new RoomServiceError('NICKNAME_TAKEN', 'Nickname already taken');
     }
 
-    const sanitizedNickname = this.accessControl.sanitizeNickname(request.nickname);
-
-    // Check if nickname is already taken
     const existingPlayer = room.players.find(p => p.nickname.toLowerCase() === sanitizedNickname.toLowerCase());
     if (existingPlayer) {
       // If it's the same player reconnecting, allow it
       if (existingPlayer.id === playerId) {
         existingPlayer.connected = true;
-        await this.roomStore.updateRoom(room.code, room);
-        return { room: this.sanitizeRoomForClient(room), player: existingPlayer };
+        this.cancelPendingRemoval(room.code, playerId);
+        if (claimsAdmin) {
+          this.grantAdmin(room, existingPlayer);
+        }
+        await this.saveRoom(room);
+        return this.buildJoinResponse(room, existingPlayer);
       } else {
         throw new RoomServiceError('NICKNAME_TAKEN', 'Nickname already taken');
       }
@@ -113,24 +241,95 @@ export class RoomService {
     }
 
     // Auto-assign team (balance teams)
-    const redCount = room.players.filter(p => p.team === 'red').length;
-    const yellowCount = room.players.filter(p => p.team === 'yellow').length;
-    const team: Team = redCount <= yellowCount ? 'red' : 'yellow';
+    const team = this.pickBalancedTeam(room.players, this.getTeams(room.settings));
 
     // Create new player
     const player: Player = {
       id: playerId,
       nickname: sanitizedNickname,
       team,
-      isAdmin: room.players.length === 0, // First player is admin
+      isAdmin: room.players.length === 0 && !room.awaitingHost, // First player is admin unless the host is expected
       matchingVotes: 0,
       connected: true
     };
 
     room.players.push(player);
-    await this.roomStore.updateRoom(room.code, room);
+    if (claimsAdmin) {
+      this.grantAdmin(room, player);
+    }
+    await this.saveRoom(room);
+
+    return this.buildJoinResponse(room, player);
+  }
+
+  // Watch a room without joining a team; spectators don't count towards maxPlayers
+  async spectateRoom(spectatorId: string, request: JoinRoomRequest): Promise<SpectateRoomResponse> {
+    const room = await this.roomStore.getRoom(request.roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const sanitizedNickname = await this.admitToRoom(room, spectatorId, request);
+
+    if (room.players.some(p => p.nickname.toLowerCase() === sanitizedNickname.toLowerCase())) {
+      throw new RoomServiceError('NICKNAME_TAKEN', 'Nickname already taken');
+    }
+
+    const existingSpectator = this.findSpectatorByNickname(room, sanitizedNickname);
+    if (existingSpectator && existingSpectator.id !== spectatorId) {
+      throw new RoomServiceError('NICKNAME_TAKEN', 'Nickname already taken');
+    }
+
+    const spectator = existingSpectator ?? { id: spectatorId, nickname: sanitizedNickname, connected: true };
+    if (existingSpectator) {
+      existingSpectator.connected = true;
+      this.cancelPendingRemoval(room.code, spectatorId);
+    } else {
+      room.spectators = [...(room.spectators ?? []), spectator];
+    }
+    await this.saveRoom(room);
+
+    return this.buildSpectateResponse(room, spectator);
+  }
+
+  // Rebind a reconnecting client to the player (or spectator) its resume token was issued for.
+  // A matching admin token hands admin back to a returning host; one for another room is ignored.
+  async resumeSession(resumeToken: string, adminToken?: string): Promise<JoinRoomResponse | SpectateRoomResponse> {
+    const claims = this.sessionTokens.verify(resumeToken);
+    if (!claims) {
+      throw new RoomServiceError('INVALID_TOKEN', 'Invalid resume token');
+    }
+
+    const room = await this.roomStore.getRoom(claims.roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
 
-    return { room: this.sanitizeRoomForClient(room), player };
+    if ((room.bans ?? []).some(ban => ban.playerId === claims.playerId)) {
+      throw new RoomServiceError('PLAYER_BANNED', 'You have been removed from this room');
+    }
+
+    const player = room.players.find(p => p.id === claims.playerId);
+    if (!player) {
+      const spectator = room.spectators?.find(s => s.id === claims.playerId);
+      if (!spectator) {
+        throw new RoomServiceError('SESSION_EXPIRED', 'Your seat in this room has expired');
+      }
+
+      spectator.connected = true;
+      this.cancelPendingRemoval(room.code, spectator.id);
+      await this.saveRoom(room);
+      return this.buildSpectateResponse(room, spectator);
+    }
+
+    player.connected = true;
+    this.cancelPendingRemoval(room.code, player.id);
+    if (adminToken && this.matchesAdminToken(room, adminToken)) {
+      this.grantAdmin(room, player);
+    }
+    await this.saveRoom(room);
+
+    return this.buildJoinResponse(room, player);
   }
 
   async leaveRoom(playerId: string, roomCode: string): Promise<void> {
@@ -141,26 +340,50 @@ export class RoomService {
 
     const playerIndex = room.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
+      // Spectators get the same grace period so a refresh keeps them watching
+      const spectator = room.spectators?.find(s => s.id === playerId);
+      if (spectator) {
+        spectator.connected = false;
+        await this.saveRoom(room);
+        this.scheduleRemoval(roomCode, playerId);
+      }
       return; // Player not in room
     }
 
     // Mark player as disconnected (grace period)
-    room.players[playerIndex]!.connected = false;
+    const leavingPlayer = room.players[playerIndex]!;
+    leavingPlayer.connected = false;
 
     // If this was the admin and there are other players, promote the next player
-    if (room.players[playerIndex]!.isAdmin && room.players.length > 1) {
-      const nextAdmin = room.players.find(p => p.id !== playerId && p.connected);
+    if (leavingPlayer.isAdmin && room.players.length > 1) {
+      const nextAdmin = room.players.find(p => p.id !== playerId && p.connected && !p.bot);
       if (nextAdmin) {
         nextAdmin.isAdmin = true;
+        leavingPlayer.isAdmin = false;
       }
     }
 
-    await this.roomStore.updateRoom(room.code, room);
+    await this.saveRoom(room);
+
+    this.scheduleRemoval(roomCode, playerId);
+  }
 
-    // Schedule removal after grace period (60 seconds)
-    this.clock.setTimeout(async () => {
-      await this.removeDisconnectedPlayer(roomCode, playerId);
-    }, 60000);
+  // Schedule removal after grace period (60 seconds)
+  private scheduleRemoval(roomCode: string, playerId: string): void {
+    this.cancelPendingRemoval(roomCode, playerId);
+    this.pendingRemovals.set(`${roomCode}:${playerId}`, this.clock.setTimeout(async () => {
+      this.pendingRemovals.delete(`${roomCode}:${playerId}`);
+      await this.runCommand(roomCode, () => this.removeDisconnectedPlayer(roomCode, playerId));
+    }, 60000));
+  }
+
+  private cancelPendingRemoval(roomCode: string, playerId: string): void {
+    const key = `${roomCode}:${playerId}`;
+    const timeout = this.pendingRemovals.get(key);
+    if (timeout) {
+      this.clock.clearTimeout(timeout);
+      this.pendingRemovals.delete(key);
+    }
   }
 
   private async removeDisconnectedPlayer(roomCode: string, playerId: string): Promise<void> {
@@ -169,6 +392,15 @@ export class RoomService {
       return;
     }
 
+    const spectator = room.spectators?.find(s => s.id === playerId);
+    if (spectator) {
+      if (!spectator.connected) {
+        room.spectators = room.spectators!.filter(s => s.id !== playerId);
+        await this.saveRoom(room);
+      }
+      return;
+    }
+
     const player = room.players.find(p => p.id === playerId);
     if (!player || player.connected) {
       return; // Player reconnected or already removed
@@ -177,14 +409,13 @@ export class RoomService {
     // Remove the player
     room.players = room.players.filter(p => p.id !== playerId);
 
-    // If no players left, delete the room
-    if (room.players.length === 0) {
-      await this.roomStore.deleteRoom(roomCode);
-      this.turnManagers.delete(roomCode);
+    // If no human players left, delete the room
+    if (room.players.every(p => p.bot)) {
+      await this.closeRoom(roomCode);
       return;
     }
 
-    await this.roomStore.updateRoom(room.code, room);
+    await this.saveRoom(room);
   }
 
   async startGame(roomCode: string, adminPlayerId: string): Promise<void> {
@@ -202,19 +433,124 @@ export class RoomService {
       throw new RoomServiceError('INVALID_STATE', 'Game is not in lobby state');
     }
 
-    if (room.players.length < 2) {
-      throw new RoomServiceError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players to start');
-    }
+    const teams = this.getTeams(room.settings);
+    this.ensureEveryTeamHasPlayers(room);
 
     // Initialize game state
-    room.game = this.gameEngine.newGame();
+    const { rows, cols, winLength } = room.settings;
+    room.game = this.gameEngine.newGame({ rows, cols, winLength });
+    room.game.teams = [...teams];
+    // Teams take turns opening the games of a series, starting with the configured team
+    const series = room.series ??= this.createSeries(room.settings);
+    const opener = Math.max(0, teams.indexOf(room.settings.startingTeam));
+    room.game.currentTeam = teams[(opener + series.gamesPlayed) % teams.length]!;
+    if (room.settings.variant && room.settings.variant !== 'classic') {
+      room.game.variant = room.settings.variant;
+    }
+    if (room.settings.wrapAround) {
+      room.game.wrapAround = true;
+    }
+    if (room.settings.variant === 'powerups') {
+      room.game.powerUps = Object.fromEntries(teams.map(team => [team, { ...POWER_UP_INVENTORY }]));
+    }
+    const timeControl = room.settings.timeControl;
+    if (timeControl) {
+      const bankMs = timeControl.bankSec * 1000;
+      room.game.clocks = {
+        remainingMs: Object.fromEntries(teams.map(team => [team, bankMs])),
+        incrementMs: timeControl.incrementSec * 1000
+      };
+    }
     room.state = 'active';
 
-    await this.roomStore.updateRoom(room.code, room);
+    await this.saveRoom(room);
+  }
+
+  // Admin-only lobby edit of the room settings; everything is validated before anything changes
+  async updateSettings(roomCode: string, adminPlayerId: string, changes: UpdateSettingsRequest): Promise<RoomSettings> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can change settings');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Settings can only change in the lobby');
+    }
+
+    const current = room.settings;
+    const settings: RoomSettings = {
+      timerSec: changes.timerSec ?? current.timerSec,
+      maxPlayers: changes.maxPlayers ?? current.maxPlayers,
+      startingTeam: changes.startingTeam ?? current.startingTeam ?? 'red',
+      rows: changes.rows ?? current.rows,
+      cols: changes.cols ?? current.cols,
+      winLength: changes.winLength ?? current.winLength,
+      votingMode: changes.votingMode ?? current.votingMode,
+      variant: changes.variant ?? current.variant ?? 'classic',
+      fogOfWar: changes.fogOfWar ?? current.fogOfWar ?? false,
+      wrapAround: changes.wrapAround ?? current.wrapAround ?? false,
+      teams: changes.teams ?? current.teams,
+      seriesTarget: changes.seriesTarget ?? current.seriesTarget,
+      timeControl: changes.timeControl === null ? undefined : changes.timeControl ?? current.timeControl
+    };
+    // A starting team that is no longer playing hands over to the first team
+    if (changes.startingTeam === undefined && settings.teams && !settings.teams.includes(settings.startingTeam)) {
+      settings.startingTeam = settings.teams[0]!;
+    }
+    this.validateSettings(settings);
+
+    if (settings.maxPlayers < room.players.length) {
+      throw new RoomServiceError('INVALID_SETTINGS', `The room already has ${room.players.length} players`);
+    }
+
+    // The turn decider depends on the voting mode
+    if (settings.votingMode !== current.votingMode) {
+      this.turnManagers.set(room.code, new TurnManager(this.gameEngine, this.createTurnDecider(settings.votingMode), this.clock));
+    }
+
+    // A different target or different teams make the running score meaningless
+    const teams = this.getTeams(settings);
+    if (settings.seriesTarget !== current.seriesTarget || teams.join() !== this.getTeams(current).join()) {
+      room.series = this.createSeries(settings);
+    }
+
+    // Players on a team that was dropped join the smallest remaining one
+    for (const player of room.players.filter(p => !teams.includes(p.team))) {
+      player.team = this.pickBalancedTeam(room.players.filter(p => teams.includes(p.team)), teams);
+    }
+
+    room.settings = settings;
+    await this.saveRoom(room);
+
+    return settings;
   }
 
   async updateRoomState(roomCode: string, room: Room): Promise<void> {
-    await this.roomStore.updateRoom(roomCode, room);
+    // Rooms handed out by getRoom have server-only fields stripped; keep the stored ones
+    const stored = await this.roomStore.getRoom(roomCode);
+    await this.roomStore.updateRoom(roomCode, {
+      ...room,
+      lastActivityAt: this.clock.now(),
+      passwordHash: stored?.passwordHash,
+      adminTokenHash: stored?.adminTokenHash,
+      bans: stored?.bans
+    });
+  }
+
+  private ensureEveryTeamHasPlayers(room: Room): void {
+    const teams = this.getTeams(room.settings);
+    if (room.players.length < teams.length) {
+      throw new RoomServiceError('NOT_ENOUGH_PLAYERS', `Need at least ${teams.length} players to start`);
+    }
+    const emptyTeam = teams.find(team => !room.players.some(p => p.team === team));
+    if (emptyTeam) {
+      throw new RoomServiceError('NOT_ENOUGH_PLAYERS', `Team ${emptyTeam} needs at least one player to start`);
+    }
   }
 
   async startRematch(roomCode: string, adminPlayerId: string): Promise<void> {
@@ -232,9 +568,8 @@ export class RoomService {
       throw new RoomServiceError('INVALID_STATE', 'Can only rematch after game has ended');
     }
 
-    if (room.players.length < 2) {
-      throw new RoomServiceError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players to start');
-    }
+    // Checked before the room is reset, so a failed rematch leaves the ended game in place
+    this.ensureEveryTeamHasPlayers(room);
 
     // Reset room to lobby state
     room.state = 'lobby';
@@ -243,13 +578,303 @@ export class RoomService {
     // Reset player stats
     room.players.forEach(p => p.matchingVotes = 0);
 
-    await this.roomStore.updateRoom(room.code, room);
+    // A decided series starts over; otherwise the score carries into the next game
+    if (room.series?.winner) {
+      room.series = this.createSeries(room.settings);
+    }
+
+    await this.saveRoom(room);
 
     // Now start the new game
     await this.startGame(roomCode, adminPlayerId);
   }
 
-  async castVote(roomCode: string, playerId: string, column: number): Promise<void> {
+  // Mark the room's game as over and count its result towards the series
+  async recordGameEnd(roomCode: string): Promise<SeriesState> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    if (room.state !== 'active' || !room.game?.result) {
+      throw new RoomServiceError('INVALID_STATE', 'Game has not finished');
+    }
+
+    const series = room.series ??= this.createSeries(room.settings);
+    series.gamesPlayed++;
+    const winner = room.game.result.winner;
+    if (winner) {
+      const wins = series.wins[winner] = (series.wins[winner] ?? 0) + 1;
+      if (wins >= room.settings.seriesTarget) {
+        series.winner = winner;
+      }
+    }
+    room.state = 'ended';
+
+    await this.saveRoom(room);
+    return series;
+  }
+
+  async kickPlayer(roomCode: string, adminPlayerId: string, nickname: string): Promise<Player> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can kick players');
+    }
+
+    const target = room.players.find(p => p.nickname.toLowerCase() === nickname.trim().toLowerCase());
+    if (!target) {
+      throw new RoomServiceError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    if (target.id === admin.id) {
+      throw new RoomServiceError('INVALID_TARGET', 'Admin cannot kick themselves');
+    }
+
+    // A team without players would have its turns resolved with no votes for the rest of the game
+    if (room.state === 'active' && !room.players.some(p => p.id !== target.id && p.team === target.team)) {
+      throw new RoomServiceError('INVALID_TARGET', 'Cannot kick the last player of a team during a game');
+    }
+
+    // Remove the player along with any pending vote
+    room.players = room.players.filter(p => p.id !== target.id);
+    if (room.game) {
+      delete room.game.votes[target.id];
+    }
+
+    room.bans = [...(room.bans ?? []), { nickname: target.nickname, playerId: target.id }];
+
+    await this.saveRoom(room);
+
+    return target;
+  }
+
+  async addBot(roomCode: string, adminPlayerId: string, request: AddBotRequest = {}): Promise<Player> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can add computer players');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Computer players can only be added in the lobby');
+    }
+
+    if (room.players.length >= room.settings.maxPlayers) {
+      throw new RoomServiceError('ROOM_FULL', 'Room is full');
+    }
+
+    const teams = this.getTeams(room.settings);
+    if (request.team !== undefined && !teams.includes(request.team)) {
+      throw new RoomServiceError('INVALID_TEAM', `Unknown team: ${request.team}`);
+    }
+
+    const team = request.team ?? this.pickBalancedTeam(room.players, teams);
+    const bot = this.createBot(room, team, this.resolveBotSettings(request.difficulty));
+    room.players.push(bot);
+    await this.saveRoom(room);
+
+    return bot;
+  }
+
+  // "Whole office vs the computer": every human plays on the first team against one AI per other team
+  async setupVsComputer(roomCode: string, adminPlayerId: string, difficulty?: BotDifficulty | BotSettings): Promise<Room> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can set up a game against the computer');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Game is not in lobby state');
+    }
+
+    const settings = this.resolveBotSettings(difficulty);
+    const humans = room.players.filter(p => !p.bot);
+    const [humanTeam, ...botTeams] = this.getTeams(room.settings);
+    if (humans.length + botTeams.length > room.settings.maxPlayers) {
+      throw new RoomServiceError('ROOM_FULL', 'Room is full');
+    }
+
+    room.players = humans;
+    room.players.forEach(p => p.team = humanTeam!);
+    for (const team of botTeams) {
+      room.players.push(this.createBot(room, team, settings));
+    }
+
+    await this.saveRoom(room);
+
+    return this.sanitizeRoomForClient(room);
+  }
+
+  // Move yourself to the next team while in the lobby
+  async switchTeam(roomCode: string, playerId: string): Promise<Player> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const player = room.players.find(p => p.id === playerId);
+    if (!player) {
+      throw new RoomServiceError('PLAYER_NOT_FOUND', 'Player not found in room');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Teams can only change in the lobby');
+    }
+
+    if (room.teamsLocked && !player.isAdmin) {
+      throw new RoomServiceError('TEAMS_LOCKED', 'The admin has locked the teams');
+    }
+
+    player.team = this.gameEngine.nextTeam(player.team, this.getTeams(room.settings));
+    await this.saveRoom(room);
+
+    return player;
+  }
+
+  // Admin-only: put a player (or bot) on a specific team
+  async movePlayer(roomCode: string, adminPlayerId: string, nickname: string, team: Team): Promise<Player> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can move players');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Teams can only change in the lobby');
+    }
+
+    if (!this.getTeams(room.settings).includes(team)) {
+      throw new RoomServiceError('INVALID_TEAM', `Unknown team: ${team}`);
+    }
+
+    const target = room.players.find(p => p.nickname.toLowerCase() === nickname.trim().toLowerCase());
+    if (!target) {
+      throw new RoomServiceError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    target.team = team;
+    await this.saveRoom(room);
+
+    return target;
+  }
+
+  // Admin-only: deal everyone into random teams whose sizes differ by at most one
+  async shuffleTeams(roomCode: string, adminPlayerId: string): Promise<Room> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can shuffle teams');
+    }
+
+    if (room.state !== 'lobby') {
+      throw new RoomServiceError('INVALID_STATE', 'Teams can only change in the lobby');
+    }
+
+    const shuffled = [...room.players];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+    }
+    // Uneven headcounts give the extra players to teams at random
+    const teams = this.getTeams(room.settings);
+    const offset = Math.floor(Math.random() * teams.length);
+    shuffled.forEach((player, index) => {
+      player.team = teams[(index + offset) % teams.length]!;
+    });
+
+    await this.saveRoom(room);
+
+    return this.sanitizeRoomForClient(room);
+  }
+
+  // Admin-only: stop (or allow again) players switching teams themselves
+  async setTeamsLocked(roomCode: string, adminPlayerId: string, locked: boolean): Promise<void> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', 'Only admin can lock teams');
+    }
+
+    room.teamsLocked = locked;
+    await this.saveRoom(room);
+  }
+
+  // Admin-only: stop the clock mid-turn, e.g. when the meeting gets interrupted
+  async pauseGame(roomCode: string, adminPlayerId: string): Promise<void> {
+    const { room, turnManager } = await this.getActiveGameForAdmin(roomCode, adminPlayerId, 'pause');
+    if (!turnManager.pause(room.game!)) {
+      throw new RoomServiceError('INVALID_STATE', 'Game is already paused');
+    }
+    await this.saveRoom(room);
+  }
+
+  // Admin-only: reopen the paused vote with the time it had left
+  async resumeGame(roomCode: string, adminPlayerId: string): Promise<void> {
+    const { room, turnManager } = await this.getActiveGameForAdmin(roomCode, adminPlayerId, 'resume');
+    if (!turnManager.resume(room.game!)) {
+      throw new RoomServiceError('INVALID_STATE', 'Game is not paused');
+    }
+    await this.saveRoom(room);
+  }
+
+  // Have every bot on the voting team cast its vote; returns whether any vote was cast
+  async castBotVotes(roomCode: string): Promise<boolean> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room || room.state !== 'active' || !room.game || !room.game.endsAt) {
+      return false;
+    }
+
+    const turnManager = this.turnManagers.get(roomCode);
+    if (!turnManager) {
+      return false;
+    }
+
+    const game = room.game;
+    const bots = room.players.filter(p => p.bot && p.team === game.currentTeam && game.votes[p.id] === undefined);
+    let voted = false;
+    for (const bot of bots) {
+      const move = this.chooseComputerMove(room, bot.bot!, turnManager);
+      if (move !== undefined) {
+        voted = turnManager.castVote(game, room.players, bot.id, move).success || voted;
+      }
+    }
+
+    if (voted) {
+      await this.saveRoom(room);
+    }
+
+    return voted;
+  }
+
+  // A single column, or a ranked list of columns in ranked-choice rooms. A vote sent for a round
+  // other than the open one (e.g. it arrived after the deadline) is rejected.
+  async castVote(roomCode: string, playerId: string, vote: number | number[], round?: number): Promise<void> {
     const room = await this.roomStore.getRoom(roomCode);
     if (!room) {
       throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
@@ -259,17 +884,31 @@ export class RoomService {
       throw new RoomServiceError('INVALID_STATE', 'Game is not active');
     }
 
+    if (room.game.pausedRemainingMs !== undefined) {
+      throw new RoomServiceError('GAME_PAUSED', 'The game is paused');
+    }
+
+    if (room.game.endsAt === undefined || (round !== undefined && round !== room.game.round)) {
+      throw new RoomServiceError('ROUND_OVER', 'Voting for that turn has closed');
+    }
+
     const turnManager = this.turnManagers.get(roomCode);
     if (!turnManager) {
       throw new RoomServiceError('INTERNAL_ERROR', 'Turn manager not found');
     }
 
-    const result = turnManager.castVote(room.game, room.players, playerId, column);
+    if (Array.isArray(vote) && room.settings.votingMode !== 'ranked') {
+      throw new RoomServiceError('VOTE_REJECTED', 'Ranked ballots are only accepted in ranked-choice rooms');
+    }
+
+    const result = Array.isArray(vote)
+      ? turnManager.castBallot(room.game, room.players, playerId, vote)
+      : turnManager.castVote(room.game, room.players, playerId, vote);
     if (!result.success) {
       throw new RoomServiceError('VOTE_REJECTED', result.error!);
     }
 
-    await this.roomStore.updateRoom(room.code, room);
+    await this.saveRoom(room);
   }
 
   async getRoom(roomCode: string): Promise<Room | null> {
@@ -277,16 +916,486 @@ export class RoomService {
     return room ? this.sanitizeRoomForClient(room) : null;
   }
 
+  // Room as a particular player (or an anonymous viewer) is allowed to see it
+  async getRoomForViewer(roomCode: string, viewerId?: string): Promise<Room | null> {
+    const room = await this.roomStore.getRoom(roomCode);
+    return room ? this.redactRoomForViewer(this.sanitizeRoomForClient(room), viewerId) : null;
+  }
+
+  // Resolve a resume token presented outside the socket (e.g. over HTTP) to a player id in this room
+  identifyViewer(roomCode: string, resumeToken?: string): string | undefined {
+    if (!resumeToken) {
+      return undefined;
+    }
+    const claims = this.sessionTokens.verify(resumeToken);
+    return claims && claims.roomCode === roomCode ? claims.playerId : undefined;
+  }
+
+  // The room a resume token was issued for, so resuming can wait its turn in that room's queue
+  sessionRoomCode(resumeToken: string): string | undefined {
+    return this.sessionTokens.verify(resumeToken)?.roomCode;
+  }
+
+  // Hide in-progress votes and team chat from everyone outside the player's team.
+  // Opponents and spectators still see who has voted, but not which column.
+  // Under fog of war the board is also cut down to what the viewer's team can see.
+  redactRoomForViewer(room: Room, viewerId?: string): Room {
+    const viewerTeam = room.players.find(p => p.id === viewerId)?.team;
+    if (room.chat) {
+      room = { ...room, chat: room.chat.filter(m => m.channel === 'room' || (viewerTeam !== undefined && m.team === viewerTeam)) };
+    }
+
+    if (!room.game) {
+      return room;
+    }
+
+    const votes: Record<string, number> = {};
+    for (const [playerId, column] of Object.entries(room.game.votes)) {
+      const voterTeam = room.players.find(p => p.id === playerId)?.team;
+      votes[playerId] = viewerTeam !== undefined && voterTeam === viewerTeam ? column : HIDDEN_VOTE;
+    }
+
+    const game: GameState = { ...room.game, votes };
+    if (room.game.ballots) {
+      game.ballots = Object.fromEntries(Object.entries(room.game.ballots).filter(([playerId]) =>
+        viewerTeam !== undefined && room.players.find(p => p.id === playerId)?.team === viewerTeam
+      ));
+    }
+
+    const perColumnCounts = viewerTeam === room.game.currentTeam
+      ? room.game.perColumnCounts
+      : room.game.perColumnCounts.map(() => 0);
+
+    return { ...room, game: { ...game, perColumnCounts, board: this.visibleBoard(room, viewerId) } };
+  }
+
+  // The board a viewer may see. Under fog of war a team sees the squares around its own pieces and
+  // each team's latest move; spectators only the latest moves. Finished games show the whole board.
+  visibleBoard(room: Room, viewerId?: string): BoardCell[][] {
+    if (!room.game) {
+      return [];
+    }
+    if (!room.settings.fogOfWar || room.state !== 'active') {
+      return room.game.board;
+    }
+
+    const viewerTeam = room.players.find(p => p.id === viewerId)?.team;
+    return this.gameEngine.fogView(room.game.board, viewerTeam, Object.values(room.game.lastMoves ?? {}), room.game.wrapAround);
+  }
+
+  // Rebuild per-room state after a restart. Every stored room gets a TurnManager again, and since
+  // no socket survives a restart, human players start their reconnection grace period.
+  // Returns the codes of rooms with a game in progress.
+  async restoreRooms(): Promise<string[]> {
+    const activeRoomCodes: string[] = [];
+
+    for (const room of await this.roomStore.listRooms()) {
+      this.turnManagers.set(room.code, new TurnManager(this.gameEngine, this.createTurnDecider(room.settings.votingMode), this.clock));
+
+      for (const visitor of [...room.players.filter(p => !p.bot), ...(room.spectators ?? [])]) {
+        visitor.connected = false;
+        this.scheduleRemoval(room.code, visitor.id);
+      }
+      await this.roomStore.updateRoom(room.code, room);
+
+      if (room.state === 'active' && room.game) {
+        activeRoomCodes.push(room.code);
+      }
+    }
+
+    return activeRoomCodes;
+  }
+
+  // Write the stored room back after its game state was changed in place (e.g. by its TurnManager)
+  async persistRoom(roomCode: string): Promise<void> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (room) {
+      await this.saveRoom(room);
+    }
+  }
+
+  // Run a room mutation once every earlier one for the same room has finished. Socket events,
+  // timers and the sweeper all go through here; commands must not queue further commands.
+  runCommand<T>(roomCode: string, command: () => Promise<T>): Promise<T> {
+    return this.commands.run(roomCode, command);
+  }
+
+  // Close the given round's vote and play the chosen column. Null when that round was already
+  // resolved, e.g. the deadline fired just after the last vote completed the team.
+  async resolveTurn(roomCode: string, round: number): Promise<TurnResult | null> {
+    const room = await this.roomStore.getRoom(roomCode);
+    const turnManager = this.turnManagers.get(roomCode);
+    if (!room || room.state !== 'active' || !room.game || !turnManager) {
+      return null;
+    }
+
+    if (room.game.round !== round || room.game.endsAt === undefined) {
+      return null;
+    }
+
+    let forcedColumn: number | undefined;
+    const timeControl = room.settings.timeControl;
+    if (!turnManager.stopClock(room.game) && timeControl) {
+      if (timeControl.onExpiry === 'lose') {
+        this.forfeitOnTime(room, turnManager);
+        await this.saveRoom(room);
+        return { moveApplied: false, gameEnded: true };
+      }
+      forcedColumn = this.pickExpiredTurnColumn(room, timeControl.onExpiry, turnManager);
+    }
+
+    const result = turnManager.finishVoting(room.game, room.players, forcedColumn);
+    await this.saveRoom(room);
+    return result;
+  }
+
+  // Delete a room along with its turn timer and any pending removals
+  async closeRoom(roomCode: string): Promise<void> {
+    this.turnManagers.get(roomCode)?.cancel();
+    this.turnManagers.delete(roomCode);
+    for (const [key, timeout] of this.pendingRemovals) {
+      if (key.startsWith(`${roomCode}:`)) {
+        this.clock.clearTimeout(timeout);
+        this.pendingRemovals.delete(key);
+      }
+    }
+    await this.roomStore.deleteRoom(roomCode);
+  }
+
   getTurnManager(roomCode: string): TurnManager | undefined {
     return this.turnManagers.get(roomCode);
   }
 
+  private async getActiveGameForAdmin(roomCode: string, adminPlayerId: string, action: string): Promise<{ room: Room; turnManager: TurnManager }> {
+    const room = await this.roomStore.getRoom(roomCode);
+    if (!room) {
+      throw new RoomServiceError('ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const admin = room.players.find(p => p.id === adminPlayerId);
+    if (!admin || !admin.isAdmin) {
+      throw new RoomServiceError('UNAUTHORIZED', `Only admin can ${action} the game`);
+    }
+
+    const turnManager = this.turnManagers.get(roomCode);
+    if (room.state !== 'active' || !room.game || !turnManager) {
+      throw new RoomServiceError('INVALID_STATE', 'Game is not active');
+    }
+
+    return { room, turnManager };
+  }
+
+  // Claim the host's vanity code, or draw random codes until one is free
+  private async allocateRoomCode(vanityCode?: string): Promise<string> {
+    // Request bodies arrive untyped
+    if (vanityCode != null && typeof vanityCode !== 'string') {
+      throw new RoomServiceError('INVALID_ROOM_CODE', 'Room codes are 6-12 letters or digits 2-9');
+    }
+    if (vanityCode) {
+      const code = vanityCode.trim().toUpperCase();
+      if (!this.accessControl.validateRoomCode(code)) {
+        throw new RoomServiceError('INVALID_ROOM_CODE', 'Room codes are 6-12 letters or digits 2-9');
+      }
+      if (await this.roomStore.getRoom(code)) {
+        throw new RoomServiceError('ROOM_CODE_TAKEN', 'That room code is already in use');
+      }
+      return code;
+    }
+
+    for (let attempt = 0; attempt < MAX_ROOM_CODE_ATTEMPTS; attempt++) {
+      const code = this.accessControl.generateRoomCode();
+      if (!(await this.roomStore.getRoom(code))) {
+        return code;
+      }
+    }
+    throw new RoomServiceError('ROOM_CODE_UNAVAILABLE', 'Could not find a free room code, please try again');
+  }
+
+  // Stamp the room as active and write it back
+  private async saveRoom(room: Room): Promise<void> {
+    room.lastActivityAt = this.clock.now();
+    await this.roomStore.updateRoom(room.code, room);
+  }
+
+  // The team whose bank ran out loses; its open vote is thrown away
+  private forfeitOnTime(room: Room, turnManager: TurnManager): void {
+    const game = room.game!;
+    turnManager.cancel();
+    delete game.endsAt;
+    game.votes = {};
+    delete game.ballots;
+    game.result = { winner: this.gameEngine.nextTeam(game.currentTeam, game.teams), outOfTime: game.currentTeam };
+  }
+
+  // Move played for a team out of time: any open column, or the medium bot's choice
+  private pickExpiredTurnColumn(room: Room, rule: 'random' | 'ai', turnManager: TurnManager): number | undefined {
+    const settings: BotSettings = rule === 'ai' ? BOT_DIFFICULTIES.medium : { depth: 1, randomness: 1 };
+    return this.chooseComputerMove(room, settings, turnManager);
+  }
+
+  // The search only drops pieces; when no column is open (a full PopOut board) any legal move is
+  // played instead, and with no legal move at all there is nothing to choose
+  private chooseComputerMove(room: Room, settings: BotSettings, turnManager: TurnManager): number | undefined {
+    const game = room.game!;
+    const validMoves = turnManager.getValidMoves(game);
+    const drops = validMoves.filter(move => this.gameEngine.isValidMove(game.board, move));
+    if (drops.length === 0) {
+      return validMoves[Math.floor(Math.random() * validMoves.length)];
+    }
+
+    // Under fog of war the search gets only what the team can see, guessing hidden squares are empty
+    const board = room.settings.fogOfWar
+      ? this.gameEngine.fogView(game.board, game.currentTeam, Object.values(game.lastMoves ?? {}), game.wrapAround)
+        .map(row => row.map(cell => cell === 'hidden' ? null : cell))
+      : game.board;
+    const column = new MinimaxAI(this.gameEngine, settings).chooseColumn(board, game.currentTeam, game.winLength, game.teams, game.wrapAround);
+    // A column that looked open through the fog may be full
+    return drops.includes(column) ? column : drops[Math.floor(Math.random() * drops.length)];
+  }
+
+  private createTurnDecider(votingMode: VotingMode): ITurnDecider {
+    // Runoff dead heats are settled by the configured decider
+    return votingMode === 'ranked' ? new RankedChoiceTurnDecider(this.turnDecider) : this.turnDecider;
+  }
+
+  private createSeries(settings: RoomSettings): SeriesState {
+    return { wins: Object.fromEntries(this.getTeams(settings).map(team => [team, 0])), gamesPlayed: 0 };
+  }
+
+  private getTeams(settings: RoomSettings): Team[] {
+    return settings.teams ?? DEFAULT_TEAMS;
+  }
+
+  // Fill in defaults and validate the requested board geometry
+  private resolveBoardConfig(request: CreateRoomRequest): BoardConfig {
+    const config: BoardConfig = {
+      rows: request.rows ?? DEFAULT_BOARD_CONFIG.rows,
+      cols: request.cols ?? DEFAULT_BOARD_CONFIG.cols,
+      winLength: request.winLength ?? DEFAULT_BOARD_CONFIG.winLength
+    };
+
+    this.validateBoardConfig(config);
+    return config;
+  }
+
+  private validateBoardConfig(config: BoardConfig): void {
+    if (!Number.isInteger(config.rows) || config.rows < BOARD_LIMITS.minRows || config.rows > BOARD_LIMITS.maxRows) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Rows must be between ${BOARD_LIMITS.minRows} and ${BOARD_LIMITS.maxRows}`);
+    }
+
+    if (!Number.isInteger(config.cols) || config.cols < BOARD_LIMITS.minCols || config.cols > BOARD_LIMITS.maxCols) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Columns must be between ${BOARD_LIMITS.minCols} and ${BOARD_LIMITS.maxCols}`);
+    }
+
+    if (!Number.isInteger(config.winLength) || config.winLength < BOARD_LIMITS.minWinLength || config.winLength > BOARD_LIMITS.maxWinLength) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Win length must be between ${BOARD_LIMITS.minWinLength} and ${BOARD_LIMITS.maxWinLength}`);
+    }
+
+    if (config.winLength > Math.max(config.rows, config.cols)) {
+      throw new RoomServiceError('INVALID_SETTINGS', 'Win length does not fit on the board');
+    }
+  }
+
+  // Range checks shared by room creation and lobby edits
+  private validateSettings(settings: RoomSettings): void {
+    this.validateBoardConfig(settings);
+
+    if (!Number.isInteger(settings.timerSec) || settings.timerSec < SETTINGS_LIMITS.minTimerSec || settings.timerSec > SETTINGS_LIMITS.maxTimerSec) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Vote timer must be between ${SETTINGS_LIMITS.minTimerSec} and ${SETTINGS_LIMITS.maxTimerSec} seconds`);
+    }
+
+    if (!Number.isInteger(settings.maxPlayers) || settings.maxPlayers < SETTINGS_LIMITS.minPlayers || settings.maxPlayers > SETTINGS_LIMITS.maxPlayers) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Max players must be between ${SETTINGS_LIMITS.minPlayers} and ${SETTINGS_LIMITS.maxPlayers}`);
+    }
+
+    if (settings.votingMode !== 'plurality' && settings.votingMode !== 'ranked') {
+      throw new RoomServiceError('INVALID_SETTINGS', `Unknown voting mode: ${settings.votingMode}`);
+    }
+
+    if (settings.variant !== undefined && !Object.hasOwn(MOVE_KINDS, settings.variant)) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Unknown game variant: ${settings.variant}`);
+    }
+
+    if (settings.fogOfWar !== undefined && typeof settings.fogOfWar !== 'boolean') {
+      throw new RoomServiceError('INVALID_SETTINGS', 'Fog of war must be on or off');
+    }
+
+    if (settings.wrapAround !== undefined && typeof settings.wrapAround !== 'boolean') {
+      throw new RoomServiceError('INVALID_SETTINGS', 'Wrap-around must be on or off');
+    }
+
+    if (!Number.isInteger(settings.seriesTarget) || settings.seriesTarget < SERIES_LIMITS.minTarget || settings.seriesTarget > SERIES_LIMITS.maxTarget) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Series target must be between ${SERIES_LIMITS.minTarget} and ${SERIES_LIMITS.maxTarget}`);
+    }
+
+    const teams = this.getTeams(settings);
+    if (!Array.isArray(teams) || teams.length < TEAM_LIMITS.minTeams || teams.length > TEAM_LIMITS.maxTeams
+      || new Set(teams).size !== teams.length || teams.some(team => !TEAMS.includes(team))) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Pick ${TEAM_LIMITS.minTeams} to ${TEAM_LIMITS.maxTeams} different teams from ${TEAMS.join(', ')}`);
+    }
+
+    if (!teams.includes(settings.startingTeam)) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Unknown starting team: ${settings.startingTeam}`);
+    }
+
+    if (settings.timeControl) {
+      this.validateTimeControl(settings.timeControl);
+      // Losing on time hands the win to the other team, so there has to be exactly one
+      if (settings.timeControl.onExpiry === 'lose' && teams.length > 2) {
+        throw new RoomServiceError('INVALID_SETTINGS', 'Losing on time needs exactly two teams');
+      }
+    }
+  }
+
+  private validateTimeControl({ bankSec, incrementSec, onExpiry }: TimeControl): void {
+    if (!Number.isInteger(bankSec) || bankSec < TIME_CONTROL_LIMITS.minBankSec || bankSec > TIME_CONTROL_LIMITS.maxBankSec) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Time bank must be between ${TIME_CONTROL_LIMITS.minBankSec} and ${TIME_CONTROL_LIMITS.maxBankSec} seconds`);
+    }
+
+    if (!Number.isInteger(incrementSec) || incrementSec < TIME_CONTROL_LIMITS.minIncrementSec || incrementSec > TIME_CONTROL_LIMITS.maxIncrementSec) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Increment must be between ${TIME_CONTROL_LIMITS.minIncrementSec} and ${TIME_CONTROL_LIMITS.maxIncrementSec} seconds`);
+    }
+
+    if (onExpiry !== 'lose' && onExpiry !== 'random' && onExpiry !== 'ai') {
+      throw new RoomServiceError('INVALID_SETTINGS', `Unknown time expiry rule: ${onExpiry}`);
+    }
+  }
+
+  // The team with the fewest players, earlier teams first on a tie
+  private pickBalancedTeam(players: Player[], teams: Team[]): Team {
+    const sizes = teams.map(team => players.filter(p => p.team === team).length);
+    return teams[sizes.indexOf(Math.min(...sizes))]!;
+  }
+
+  private createBot(room: Room, team: Team, settings: BotSettings): Player {
+    const takenNicknames = new Set(room.players.map(p => p.nickname.toLowerCase()));
+    let index = 1;
+    while (takenNicknames.has(`cpu ${index}`)) {
+      index++;
+    }
+
+    return {
+      id: `bot-${uuidv4()}`,
+      nickname: `CPU ${index}`,
+      team,
+      isAdmin: false,
+      matchingVotes: 0,
+      connected: true,
+      bot: settings
+    };
+  }
+
+  private resolveBotSettings(difficulty: BotDifficulty | BotSettings = 'medium'): BotSettings {
+    if (typeof difficulty === 'string') {
+      const preset = BOT_DIFFICULTIES[difficulty];
+      if (!preset) {
+        throw new RoomServiceError('INVALID_SETTINGS', `Unknown difficulty: ${difficulty}`);
+      }
+      return { ...preset };
+    }
+
+    const { depth, randomness } = difficulty;
+    if (!Number.isInteger(depth) || depth < BOT_LIMITS.minDepth || depth > BOT_LIMITS.maxDepth) {
+      throw new RoomServiceError('INVALID_SETTINGS', `Bot depth must be between ${BOT_LIMITS.minDepth} and ${BOT_LIMITS.maxDepth}`);
+    }
+    if (typeof randomness !== 'number' || randomness < 0 || randomness > 1) {
+      throw new RoomServiceError('INVALID_SETTINGS', 'Bot randomness must be between 0 and 1');
+    }
+    return { depth, randomness };
+  }
+
+  // Password, nickname and ban checks shared by players and spectators; returns the sanitized nickname
+  private async admitToRoom(room: Room, visitorId: string, request: JoinRoomRequest): Promise<string> {
+    // Validate password if required
+    if (room.passwordHash && !request.password) {
+      throw new RoomServiceError('PASSWORD_REQUIRED', 'Room requires a password');
+    }
+
+    if (room.passwordHash && request.password) {
+      const validPassword = await this.accessControl.validatePassword(request.password, room.passwordHash);
+      if (!validPassword) {
+        throw new RoomServiceError('INVALID_PASSWORD', 'Invalid password');
+      }
+    }
+
+    // Validate nickname
+    const nicknameValidation = this.accessControl.validateNickname(request.nickname);
+    if (!nicknameValidation.valid) {
+      throw new RoomServiceError('INVALID_NICKNAME', nicknameValidation.error!);
+    }
+
+    const sanitizedNickname = this.accessControl.sanitizeNickname(request.nickname);
+
+    // Kicked players stay out for the rest of the room's life
+    const isBanned = (room.bans ?? []).some(ban =>
+      ban.playerId === visitorId || ban.nickname.toLowerCase() === sanitizedNickname.toLowerCase()
+    );
+    if (isBanned) {
+      throw new RoomServiceError('PLAYER_BANNED', 'You have been removed from this room');
+    }
+
+    return sanitizedNickname;
+  }
+
+  private findSpectatorByNickname(room: Room, nickname: string): Spectator | undefined {
+    return room.spectators?.find(s => s.nickname.toLowerCase() === nickname.toLowerCase());
+  }
+
+  private buildSpectateResponse(room: Room, spectator: Spectator): SpectateRoomResponse {
+    return {
+      room: this.sanitizeRoomForClient(room),
+      spectator,
+      resumeToken: this.sessionTokens.issue(room.code, spectator.id)
+    };
+  }
+
+  private buildJoinResponse(room: Room, player: Player): JoinRoomResponse {
+    return {
+      room: this.sanitizeRoomForClient(room),
+      player,
+      resumeToken: this.sessionTokens.issue(room.code, player.id)
+    };
+  }
+
   // Remove sensitive data from room before sending to client
   private sanitizeRoomForClient(room: Room): Room {
     const sanitized = { ...room };
     delete sanitized.passwordHash; // Never send password hash to client
+    delete sanitized.bans;         // Ban list is server-side bookkeeping
+    delete sanitized.adminTokenHash;
     return sanitized;
   }
+
+  // Whether a join presents this room's admin token; a wrong token is rejected rather than ignored
+  private presentsAdminToken(room: Room, adminToken?: string): boolean {
+    if (adminToken === undefined) {
+      return false;
+    }
+
+    if (!this.matchesAdminToken(room, adminToken)) {
+      throw new RoomServiceError('INVALID_ADMIN_TOKEN', 'Invalid admin token');
+    }
+
+    return true;
+  }
+
+  private matchesAdminToken(room: Room, adminToken: string): boolean {
+    if (!room.adminTokenHash || typeof adminToken !== 'string') {
+      return false;
+    }
+    return timingSafeEqual(Buffer.from(this.hashAdminToken(adminToken)), Buffer.from(room.adminTokenHash));
+  }
+
+  // Only a digest is stored so a leaked room record can't be used to take over the room
+  private hashAdminToken(adminToken: string): string {
+    return createHash('sha256').update(adminToken).digest('hex');
+  }
+
+  // The token holder becomes the room's only admin
+  private grantAdmin(room: Room, player: Player): void {
+    room.players.forEach(p => p.isAdmin = p.id === player.id);
+    delete room.awaitingHost;
+  }
 }
 
 export class RoomServiceError extends Error {
@@ -0,0 +1,124 @@
+import type { IClock, IRoomStore, Room, RoomCloseReason } from '../types';
+import type { RoomService } from './RoomService';
+
+// How long a room may go without activity before the sweeper closes it
+export interface RoomLifetimes {
+  emptyMs: number;      // nobody in it, e.g. created over HTTP and never joined
+  idleLobbyMs: number;  // players in the lobby but no game started
+  endedMs: number;      // finished or aborted game left open
+}
+
+export const DEFAULT_ROOM_LIFETIMES: RoomLifetimes = {
+  emptyMs: 10 * 60 * 1000,
+  idleLobbyMs: 60 * 60 * 1000,
+  endedMs: 30 * 60 * 1000,
+};
+
+export const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface ClosedRoom {
+  roomCode: string;
+  reason: RoomCloseReason;
+}
+
+// Periodically closes rooms that outlived their lifetime; games in progress are never swept
+export class RoomSweeper {
+  private timeout?: NodeJS.Timeout | undefined;
+  private running = false;
+  private closedCallback?: (closed: ClosedRoom) => void;
+
+  constructor(
+    private roomStore: IRoomStore,
+    private roomService: RoomService,
+    private clock: IClock,
+    private lifetimes: RoomLifetimes = DEFAULT_ROOM_LIFETIMES,
+    private intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS
+  ) {}
+
+  // Called for every room the sweeper closes, so connected clients can be told
+  setClosedCallback(callback: (closed: ClosedRoom) => void): void {
+    this.closedCallback = callback;
+  }
+
+  start(): void {
+    this.running = true;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timeout) {
+      this.clock.clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  async sweep(): Promise<ClosedRoom[]> {
+    const now = this.clock.now();
+    const closed: ClosedRoom[] = [];
+
+    for (const { code } of await this.roomStore.listRooms()) {
+      // Queued behind the room's other commands, which may have just brought it back to life
+      const reason = await this.roomService.runCommand(code, () => this.closeIfExpired(code, now));
+      if (reason) {
+        closed.push({ roomCode: code, reason });
+        this.closedCallback?.({ roomCode: code, reason });
+      }
+    }
+
+    return closed;
+  }
+
+  private async closeIfExpired(roomCode: string, now: number): Promise<RoomCloseReason | undefined> {
+    const room = await this.roomStore.getRoom(roomCode);
+    const reason = room ? this.closeReason(room) : undefined;
+    if (!room || !reason || now - (room.lastActivityAt ?? room.createdAt) < this.lifetimeFor(reason)) {
+      return undefined;
+    }
+
+    await this.roomService.closeRoom(roomCode);
+    return reason;
+  }
+
+  private scheduleNext(): void {
+    if (this.timeout) {
+      this.clock.clearTimeout(this.timeout);
+    }
+
+    this.timeout = this.clock.setTimeout(async () => {
+      this.timeout = undefined;
+      try {
+        await this.sweep();
+      } catch (error) {
+        console.error('Error sweeping rooms:', error);
+      }
+      if (this.running) {
+        this.scheduleNext();
+      }
+    }, this.intervalMs);
+  }
+
+  private closeReason(room: Room): RoomCloseReason | undefined {
+    if (room.players.every(p => p.bot) && (room.spectators ?? []).length === 0) {
+      return 'empty';
+    }
+    if (room.state === 'lobby') {
+      return 'idle';
+    }
+    if (room.state === 'ended' || room.state === 'aborted') {
+      return 'ended';
+    }
+    return undefined;
+  }
+
+  private lifetimeFor(reason: RoomCloseReason): number {
+    switch (reason) {
+      case 'empty':
+        return this.lifetimes.emptyMs;
+      case 'idle':
+        return this.lifetimes.idleLobbyMs;
+      case 'ended':
+        return this.lifetimes.endedMs;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ISessionTokens, SessionClaims } from '../types';
+
+export class HmacSessionTokens implements ISessionTokens {
+  private readonly secret: string;
+
+  constructor(secret?: string) {
+    // Without a configured secret, tokens only survive as long as this process
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  issue(roomCode: string, playerId: string): string {
+    const payload = Buffer.from(JSON.stringify({ roomCode, playerId })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  verify(token: string): SessionClaims | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (typeof claims.roomCode !== 'string' || typeof claims.playerId !== 'string') {
+        return null;
+      }
+      return { roomCode: claims.roomCode, playerId: claims.playerId };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
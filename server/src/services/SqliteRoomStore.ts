@@ -0,0 +1,268 @@
+import Database from 'better-sqlite3';
+import type { IRoomStore, Player, Room } from '../types';
+
+interface RoomRow {
+  code: string;
+  password_hash: string | null;
+  admin_token_hash: string | null;
+  awaiting_host: number | null;
+  state: Room['state'];
+  settings: string;
+  game: string | null;
+  series: string | null;
+  spectators: string | null;
+  chat: string | null;
+  muted_ids: string | null;
+  teams_locked: number | null;
+  bans: string | null;
+  created_at: number;
+  last_activity_at: number | null;
+}
+
+interface PlayerRow {
+  id: string;
+  nickname: string;
+  team: Player['team'];
+  is_admin: number;
+  matching_votes: number;
+  connected: number;
+  bot: string | null;
+}
+
+// File-backed room store. Rooms are written through to SQLite on every create/update/delete
+// and kept in an identity map once loaded, so callers see the same object across getRoom
+// calls exactly as with InMemoryRoomStore.
+export class SqliteRoomStore implements IRoomStore {
+  private db: Database.Database;
+  private rooms = new Map<string, Room>();
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  async createRoom(room: Room): Promise<void> {
+    const exists = this.db.prepare('SELECT 1 FROM rooms WHERE code = ?').get(room.code);
+    if (exists) {
+      throw new Error(`Room ${room.code} already exists`);
+    }
+    this.saveRoom(room);
+    this.rooms.set(room.code, room);
+  }
+
+  async getRoom(code: string): Promise<Room | null> {
+    const cached = this.rooms.get(code);
+    if (cached) {
+      return cached;
+    }
+
+    const room = this.loadRoom(code);
+    if (room) {
+      this.rooms.set(code, room);
+    }
+    return room;
+  }
+
+  async updateRoom(code: string, room: Room): Promise<void> {
+    const exists = this.db.prepare('SELECT 1 FROM rooms WHERE code = ?').get(code);
+    if (!exists) {
+      throw new Error(`Room ${code} not found`);
+    }
+
+    this.saveRoom(room);
+    this.rooms.set(code, room);
+  }
+
+  async deleteRoom(code: string): Promise<void> {
+    this.db.prepare('DELETE FROM rooms WHERE code = ?').run(code);
+    this.rooms.delete(code);
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return this.getAllRooms();
+  }
+
+  // Helper methods for testing and management
+  getAllRooms(): Room[] {
+    const codes = this.db.prepare('SELECT code FROM rooms ORDER BY created_at').all() as Array<{ code: string }>;
+    return codes.map(({ code }) => {
+      const cached = this.rooms.get(code);
+      if (cached) {
+        return cached;
+      }
+      const room = this.loadRoom(code)!;
+      this.rooms.set(code, room);
+      return room;
+    });
+  }
+
+  getRoomCount(): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM rooms').get() as { count: number };
+    return row.count;
+  }
+
+  clear(): void {
+    this.db.prepare('DELETE FROM rooms').run();
+    this.rooms.clear();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rooms (
+        code TEXT PRIMARY KEY,
+        password_hash TEXT,
+        admin_token_hash TEXT,
+        awaiting_host INTEGER,
+        state TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        game TEXT,
+        series TEXT,
+        spectators TEXT,
+        chat TEXT,
+        muted_ids TEXT,
+        teams_locked INTEGER,
+        bans TEXT,
+        created_at INTEGER NOT NULL,
+        last_activity_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS players (
+        room_code TEXT NOT NULL REFERENCES rooms(code) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        nickname TEXT NOT NULL,
+        team TEXT NOT NULL,
+        is_admin INTEGER NOT NULL,
+        matching_votes INTEGER NOT NULL,
+        connected INTEGER NOT NULL,
+        bot TEXT,
+        PRIMARY KEY (room_code, id)
+      );
+    `);
+
+    // Databases created by older versions lack the columns added since
+    const columns = this.db.prepare('PRAGMA table_info(rooms)').all() as Array<{ name: string }>;
+    const addedColumns: Array<[string, string]> = [
+      ['series', 'TEXT'], ['spectators', 'TEXT'], ['chat', 'TEXT'], ['muted_ids', 'TEXT'], ['teams_locked', 'INTEGER'],
+      ['admin_token_hash', 'TEXT'], ['awaiting_host', 'INTEGER'], ['last_activity_at', 'INTEGER']
+    ];
+    for (const [added, type] of addedColumns) {
+      if (!columns.some(column => column.name === added)) {
+        this.db.exec(`ALTER TABLE rooms ADD COLUMN ${added} ${type}`);
+      }
+    }
+  }
+
+  private saveRoom(room: Room): void {
+    const save = this.db.transaction((room: Room) => {
+      this.db.prepare(`
+        INSERT INTO rooms (code, password_hash, admin_token_hash, awaiting_host, state, settings, game, series, spectators, chat, muted_ids, teams_locked, bans, created_at, last_activity_at)
+        VALUES (@code, @passwordHash, @adminTokenHash, @awaitingHost, @state, @settings, @game, @series, @spectators, @chat, @mutedIds, @teamsLocked, @bans, @createdAt, @lastActivityAt)
+        ON CONFLICT(code) DO UPDATE SET
+          password_hash = excluded.password_hash,
+          admin_token_hash = excluded.admin_token_hash,
+          awaiting_host = excluded.awaiting_host,
+          state = excluded.state,
+          settings = excluded.settings,
+          game = excluded.game,
+          series = excluded.series,
+          spectators = excluded.spectators,
+          chat = excluded.chat,
+          muted_ids = excluded.muted_ids,
+          teams_locked = excluded.teams_locked,
+          bans = excluded.bans,
+          created_at = excluded.created_at,
+          last_activity_at = excluded.last_activity_at
+      `).run({
+        code: room.code,
+        passwordHash: room.passwordHash ?? null,
+        adminTokenHash: room.adminTokenHash ?? null,
+        awaitingHost: room.awaitingHost === undefined ? null : (room.awaitingHost ? 1 : 0),
+        state: room.state,
+        settings: JSON.stringify(room.settings),
+        game: room.game ? JSON.stringify(room.game) : null,
+        series: room.series ? JSON.stringify(room.series) : null,
+        spectators: room.spectators ? JSON.stringify(room.spectators) : null,
+        chat: room.chat ? JSON.stringify(room.chat) : null,
+        mutedIds: room.mutedIds ? JSON.stringify(room.mutedIds) : null,
+        teamsLocked: room.teamsLocked === undefined ? null : (room.teamsLocked ? 1 : 0),
+        bans: room.bans ? JSON.stringify(room.bans) : null,
+        createdAt: room.createdAt,
+        lastActivityAt: room.lastActivityAt ?? null
+      });
+
+      // Player order matters (admin promotion, captains), so the roster is rewritten in full
+      this.db.prepare('DELETE FROM players WHERE room_code = ?').run(room.code);
+      const insertPlayer = this.db.prepare(`
+        INSERT INTO players (room_code, position, id, nickname, team, is_admin, matching_votes, connected, bot)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      room.players.forEach((player, position) => {
+        insertPlayer.run(
+          room.code,
+          position,
+          player.id,
+          player.nickname,
+          player.team,
+          player.isAdmin ? 1 : 0,
+          player.matchingVotes,
+          player.connected ? 1 : 0,
+          player.bot ? JSON.stringify(player.bot) : null
+        );
+      });
+    });
+
+    save(room);
+  }
+
+  private loadRoom(code: string): Room | null {
+    const row = this.db.prepare('SELECT * FROM rooms WHERE code = ?').get(code) as RoomRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const playerRows = this.db
+      .prepare('SELECT * FROM players WHERE room_code = ? ORDER BY position')
+      .all(code) as PlayerRow[];
+
+    const room: Room = {
+      code: row.code,
+      players: playerRows.map(playerRow => this.toPlayer(playerRow)),
+      state: row.state,
+      settings: JSON.parse(row.settings),
+      createdAt: row.created_at
+    };
+    if (row.password_hash !== null) room.passwordHash = row.password_hash;
+    if (row.admin_token_hash !== null) room.adminTokenHash = row.admin_token_hash;
+    if (row.awaiting_host !== null) room.awaitingHost = row.awaiting_host === 1;
+    if (row.bans !== null) room.bans = JSON.parse(row.bans);
+    if (row.game !== null) room.game = JSON.parse(row.game);
+    if (row.series !== null) room.series = JSON.parse(row.series);
+    if (row.spectators !== null) room.spectators = JSON.parse(row.spectators);
+    if (row.chat !== null) room.chat = JSON.parse(row.chat);
+    if (row.muted_ids !== null) room.mutedIds = JSON.parse(row.muted_ids);
+    if (row.teams_locked !== null) room.teamsLocked = row.teams_locked === 1;
+    if (row.last_activity_at !== null) room.lastActivityAt = row.last_activity_at;
+
+    return room;
+  }
+
+  private toPlayer(row: PlayerRow): Player {
+    const player: Player = {
+      id: row.id,
+      nickname: row.nickname,
+      team: row.team,
+      isAdmin: row.is_admin === 1,
+      matchingVotes: row.matching_votes,
+      connected: row.connected === 1
+    };
+    if (row.bot !== null) player.bot = JSON.parse(row.bot);
+    return player;
+  }
+}
@@ -1,4 +1,5 @@
-import type { GameState, Player, Team, IGameEngine, ITurnDecider, IClock } from '../types';
+import type { GameState, Player, Team, TieBreakRule, PowerUp, IGameEngine, ITurnDecider, IClock } from '../types';
+import { MAX_RANKED_CHOICES, MOVE_KINDS, fromMove, toMove } from '../types';
 
 export interface VoteResult {
   success: boolean;
@@ -9,6 +10,9 @@ export interface TurnResult {
   moveApplied: boolean;
   gameEnded: boolean;
   chosenColumn?: number;
+  popped?: boolean;       // PopOut: the chosen column had a piece popped rather than dropped
+  piece?: PowerUp;        // power-ups: the special piece played in the chosen column
+  tieBreak?: TieBreakRule;
   error?: string;
 }
 
@@ -33,65 +37,157 @@ export class TurnManager {
   }
 
   startVoting(gameState: GameState, _players: Player[], timerSec: number): void {
-    // Set voting deadline
+    // Set voting deadline; with time banks the team may use whatever is left on its bank
     const now = this.clock.now();
-    gameState.endsAt = now + (timerSec * 1000);
+    const clocks = gameState.clocks;
+    let windowMs = timerSec * 1000;
+    if (clocks) {
+      windowMs = clocks.remainingMs[gameState.currentTeam] ?? 0;
+      clocks.runningSince = now;
+    }
+    gameState.endsAt = now + windowMs;
     
     // Don't clear votes here - let them accumulate during the voting phase
     // Votes will be cleared in finishVoting after the turn is completed
     
-    // Clear any existing timeout
+    this.scheduleDeadline(windowMs);
+  }
+
+  // Charge the voting team for the time it took and credit the increment. False when its bank ran out;
+  // always true without time banks.
+  stopClock(gameState: GameState): boolean {
+    const clocks = gameState.clocks;
+    if (!clocks || clocks.runningSince === undefined) {
+      return true;
+    }
+
+    const team = gameState.currentTeam;
+    const remainingMs = (clocks.remainingMs[team] ?? 0) - (this.clock.now() - clocks.runningSince);
+    delete clocks.runningSince;
+
+    if (remainingMs <= 0) {
+      clocks.remainingMs[team] = 0;
+      return false;
+    }
+
+    clocks.remainingMs[team] = remainingMs + clocks.incrementMs;
+    return true;
+  }
+
+  // Each team's bank as of now, counting down the one that is running
+  getTimeBanks(gameState: GameState): Partial<Record<Team, number>> | undefined {
+    const clocks = gameState.clocks;
+    if (!clocks) {
+      return undefined;
+    }
+
+    const banks = { ...clocks.remainingMs };
+    if (clocks.runningSince !== undefined) {
+      const team = gameState.currentTeam;
+      banks[team] = Math.max(0, (banks[team] ?? 0) - (this.clock.now() - clocks.runningSince));
+    }
+    return banks;
+  }
+
+  // Re-arm the deadline of a voting window restored from storage; false if it already expired
+  resumeVoting(gameState: GameState): boolean {
+    if (!gameState.endsAt) {
+      return false;
+    }
+
+    const remainingMs = gameState.endsAt - this.clock.now();
+    if (remainingMs <= 0) {
+      return false;
+    }
+
+    this.scheduleDeadline(remainingMs);
+    return true;
+  }
+
+  // Freeze the open vote window, and the voting team's time bank with it; false if no window is open
+  pause(gameState: GameState): boolean {
+    if (gameState.endsAt === undefined) {
+      return false;
+    }
+
+    const now = this.clock.now();
+    gameState.pausedRemainingMs = Math.max(0, gameState.endsAt - now);
+    delete gameState.endsAt;
+    this.cancel();
+
+    const clocks = gameState.clocks;
+    if (clocks && clocks.runningSince !== undefined) {
+      const team = gameState.currentTeam;
+      clocks.remainingMs[team] = Math.max(0, (clocks.remainingMs[team] ?? 0) - (now - clocks.runningSince));
+      delete clocks.runningSince;
+    }
+    return true;
+  }
+
+  // Reopen a paused window with the time it had left; false if the game wasn't paused
+  resume(gameState: GameState): boolean {
+    if (gameState.pausedRemainingMs === undefined) {
+      return false;
+    }
+
+    const now = this.clock.now();
+    const remainingMs = gameState.pausedRemainingMs;
+    delete gameState.pausedRemainingMs;
+    gameState.endsAt = now + remainingMs;
+    if (gameState.clocks) {
+      gameState.clocks.runningSince = now;
+    }
+
+    this.scheduleDeadline(remainingMs);
+    return true;
+  }
+
+  // Drop the pending deadline without resolving the turn, e.g. when the room is closed
+  cancel(): void {
     if (this.currentTimeout) {
       this.clock.clearTimeout(this.currentTimeout);
       this.currentTimeout = undefined;
     }
-    
-    // Schedule automatic finish when timer expires
-    this.currentTimeout = this.clock.setTimeout(() => {
-      // Clear the timeout reference first
-      this.currentTimeout = undefined;
-      // Don't call finishVoting here - let the completion callback handle it
-      // This prevents double-processing of the same turn
-      if (this.completionCallback && this.currentRoomCode) {
-        this.completionCallback(this.currentRoomCode, { timeout: true });
-      }
-    }, timerSec * 1000);
   }
 
   castVote(gameState: GameState, players: Player[], playerId: string, column: number): VoteResult {
-    // Check if voting window is open
-    if (!gameState.endsAt) {
-      return { success: false, error: 'Voting window is closed' };
+    const validation = this.validateVote(gameState, players, playerId, [column]);
+    if (!validation.success) {
+      return validation;
     }
 
-    // Find the player
-    const player = players.find(p => p.id === playerId);
-    if (!player) {
-      return { success: false, error: 'Player not found' };
+    // Record the vote (overwrites previous vote or ballot from same player)
+    gameState.votes[playerId] = column;
+    if (gameState.ballots) {
+      delete gameState.ballots[playerId];
     }
+    
+    return { success: true };
+  }
 
-    // Check if it's the player's team turn
-    if (player.team !== gameState.currentTeam) {
-      return { success: false, error: 'Not your team\'s turn' };
+  // Ranked-choice ballot: the first choice doubles as the player's vote for tallies and scoring
+  castBallot(gameState: GameState, players: Player[], playerId: string, ranking: number[]): VoteResult {
+    if (ranking.length === 0 || ranking.length > MAX_RANKED_CHOICES) {
+      return { success: false, error: `Rank between 1 and ${MAX_RANKED_CHOICES} columns` };
     }
 
-    // Validate column
-    if (column < 0 || column >= 7) {
-      return { success: false, error: 'Invalid column' };
+    if (new Set(ranking).size !== ranking.length) {
+      return { success: false, error: 'Each column can only be ranked once' };
     }
 
-    // Check if column is full
-    if (!this.gameEngine.isValidMove(gameState.board, column)) {
-      return { success: false, error: 'Column is full' };
+    const validation = this.validateVote(gameState, players, playerId, ranking);
+    if (!validation.success) {
+      return validation;
     }
 
-    // Record the vote (overwrites previous vote from same player)
-    gameState.votes[playerId] = column;
-    
+    gameState.votes[playerId] = ranking[0]!;
+    gameState.ballots = { ...gameState.ballots, [playerId]: [...ranking] };
+
     return { success: true };
   }
 
-  finishVoting(gameState: GameState, players: Player[]): TurnResult {
+  // A forced column is played as is, e.g. for a team whose time bank ran out
+  finishVoting(gameState: GameState, players: Player[], forcedColumn?: number): TurnResult {
     // Clear the voting deadline
     delete gameState.endsAt;
     
@@ -101,46 +197,61 @@ export class TurnManager {
       this.currentTimeout = undefined;
     }
 
-    // Get valid columns (not full)
-    const validColumns: number[] = [];
-    for (let col = 0; col < 7; col++) {
-      if (this.gameEngine.isValidMove(gameState.board, col)) {
-        validColumns.push(col);
-      }
-    }
+    // Get valid moves (columns that aren't full, plus PopOut pops and power-ups)
+    const validMoves = this.getValidMoves(gameState);
 
     // If no valid moves, game is a draw
-    if (validColumns.length === 0) {
+    if (validMoves.length === 0) {
       gameState.result = { draw: true };
       return { moveApplied: false, gameEnded: true };
     }
 
     // Tally votes
-    const perColumnCounts = this.turnDecider.tallyVotes(gameState.votes, validColumns);
+    const columnCount = this.getColumnCount(gameState);
+    const perColumnCounts = this.turnDecider.tallyVotes(gameState.votes, validMoves, this.getMoveCount(gameState));
     gameState.perColumnCounts = perColumnCounts;
 
-    // Decide which column to play
-    const chosenColumn = this.turnDecider.decideColumn(perColumnCounts, validColumns);
+    // Decide which move to play
+    const { column: chosenMove, tieBreak } = forcedColumn !== undefined
+      ? { column: forcedColumn, tieBreak: 'none' as const }
+      : this.turnDecider.decideTurn(perColumnCounts, validMoves, {
+        votes: gameState.votes,
+        ballots: gameState.ballots,
+        captainId: this.findCaptain(players, gameState.currentTeam)?.id,
+        columnCount
+      });
+    gameState.lastTieBreak = tieBreak;
 
-    // Update matching votes for players who voted for the chosen column
+    // Update matching votes for players who voted for the chosen move
     const activeTeamPlayers = players.filter(p => p.team === gameState.currentTeam);
     for (const player of activeTeamPlayers) {
-      if (gameState.votes[player.id] === chosenColumn) {
+      if (gameState.votes[player.id] === chosenMove) {
         player.matchingVotes++;
       }
     }
 
     // Clear votes
     gameState.votes = {};
+    delete gameState.ballots;
+
+    const { kind, col: chosenColumn } = fromMove(chosenMove, columnCount, gameState.variant);
 
     try {
+      if (kind === 'pop') {
+        return this.applyPop(gameState, chosenColumn, tieBreak);
+      }
+      if (kind && kind !== 'drop') {
+        return this.applyPowerUp(gameState, chosenColumn, kind, tieBreak);
+      }
+
       // Apply the move
       const moveResult = this.gameEngine.applyMove(gameState.board, chosenColumn, gameState.currentTeam);
       gameState.board = moveResult.board;
-      gameState.lastMove = { col: chosenColumn, row: moveResult.row, team: gameState.currentTeam };
+      const lastMove = { col: chosenColumn, row: moveResult.row, team: gameState.currentTeam };
+      this.recordMove(gameState, lastMove);
 
       // Check for win
-      const winResult = this.gameEngine.checkWin(gameState.board, gameState.lastMove);
+      const winResult = this.gameEngine.checkWin(gameState.board, lastMove, gameState.winLength, gameState.wrapAround);
       if (winResult.winner) {
         if (winResult.winningLine) {
           gameState.result = {
@@ -152,20 +263,18 @@ export class TurnManager {
             winner: winResult.winner
           };
         }
-        return { moveApplied: true, gameEnded: true, chosenColumn };
+        return { moveApplied: true, gameEnded: true, chosenColumn, tieBreak };
       }
 
-      // Check for draw (board full)
-      if (this.gameEngine.isBoardFull(gameState.board)) {
+      // Check for draw (board full); in PopOut the next team may still pop
+      if (this.gameEngine.isBoardFull(gameState.board) && gameState.variant !== 'popout') {
         gameState.result = { draw: true };
-        return { moveApplied: true, gameEnded: true, chosenColumn };
+        return { moveApplied: true, gameEnded: true, chosenColumn, tieBreak };
       }
 
-      // Move to next team and round
-      gameState.currentTeam = this.gameEngine.nextTeam(gameState.currentTeam);
-      gameState.round++;
+      this.passTurn(gameState);
 
-      return { moveApplied: true, gameEnded: false, chosenColumn };
+      return { moveApplied: true, gameEnded: false, chosenColumn, tieBreak };
     } catch (error) {
       return { 
         moveApplied: false, 
@@ -175,6 +284,66 @@ export class TurnManager {
     }
   }
 
+  // Pop the voting team's piece out of a column. Everything above shifts down, so either team may
+  // have connected; when both did, the team that popped wins.
+  private applyPop(gameState: GameState, col: number, tieBreak: TieBreakRule): TurnResult {
+    const team = gameState.currentTeam;
+    const popResult = this.gameEngine.applyPop(gameState.board, col);
+    gameState.board = popResult.board;
+    this.recordMove(gameState, { col, row: popResult.row, team, popped: true });
+
+    const wins = this.gameEngine.checkColumnWins(gameState.board, col, gameState.winLength, gameState.wrapAround);
+    const winner = wins[team] ? team : (Object.keys(wins)[0] as Team | undefined);
+    if (winner) {
+      gameState.result = { winner, winningLine: wins[winner]! };
+      return { moveApplied: true, gameEnded: true, chosenColumn: col, popped: true, tieBreak };
+    }
+
+    this.passTurn(gameState);
+    return { moveApplied: true, gameEnded: false, chosenColumn: col, popped: true, tieBreak };
+  }
+
+  // Play one of the voting team's special pieces. Anvils and bombs remove pieces, so the whole board
+  // is checked; when both teams connect, the team that played the piece wins.
+  private applyPowerUp(gameState: GameState, col: number, piece: PowerUp, tieBreak: TieBreakRule): TurnResult {
+    const team = gameState.currentTeam;
+    const moveResult = this.gameEngine.applyPowerUp(gameState.board, col, team, piece, gameState.wrapAround);
+    gameState.board = moveResult.board;
+    this.recordMove(gameState, { col, row: moveResult.row, team, piece });
+    const inventory = gameState.powerUps?.[team];
+    if (inventory) {
+      inventory[piece]--;
+    }
+
+    const wins = this.gameEngine.checkBoardWins(gameState.board, gameState.winLength, gameState.wrapAround);
+    const winner = wins[team] ? team : (Object.keys(wins)[0] as Team | undefined);
+    if (winner) {
+      gameState.result = { winner, winningLine: wins[winner]! };
+      return { moveApplied: true, gameEnded: true, chosenColumn: col, piece, tieBreak };
+    }
+
+    if (this.gameEngine.isBoardFull(gameState.board)) {
+      gameState.result = { draw: true };
+      return { moveApplied: true, gameEnded: true, chosenColumn: col, piece, tieBreak };
+    }
+
+    this.passTurn(gameState);
+    return { moveApplied: true, gameEnded: false, chosenColumn: col, piece, tieBreak };
+  }
+
+  // Move to the next team and round. The tally belonged to the team that just moved, so it must not
+  // be shown to the next one.
+  private passTurn(gameState: GameState): void {
+    gameState.currentTeam = this.gameEngine.nextTeam(gameState.currentTeam, gameState.teams);
+    gameState.round++;
+    gameState.perColumnCounts = gameState.perColumnCounts.map(() => 0);
+  }
+
+  private recordMove(gameState: GameState, lastMove: NonNullable<GameState['lastMove']>): void {
+    gameState.lastMove = lastMove;
+    gameState.lastMoves = { ...gameState.lastMoves, [lastMove.team]: { col: lastMove.col, row: lastMove.row } };
+  }
+
   // Check if all active team members have voted (for early resolution)
   hasAllTeamVoted(gameState: GameState, players: Player[]): boolean {
     const activeTeamPlayers = players.filter(p => 
@@ -198,14 +367,102 @@ export class TurnManager {
       }
     }
 
-    // Get valid columns
-    const validColumns: number[] = [];
-    for (let col = 0; col < 7; col++) {
-      if (this.gameEngine.isValidMove(gameState.board, col)) {
-        validColumns.push(col);
+    return this.turnDecider.tallyVotes(teamVotes, this.getValidMoves(gameState), this.getMoveCount(gameState));
+  }
+
+  // The room admin captains their own team; other teams follow their longest-serving connected human
+  findCaptain(players: Player[], team: Team): Player | undefined {
+    const teamPlayers = players.filter(p => p.team === team && !p.bot);
+    return teamPlayers.find(p => p.isAdmin) ?? teamPlayers.find(p => p.connected);
+  }
+
+  private scheduleDeadline(delayMs: number): void {
+    // Clear any existing timeout
+    if (this.currentTimeout) {
+      this.clock.clearTimeout(this.currentTimeout);
+      this.currentTimeout = undefined;
+    }
+    
+    // Schedule automatic finish when timer expires
+    this.currentTimeout = this.clock.setTimeout(() => {
+      // Clear the timeout reference first
+      this.currentTimeout = undefined;
+      // Don't call finishVoting here - let the completion callback handle it
+      // This prevents double-processing of the same turn
+      if (this.completionCallback && this.currentRoomCode) {
+        this.completionCallback(this.currentRoomCode, { timeout: true });
+      }
+    }, delayMs);
+  }
+
+  private validateVote(gameState: GameState, players: Player[], playerId: string, columns: number[]): VoteResult {
+    // Check if voting window is open
+    if (!gameState.endsAt) {
+      return { success: false, error: 'Voting window is closed' };
+    }
+
+    // Find the player
+    const player = players.find(p => p.id === playerId);
+    if (!player) {
+      return { success: false, error: 'Player not found' };
+    }
+
+    // Check if it's the player's team turn
+    if (player.team !== gameState.currentTeam) {
+      return { success: false, error: 'Not your team\'s turn' };
+    }
+
+    const columnCount = this.getColumnCount(gameState);
+    for (const move of columns) {
+      // Validate column
+      if (!Number.isInteger(move) || move < 0 || move >= this.getMoveCount(gameState)) {
+        return { success: false, error: 'Invalid column' };
+      }
+
+      const { kind, col } = fromMove(move, columnCount, gameState.variant);
+      if (kind === 'pop') {
+        // Only the voting team's own pieces can be popped
+        if (!this.gameEngine.canPop(gameState.board, col, gameState.currentTeam)) {
+          return { success: false, error: 'You can only pop your own piece from the bottom row' };
+        }
+      } else if (!this.gameEngine.isValidMove(gameState.board, col)) {
+        // Check if column is full
+        return { success: false, error: 'Column is full' };
+      } else if (kind !== 'drop' && !this.hasPowerUp(gameState, kind!)) {
+        return { success: false, error: `Your team has no ${kind} left` };
       }
     }
 
-    return this.turnDecider.tallyVotes(teamVotes, validColumns);
+    return { success: true };
+  }
+
+  private getColumnCount(gameState: GameState): number {
+    return gameState.board[0]?.length ?? 0;
+  }
+
+  // Every kind of move the rule set offers gets a move id for each column
+  private getMoveCount(gameState: GameState): number {
+    return this.getColumnCount(gameState) * MOVE_KINDS[gameState.variant ?? 'classic'].length;
+  }
+
+  // Every move the voting team may play now: open columns, plus its pops and remaining power-ups
+  getValidMoves(gameState: GameState): number[] {
+    const columnCount = this.getColumnCount(gameState);
+    const validMoves: number[] = [];
+    for (const kind of MOVE_KINDS[gameState.variant ?? 'classic']) {
+      for (let col = 0; col < columnCount; col++) {
+        const valid = kind === 'pop'
+          ? this.gameEngine.canPop(gameState.board, col, gameState.currentTeam)
+          : this.gameEngine.isValidMove(gameState.board, col) && (kind === 'drop' || this.hasPowerUp(gameState, kind));
+        if (valid) {
+          validMoves.push(toMove(kind, col, columnCount, gameState.variant));
+        }
+      }
+    }
+    return validMoves;
+  }
+
+  private hasPowerUp(gameState: GameState, piece: PowerUp): boolean {
+    return (gameState.powerUps?.[gameState.currentTeam]?.[piece] ?? 0) > 0;
   }
 }
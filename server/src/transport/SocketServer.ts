@@ -2,19 +2,23 @@ import { Server as SocketIOServer } from 'socket.io';
 import type { Server as HTTPServer } from 'http';
 import type { Socket } from 'socket.io';
 import { RoomService } from '../services/RoomService';
+import { ChatService } from '../services/ChatService';
+import type { TurnManager } from '../services/TurnManager';
+import type { AddBotRequest, CreateRoomRequest, JoinRoomRequest, UpdateSettingsRequest } from '../services/RoomService';
+import type { BotDifficulty, BotSettings, ChatChannel, GameState, Player, Room, RoomCloseReason, Team } from '../types';
 
 
 interface AuthenticatedSocket extends Socket {
   playerId?: string;
   roomCode?: string | undefined;
-  adminToken?: string;
 }
 
 export class SocketServer {
   private io: SocketIOServer;
   private connectedSockets = new Map<string, AuthenticatedSocket>();
+  private tickTimers = new Map<string, NodeJS.Timeout>(); // roomCode -> next game:tick
 
-  constructor(httpServer: HTTPServer, private roomService: RoomService) {
+  constructor(httpServer: HTTPServer, private roomService: RoomService, private chatService: ChatService) {
     this.io = new SocketIOServer(httpServer, {
       cors: {
         origin: process.env['CLIENT_URL'] || "http://localhost:5173",
@@ -36,16 +40,16 @@ export class SocketServer {
       // Set up event handlers
       this.setupRoomHandlers(socket);
       this.setupGameHandlers(socket);
+      this.setupChatHandlers(socket);
       this.setupDisconnectHandler(socket);
     });
   }
 
   private setupRoomHandlers(socket: AuthenticatedSocket): void {
-    socket.on('room:create', async (data: { password?: string; timerSec?: number }, callback) => {
+    socket.on('room:create', async (data: CreateRoomRequest, callback) => {
       try {
         const result = await this.roomService.createRoom(data);
-        socket.adminToken = result.adminToken;
-        
+
         if (callback) callback({ success: true, data: result });
       } catch (error) {
         console.error('Error creating room:', error);
@@ -54,17 +58,18 @@ export class SocketServer {
       }
     });
 
-    socket.on('room:join', async (data: { roomCode: string; nickname: string; password?: string }, callback) => {
+    socket.on('room:join', async (data: JoinRoomRequest, callback) => {
       try {
-        const result = await this.roomService.joinRoom(socket.playerId!, data);
+        const result = await this.roomService.runCommand(data.roomCode, () => this.roomService.joinRoom(socket.playerId!, data));
         
         socket.roomCode = data.roomCode;
         socket.join(data.roomCode);
         
         // Notify all players in the room
-        this.io.to(data.roomCode).emit('room:state', result.room);
+        await this.broadcastRoomState(data.roomCode);
         
-        if (callback) callback({ success: true, data: { room: result.room, you: result.player } });
+        const visibleRoom = this.roomService.redactRoomForViewer(result.room, result.player.id);
+        if (callback) callback({ success: true, data: { room: visibleRoom, you: result.player, resumeToken: result.resumeToken } });
       } catch (error) {
         console.error('Error joining room:', error);
         const errorMsg = error instanceof Error ? error.message : 'Failed to join room';
@@ -72,46 +77,72 @@ export class SocketServer {
       }
     });
 
-    socket.on('room:start', async (data: { roomCode: string }, callback) => {
+    socket.on('room:spectate', async (data: { roomCode: string; nickname: string; password?: string }, callback) => {
       try {
-        await this.roomService.startGame(data.roomCode, socket.playerId!);
-        
-        const room = await this.roomService.getRoom(data.roomCode);
-        if (room && room.game) {
-          // Notify all players that game started
-          this.io.to(data.roomCode).emit('game:started', {
-            board: room.game.board,
-            currentTeam: room.game.currentTeam,
-            round: room.game.round,
-            timerSec: room.settings.timerSec,
-            endsAt: room.game.endsAt || 0
-          });
-
-          // Start the first voting round
-          const turnManager = this.roomService.getTurnManager(data.roomCode);
-          if (turnManager) {
-            // Set up completion callback for timer expiration
-            turnManager.setCompletionCallback(data.roomCode, async (roomCode, result) => {
-              // Check if this is a timeout notification
-              if (result && 'timeout' in result && result.timeout) {
-                // Handle timeout by processing the turn completion
-                await this.processTurnCompletion(roomCode, turnManager, room.game, room.players);
-              }
-            });
-            
-            turnManager.startVoting(room.game, room.players, room.settings.timerSec);
-            await this.roomService.getRoom(data.roomCode); // Update room state
-            
-            // Setup turn completion handler and timer updates
-            this.setupTurnCompletionHandler(data.roomCode, turnManager);
-          this.setupTimerUpdates(data.roomCode);
-          
-          // Send initial timer update
-          this.io.to(data.roomCode).emit('game:tick', { 
-            remainingMs: room.game.endsAt ? Math.max(0, room.game.endsAt - Date.now()) : 0 
-          });
-          }
+        const result = await this.roomService.runCommand(data.roomCode, () => this.roomService.spectateRoom(socket.playerId!, data));
+
+        socket.roomCode = data.roomCode;
+        socket.join(data.roomCode);
+
+        await this.broadcastRoomState(data.roomCode);
+
+        // Catch the newcomer up with a game already in progress
+        if (result.room.game?.endsAt) {
+          socket.emit('game:tick', this.tickPayload(result.room.code, result.room.game));
+        }
+
+        const visibleRoom = this.roomService.redactRoomForViewer(result.room, result.spectator.id);
+        if (callback) callback({ success: true, data: { room: visibleRoom, spectator: result.spectator, resumeToken: result.resumeToken } });
+      } catch (error) {
+        console.error('Error spectating room:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to spectate room';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:resume', async (data: { resumeToken: string; adminToken?: string }, callback) => {
+      try {
+        const resumeRoomCode = this.roomService.sessionRoomCode(data.resumeToken);
+        const resume = () => this.roomService.resumeSession(data.resumeToken, data.adminToken);
+        const result = await (resumeRoomCode ? this.roomService.runCommand(resumeRoomCode, resume) : resume());
+        const viewerId = 'player' in result ? result.player.id : result.spectator.id;
+
+        // Detach any older socket still bound to this player (e.g. a stale tab)
+        const staleSocket = this.findSocketByPlayerId(viewerId);
+        if (staleSocket && staleSocket.id !== socket.id) {
+          staleSocket.leave(result.room.code);
+          staleSocket.roomCode = undefined;
+          staleSocket.playerId = staleSocket.id;
         }
+
+        socket.playerId = viewerId;
+        socket.roomCode = result.room.code;
+        socket.join(result.room.code);
+
+        // Notify all players that this player is back
+        await this.broadcastRoomState(result.room.code);
+
+        // Bring the resumed client up to date with the running vote timer
+        if (result.room.game?.endsAt) {
+          socket.emit('game:tick', this.tickPayload(result.room.code, result.room.game));
+        }
+
+        const visibleRoom = this.roomService.redactRoomForViewer(result.room, viewerId);
+        const you = 'player' in result ? { you: result.player } : { spectator: result.spectator };
+        if (callback) callback({ success: true, data: { room: visibleRoom, ...you, resumeToken: result.resumeToken } });
+      } catch (error) {
+        console.error('Error resuming session:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to resume session';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:start', async (data: { roomCode: string }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, async () => {
+          await this.roomService.startGame(data.roomCode, socket.playerId!);
+          await this.announceGameStart(data.roomCode);
+        });
         
         if (callback) callback({ success: true });
       } catch (error) {
@@ -121,17 +152,132 @@ export class SocketServer {
       }
     });
 
+    socket.on('room:addBot', async (data: { roomCode: string } & AddBotRequest, callback) => {
+      try {
+        const { roomCode, ...request } = data;
+        const bot = await this.roomService.runCommand(roomCode, () => this.roomService.addBot(roomCode, socket.playerId!, request));
+        await this.broadcastRoomState(roomCode);
+
+        if (callback) callback({ success: true, data: { bot } });
+      } catch (error) {
+        console.error('Error adding bot:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to add computer player';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:vsComputer', async (data: { roomCode: string; difficulty?: BotDifficulty | BotSettings }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.setupVsComputer(data.roomCode, socket.playerId!, data.difficulty));
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error setting up game against the computer:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to set up game against the computer';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:kick', async (data: { roomCode: string; nickname: string }, callback) => {
+      try {
+        const kicked = await this.roomService.runCommand(data.roomCode, () => this.roomService.kickPlayer(data.roomCode, socket.playerId!, data.nickname));
+
+        // Force the kicked player's socket out of the room
+        const kickedSocket = this.findSocketByPlayerId(kicked.id);
+        if (kickedSocket) {
+          kickedSocket.emit('room:kicked', { roomCode: data.roomCode, reason: 'You were removed from the room by the admin' });
+          kickedSocket.leave(data.roomCode);
+          kickedSocket.roomCode = undefined;
+        }
+
+        // Notify remaining players
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error kicking player:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to kick player';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:updateSettings', async (data: { roomCode: string } & UpdateSettingsRequest, callback) => {
+      try {
+        const { roomCode, ...changes } = data;
+        const settings = await this.roomService.runCommand(roomCode, () => this.roomService.updateSettings(roomCode, socket.playerId!, changes));
+
+        // Everyone's lobby shows the new settings
+        await this.broadcastRoomState(roomCode);
+
+        if (callback) callback({ success: true, data: settings });
+      } catch (error) {
+        console.error('Error updating settings:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to update settings';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:switchTeam', async (data: { roomCode: string }, callback) => {
+      try {
+        const player = await this.roomService.runCommand(data.roomCode, () => this.roomService.switchTeam(data.roomCode, socket.playerId!));
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true, data: { you: player } });
+      } catch (error) {
+        console.error('Error switching team:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to switch team';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:movePlayer', async (data: { roomCode: string; nickname: string; team: Team }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.movePlayer(data.roomCode, socket.playerId!, data.nickname, data.team));
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error moving player:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to move player';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:shuffleTeams', async (data: { roomCode: string }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.shuffleTeams(data.roomCode, socket.playerId!));
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error shuffling teams:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to shuffle teams';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('room:lockTeams', async (data: { roomCode: string; locked: boolean }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.setTeamsLocked(data.roomCode, socket.playerId!, data.locked));
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error locking teams:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to lock teams';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
     socket.on('room:leave', async (data: { roomCode: string }) => {
       try {
-        await this.roomService.leaveRoom(socket.playerId!, data.roomCode);
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.leaveRoom(socket.playerId!, data.roomCode));
         socket.leave(data.roomCode);
         socket.roomCode = undefined;
         
         // Notify remaining players
-        const room = await this.roomService.getRoom(data.roomCode);
-        if (room) {
-          this.io.to(data.roomCode).emit('room:state', room);
-        }
+        await this.broadcastRoomState(data.roomCode);
       } catch (error) {
         console.error('Error leaving room:', error);
       }
@@ -139,35 +285,18 @@ export class SocketServer {
   }
 
   private setupGameHandlers(socket: AuthenticatedSocket): void {
-    socket.on('room:vote', async (data: { roomCode: string; column: number }, callback) => {
+    socket.on('room:vote', async (data: { roomCode: string; column?: number; ranking?: number[]; round?: number }, callback) => {
       try {
-        await this.roomService.castVote(data.roomCode, socket.playerId!, data.column);
-        
-        const room = await this.roomService.getRoom(data.roomCode);
-        if (room && room.game) {
-          const turnManager = this.roomService.getTurnManager(data.roomCode);
-          if (turnManager) {
-            // Update the room's perColumnCounts with current team's votes
-            const currentTeamCounts = turnManager.getTeamVoteCounts(room.game, room.players, room.game.currentTeam);
-            room.game.perColumnCounts = currentTeamCounts;
-            
-            // Send vote update to all players in the room
-            this.io.to(data.roomCode).emit('game:voteUpdate', { 
-              team: room.game.currentTeam, 
-              counts: currentTeamCounts 
-            });
-            
-            // Also send the updated room state so clients have the latest vote information
-            // This ensures the client sees the updated game.votes object
-            await this.roomService.updateRoomState(room.code, room);
-            this.io.to(data.roomCode).emit('room:state', room);
-
-            // Check if all team members have voted for early resolution
-            if (turnManager.hasAllTeamVoted(room.game, room.players)) {
-              this.processTurnCompletion(data.roomCode, turnManager, room.game, room.players);
-            }
-          }
+        // Ranked-choice rooms send an ordered ranking instead of a single column
+        const vote = data.ranking ?? data.column;
+        if (vote === undefined) {
+          throw new Error('Vote must include a column or a ranking');
         }
+
+        await this.roomService.runCommand(data.roomCode, async () => {
+          await this.roomService.castVote(data.roomCode, socket.playerId!, vote, data.round);
+          await this.handleVotesChanged(data.roomCode);
+        });
         
         if (callback) callback({ success: true });
       } catch (error) {
@@ -179,36 +308,10 @@ export class SocketServer {
 
     socket.on('room:rematch', async (data: { roomCode: string }, callback) => {
       try {
-        await this.roomService.startRematch(data.roomCode, socket.playerId!);
-        
-        // Notify all players
-        const updatedRoom = await this.roomService.getRoom(data.roomCode);
-        if (updatedRoom && updatedRoom.game) {
-          this.io.to(data.roomCode).emit('game:started', {
-            board: updatedRoom.game.board,
-            currentTeam: updatedRoom.game.currentTeam,
-            round: updatedRoom.game.round,
-            timerSec: updatedRoom.settings.timerSec,
-            endsAt: updatedRoom.game.endsAt || 0
-          });
-
-          // Start voting
-          const turnManager = this.roomService.getTurnManager(data.roomCode);
-          if (turnManager) {
-                      // Set up completion callback for timer expiration
-          turnManager.setCompletionCallback(data.roomCode, async (roomCode, result) => {
-            // Check if this is a timeout notification
-            if (result && 'timeout' in result && result.timeout) {
-              // Handle timeout by processing the turn completion
-              await this.processTurnCompletion(roomCode, turnManager, updatedRoom.game, updatedRoom.players);
-            }
-          });
-            
-            turnManager.startVoting(updatedRoom.game, updatedRoom.players, updatedRoom.settings.timerSec);
-            this.setupTurnCompletionHandler(data.roomCode, turnManager);
-            this.setupTimerUpdates(data.roomCode);
-          }
-        }
+        await this.roomService.runCommand(data.roomCode, async () => {
+          await this.roomService.startRematch(data.roomCode, socket.playerId!);
+          await this.announceGameStart(data.roomCode);
+        });
         
         if (callback) callback({ success: true });
       } catch (error) {
@@ -217,104 +320,308 @@ export class SocketServer {
         if (callback) callback({ success: false, error: errorMsg });
       }
     });
-  }
 
-  private setupTurnCompletionHandler(_roomCode: string, _turnManager: any): void {
-    // This would be called by the turn manager when voting completes
-    // For now, we'll handle it in the vote handler above
-  }
+    socket.on('game:pause', async (data: { roomCode: string }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.roomService.pauseGame(data.roomCode, socket.playerId!));
+        this.stopTimerUpdates(data.roomCode);
+        await this.broadcastRoomState(data.roomCode);
 
-  private setupTimerUpdates(roomCode: string): void {
-    const sendTimerUpdate = async () => {
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error pausing game:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to pause game';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('game:resume', async (data: { roomCode: string }, callback) => {
       try {
+        await this.roomService.runCommand(data.roomCode, async () => {
+          await this.roomService.resumeGame(data.roomCode, socket.playerId!);
+          const room = await this.roomService.getRoom(data.roomCode);
+          const turnManager = this.roomService.getTurnManager(data.roomCode);
+          if (room?.game && turnManager) {
+            this.armDeadline(data.roomCode, turnManager, room.game.round);
+            this.io.to(data.roomCode).emit('game:tick', this.tickPayload(data.roomCode, room.game));
+          }
+        });
+        this.setupTimerUpdates(data.roomCode);
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error resuming game:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to resume game';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+  }
+
+  // Pick up games that were running when the server stopped: resume the voting window that is
+  // still open, resolve the turn whose deadline passed while we were down, or open a new round
+  async restoreActiveRooms(): Promise<void> {
+    for (const roomCode of await this.roomService.restoreRooms()) {
+      await this.roomService.runCommand(roomCode, async () => {
         const room = await this.roomService.getRoom(roomCode);
-        if (!room || !room.game || !room.game.endsAt) {
-          return; // No active voting or room doesn't exist
+        const turnManager = this.roomService.getTurnManager(roomCode);
+        // A paused game stays paused until its admin resumes it
+        if (!room || !room.game || !turnManager || room.game.pausedRemainingMs !== undefined) {
+          return;
+        }
+
+        this.armDeadline(roomCode, turnManager, room.game.round);
+        if (turnManager.resumeVoting(room.game)) {
+          this.setupTimerUpdates(roomCode);
+        } else if (room.game.endsAt) {
+          await this.processTurnCompletion(roomCode, room.game.round);
+        } else {
+          this.setupTimerUpdates(roomCode);
+          await this.openVotingRound(roomCode);
         }
+      });
+    }
+  }
+
+  // Tell everyone a new game began and open its first vote
+  private async announceGameStart(roomCode: string): Promise<void> {
+    const room = await this.roomService.getRoom(roomCode);
+    if (!room || !room.game) {
+      return;
+    }
+
+    // Everything the client keeps about the game until the next room:state, not just the board
+    const { winLength, currentTeam, round, variant, teams, wrapAround, powerUps, clocks } = room.game;
+    this.emitWithBoard(room, 'game:started', {
+      winLength,
+      currentTeam,
+      round,
+      variant,
+      teams,
+      wrapAround,
+      powerUps,
+      clocks,
+      timerSec: room.settings.timerSec,
+      endsAt: room.game.endsAt || 0
+    });
+
+    this.setupTimerUpdates(roomCode);
+    await this.openVotingRound(roomCode);
+  }
+
+  // Start the vote for the current round and let computer players on the voting team cast theirs
+  private async openVotingRound(roomCode: string): Promise<void> {
+    const room = await this.roomService.getRoom(roomCode);
+    const turnManager = this.roomService.getTurnManager(roomCode);
+    if (!room || !room.game || !turnManager) {
+      return;
+    }
+
+    this.armDeadline(roomCode, turnManager, room.game.round);
+    turnManager.startVoting(room.game, room.players, room.settings.timerSec);
+    await this.roomService.persistRoom(roomCode);
+
+    this.io.to(roomCode).emit('game:tick', this.tickPayload(roomCode, room.game));
+
+    await this.runBotVotes(roomCode);
+  }
 
-        const remainingMs = Math.max(0, room.game.endsAt - Date.now());
+  // The deadline resolves the round it was set for, queued behind any vote still being handled
+  private armDeadline(roomCode: string, turnManager: TurnManager, round: number): void {
+    turnManager.setCompletionCallback(roomCode, async (roomCode, result) => {
+      if (!('timeout' in result)) {
+        return;
+      }
+      try {
+        await this.roomService.runCommand(roomCode, () => this.processTurnCompletion(roomCode, round));
+      } catch (error) {
+        console.error('Error resolving turn on timeout:', error);
+      }
+    });
+  }
+
+  // Broadcast the latest tallies and resolve the turn early once the whole team has voted
+  private async handleVotesChanged(roomCode: string): Promise<void> {
+    const room = await this.roomService.getRoom(roomCode);
+    if (room && room.game) {
+      const turnManager = this.roomService.getTurnManager(roomCode);
+      if (turnManager) {
+        // Update the room's perColumnCounts with current team's votes
+        const currentTeamCounts = turnManager.getTeamVoteCounts(room.game, room.players, room.game.currentTeam);
+        room.game.perColumnCounts = currentTeamCounts;
         
-        // Send timer update to all players in the room
-        this.io.to(roomCode).emit('game:tick', { remainingMs });
+        // Send vote update to the voting team only; opponents must not see the tallies
+        this.emitToTeam(roomCode, room.players, room.game.currentTeam, 'game:voteUpdate', { 
+          team: room.game.currentTeam, 
+          counts: currentTeamCounts 
+        });
+        
+        // Also send the updated room state so clients have the latest vote information
+        // Each recipient gets a copy redacted for their team
+        await this.roomService.updateRoomState(room.code, room);
+        await this.broadcastRoomState(roomCode);
 
-        // Schedule next update if time remaining
-        if (remainingMs > 0) {
-          setTimeout(sendTimerUpdate, 1000); // Update every second
+        // Check if all team members have voted for early resolution
+        if (turnManager.hasAllTeamVoted(room.game, room.players)) {
+          await this.processTurnCompletion(roomCode, room.game.round);
         }
-      } catch (error) {
-        console.error('Error sending timer update:', error);
       }
+    }
+  }
+
+  // Let computer players on the voting team cast their votes for the new round
+  private async runBotVotes(roomCode: string): Promise<void> {
+    if (await this.roomService.castBotVotes(roomCode)) {
+      await this.handleVotesChanged(roomCode);
+    }
+  }
+
+  // Time left in the open vote, plus both teams' banks when the room plays with a time control
+  private tickPayload(roomCode: string, game: GameState): { remainingMs: number; clocks?: Partial<Record<Team, number>> } {
+    const remainingMs = Math.max(0, (game.endsAt ?? 0) - Date.now());
+    const clocks = this.roomService.getTurnManager(roomCode)?.getTimeBanks(game);
+    return clocks ? { remainingMs, clocks } : { remainingMs };
+  }
+
+  private setupTimerUpdates(roomCode: string): void {
+    const scheduleTick = () => {
+      const timer = setTimeout(async () => {
+        try {
+          const room = await this.roomService.getRoom(roomCode);
+          // A pause or a newer loop took over while the room was loading
+          if (this.tickTimers.get(roomCode) !== timer) {
+            return;
+          }
+          if (!room || !room.game || !room.game.endsAt) {
+            this.tickTimers.delete(roomCode);
+            return; // No active voting or room doesn't exist
+          }
+
+          const tick = this.tickPayload(roomCode, room.game);
+
+          // Send timer update to all players in the room
+          this.io.to(roomCode).emit('game:tick', tick);
+
+          // Schedule next update if time remaining
+          if (tick.remainingMs > 0) {
+            scheduleTick(); // Update every second
+          } else {
+            this.tickTimers.delete(roomCode);
+          }
+        } catch (error) {
+          console.error('Error sending timer update:', error);
+        }
+      }, 1000);
+      this.tickTimers.set(roomCode, timer);
     };
 
-    // Start timer updates
-    setTimeout(sendTimerUpdate, 1000);
+    // Start timer updates; a room only ever has one loop running
+    this.stopTimerUpdates(roomCode);
+    scheduleTick();
+  }
+
+  private stopTimerUpdates(roomCode: string): void {
+    clearTimeout(this.tickTimers.get(roomCode));
+    this.tickTimers.delete(roomCode);
   }
 
-  private async processTurnCompletion(roomCode: string, turnManager: any, gameState: any, players: any[]): Promise<void> {
-    const result = turnManager.finishVoting(gameState, players);
-    
+  // Play the column chosen in the given round, then end the game or open the next round. Runs inside
+  // the room's command queue, and a round that was already resolved is left alone.
+  private async processTurnCompletion(roomCode: string, round: number): Promise<void> {
+    const result = await this.roomService.resolveTurn(roomCode, round);
+    const room = await this.roomService.getRoom(roomCode);
+    if (!result || !room || !room.game || (!result.moveApplied && !result.gameEnded)) {
+      return;
+    }
+
+    const gameState = room.game;
+    // Notify all players of the move; a team that ran out of time may lose without one
     if (result.moveApplied) {
-      // Notify all players of the move
-      this.io.to(roomCode).emit('game:moveApplied', {
-        board: gameState.board,
+      this.emitWithBoard(room, 'game:moveApplied', {
         lastMove: gameState.lastMove,
-        nextTeam: gameState.currentTeam
+        nextTeam: gameState.currentTeam,
+        tieBreak: result.tieBreak
       });
+    }
 
-      if (result.gameEnded) {
-        // Game is over - update room state
-        const room = await this.roomService.getRoom(roomCode);
-        if (room) {
-          room.state = 'ended';
-          await this.roomService.updateRoomState(roomCode, room);
-        }
-        
-        const resultType = gameState.result?.winner || (gameState.result?.draw ? 'draw' : 'unknown');
-        
-        this.io.to(roomCode).emit('game:ended', {
-          result: resultType,
-          line: gameState.result?.winningLine,
-          scoreboard: players
+    if (result.gameEnded) {
+      // Game is over - update room state and the series score
+      const series = await this.roomService.recordGameEnd(roomCode);
+      
+      const resultType = gameState.result?.winner || (gameState.result?.draw ? 'draw' : 'unknown');
+      
+      // Everyone sees the whole board once the game is over, fog of war or not
+      this.io.to(roomCode).emit('game:ended', {
+        result: resultType,
+        board: gameState.board,
+        line: gameState.result?.winningLine,
+        outOfTime: gameState.result?.outOfTime,
+        scoreboard: room.players,
+        series
+      });
+
+      if (series.winner && room.settings.seriesTarget > 1) {
+        this.io.to(roomCode).emit('series:ended', {
+          winner: series.winner,
+          wins: series.wins,
+          gamesPlayed: series.gamesPlayed
         });
-      } else {
-        // Start next voting round
-        const room = await this.roomService.getRoom(roomCode);
-        if (room && room.game) {
-                      // Set up completion callback for timer expiration - use a stable reference
-            const nextTurnCallback = async (roomCode: string, result: any) => {
-              // Check if this is a timeout notification
-              if (result && 'timeout' in result && result.timeout) {
-                // Handle timeout by processing the turn completion
-                await this.processTurnCompletion(roomCode, turnManager, room.game, room.players);
-              }
-            };
-          turnManager.setCompletionCallback(roomCode, nextTurnCallback);
-          
-          turnManager.startVoting(room.game, room.players, room.settings.timerSec);
-          
-          this.io.to(roomCode).emit('game:tick', {
-            remainingMs: room.settings.timerSec * 1000
-          });
-        }
       }
+    } else {
+      // Start next voting round
+      await this.openVotingRound(roomCode);
     }
   }
 
+  private setupChatHandlers(socket: AuthenticatedSocket): void {
+    socket.on('chat:send', async (data: { roomCode: string; channel: ChatChannel; text: string }, callback) => {
+      try {
+        const message = await this.roomService.runCommand(data.roomCode, () => this.chatService.sendMessage(data.roomCode, socket.playerId!, data.channel, data.text));
+
+        if (message.team) {
+          const room = await this.roomService.getRoom(data.roomCode);
+          this.emitToTeam(data.roomCode, room?.players ?? [], message.team, 'chat:message', message);
+        } else {
+          this.io.to(data.roomCode).emit('chat:message', message);
+        }
+
+        if (callback) callback({ success: true, data: message });
+      } catch (error) {
+        console.error('Error sending chat message:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to send message';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+
+    socket.on('chat:mute', async (data: { roomCode: string; nickname: string; muted: boolean }, callback) => {
+      try {
+        await this.roomService.runCommand(data.roomCode, () => this.chatService.setMuted(data.roomCode, socket.playerId!, data.nickname, data.muted));
+
+        // Everyone sees the updated mute list; the muted player's input gets disabled
+        await this.broadcastRoomState(data.roomCode);
+
+        if (callback) callback({ success: true });
+      } catch (error) {
+        console.error('Error muting player:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Failed to mute player';
+        if (callback) callback({ success: false, error: errorMsg });
+      }
+    });
+  }
+
   private setupDisconnectHandler(socket: AuthenticatedSocket): void {
     socket.on('disconnect', async () => {
       console.log(`Socket disconnected: ${socket.id}`);
       
       this.connectedSockets.delete(socket.id);
       
-      if (socket.roomCode) {
+      const roomCode = socket.roomCode;
+      if (roomCode) {
         try {
-          await this.roomService.leaveRoom(socket.playerId!, socket.roomCode);
+          await this.roomService.runCommand(roomCode, () => this.roomService.leaveRoom(socket.playerId!, roomCode));
           
           // Notify remaining players
-          const room = await this.roomService.getRoom(socket.roomCode);
-          if (room) {
-            this.io.to(socket.roomCode).emit('room:state', room);
-          }
+          await this.broadcastRoomState(roomCode);
         } catch (error) {
           console.error('Error handling disconnect:', error);
         }
@@ -322,6 +629,56 @@ export class SocketServer {
     });
   }
 
+  // Tell clients still in a room the server closed that it is gone, and detach them from it
+  notifyRoomClosed(roomCode: string, reason: RoomCloseReason): void {
+    for (const roomSocket of this.getRoomSockets(roomCode)) {
+      roomSocket.emit('room:closed', { roomCode, reason });
+      roomSocket.leave(roomCode);
+      roomSocket.roomCode = undefined;
+    }
+  }
+
+  // Send each socket in the room its own redacted view of the room
+  private async broadcastRoomState(roomCode: string): Promise<void> {
+    const room = await this.roomService.getRoom(roomCode);
+    if (!room) {
+      return;
+    }
+
+    for (const roomSocket of this.getRoomSockets(roomCode)) {
+      roomSocket.emit('room:state', this.roomService.redactRoomForViewer(room, roomSocket.playerId));
+    }
+  }
+
+  // Board updates carry each socket's own view of the board, which differs per team under fog of war
+  private emitWithBoard(room: Room, event: 'game:started' | 'game:moveApplied', payload: object): void {
+    for (const roomSocket of this.getRoomSockets(room.code)) {
+      roomSocket.emit(event, { ...payload, board: this.roomService.visibleBoard(room, roomSocket.playerId) });
+    }
+  }
+
+  private emitToTeam(roomCode: string, players: Player[], team: Team, event: string, payload: unknown): void {
+    for (const roomSocket of this.getRoomSockets(roomCode)) {
+      const player = players.find(p => p.id === roomSocket.playerId);
+      if (player && player.team === team) {
+        roomSocket.emit(event, payload);
+      }
+    }
+  }
+
+  private getRoomSockets(roomCode: string): AuthenticatedSocket[] {
+    return Array.from(this.connectedSockets.values()).filter(s => s.roomCode === roomCode);
+  }
+
+  private findSocketByPlayerId(playerId: string): AuthenticatedSocket | undefined {
+    for (const connectedSocket of this.connectedSockets.values()) {
+      if (connectedSocket.playerId === playerId) {
+        return connectedSocket;
+      }
+    }
+    return undefined;
+  }
+
   public getIO(): SocketIOServer {
     return this.io;
   }
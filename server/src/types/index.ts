@@ -1,35 +1,184 @@
-export type Team = 'red' | 'yellow';
+export type Team = 'red' | 'yellow' | 'green' | 'blue';
+
+// Every team colour in turn order; rooms play with the first two unless configured otherwise
+export const TEAMS: Team[] = ['red', 'yellow', 'green', 'blue'];
+export const DEFAULT_TEAMS: Team[] = ['red', 'yellow'];
+
+// A board square: a team's piece, a neutral wall from the power-ups rule set, or empty.
+// Fog-of-war views sent to clients mark the squares a team can't see as 'hidden'.
+export type BoardCell = Team | 'wall' | 'hidden' | null;
 
 export interface Player {
-  id: string;          // socket-bound
+  id: string;          // assigned on join; survives reconnects via resume tokens
   nickname: string;
   team: Team;
   isAdmin: boolean;
   matchingVotes: number;
   connected: boolean;
+  bot?: BotSettings | undefined;  // present for server-controlled AI players
+}
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BotSettings {
+  depth: number;        // minimax search depth in plies
+  randomness: number;   // 0-1 chance of playing a random move instead
+}
+
+// Board geometry and win condition; defaults to the classic 6x7 connect-4
+export interface BoardConfig {
+  rows: number;
+  cols: number;
+  winLength: number;
+}
+
+// 'plurality' counts one column per player; 'ranked' takes ordered preferences resolved by instant-runoff
+export type VotingMode = 'plurality' | 'ranked';
+
+// 'popout' lets a team pop one of its own pieces out of the bottom row instead of dropping one;
+// 'powerups' gives each team a few special pieces
+export type GameVariant = 'classic' | 'popout' | 'powerups';
+
+// Special pieces: an anvil clears its column and lands at the bottom, a bomb removes itself and
+// the pieces around where it lands, a wall is a neutral blocker
+export type PowerUp = 'anvil' | 'bomb' | 'wall';
+
+// Special pieces each team starts a power-ups game with
+export const POWER_UP_INVENTORY: Record<PowerUp, number> = { anvil: 1, bomb: 1, wall: 1 };
+
+export type MoveKind = 'drop' | 'pop' | PowerUp;
+
+// The kinds of move each rule set offers, in move id order
+export const MOVE_KINDS: Record<GameVariant, MoveKind[]> = {
+  classic: ['drop'],
+  popout: ['drop', 'pop'],
+  powerups: ['drop', 'anvil', 'bomb', 'wall'],
+};
+
+// What happens to a team whose time bank runs out: it loses, or its moves are played for it
+export type TimeExpiryRule = 'lose' | 'random' | 'ai';
+
+// Chess-clock timing: each team gets a bank of time that only drains while it votes
+export interface TimeControl {
+  bankSec: number;        // starting bank per team
+  incrementSec: number;   // added to the bank after each move made in time
+  onExpiry: TimeExpiryRule;
+}
+
+// Time left on each team's bank; the voting team's bank has been running since runningSince
+export interface TeamClocks {
+  remainingMs: Partial<Record<Team, number>>; // one entry per team in the game
+  incrementMs: number;
+  runningSince?: number | undefined;
+}
+
+export interface RoomSettings extends BoardConfig {
+  timerSec: number;
+  timeControl?: TimeControl | undefined;  // replaces the per-turn timer when set
+  variant?: GameVariant | undefined;      // rule set; classic when unset
+  fogOfWar?: boolean | undefined;         // each team only sees the squares around its own pieces
+  wrapAround?: boolean | undefined;       // left and right edges touch, so lines can wrap round the board
+  teams?: Team[] | undefined;             // 2-4 teams in turn order; red and yellow when unset
+  maxPlayers: number;
+  votingMode: VotingMode;
+  seriesTarget: number;  // games a team must win to take the series; 1 plays standalone games
+  startingTeam: Team;    // opens the first game; later games in a series rotate through the teams
+}
+
+// Most columns a player may rank in a ranked-choice ballot
+export const MAX_RANKED_CHOICES = 3;
+
+// Watches the game without a team: never votes and doesn't take a seat
+export interface Spectator {
+  id: string;
+  nickname: string;
+  connected: boolean;
+}
+
+// 'team' messages only reach the sender's teammates; 'room' reaches everyone including spectators
+export type ChatChannel = 'room' | 'team';
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  nickname: string;
+  channel: ChatChannel;
+  team?: Team | undefined;       // set for team messages
+  text: string;                  // sanitized and profanity-filtered
+  sentAt: number;                // epoch ms
+}
+
+// Most messages kept per room; older ones are dropped
+export const MAX_CHAT_HISTORY = 50;
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// A kicked player; blocks rejoining under the same nickname or session
+export interface RoomBan {
+  nickname: string;
+  playerId: string;
+}
+
+// Running score across rematches; starts over once a team reaches the series target
+export interface SeriesState {
+  wins: Partial<Record<Team, number>>; // one entry per team that played
+  gamesPlayed: number;           // draws included; decides which team starts the next game
+  winner?: Team | undefined;
 }
 
 export interface Room {
   code: string;
   passwordHash?: string | undefined;
+  adminTokenHash?: string | undefined;   // server-only digest of the token returned by room creation
+  awaitingHost?: boolean | undefined;    // created for a host who joins later; no automatic admin until then
   players: Player[];
+  spectators?: Spectator[] | undefined;
+  chat?: ChatMessage[] | undefined;       // bounded history, redacted per viewer
+  mutedIds?: string[] | undefined;        // players/spectators the admin muted in chat
+  teamsLocked?: boolean | undefined;      // players can't switch teams themselves; the admin still can
+  bans?: RoomBan[] | undefined;  // server-only, stripped before sending to clients
   state: 'lobby' | 'active' | 'ended' | 'aborted';
   game?: GameState;
-  settings: { timerSec: number; maxPlayers: number };
+  series?: SeriesState | undefined;
+  settings: RoomSettings;
   createdAt: number;
+  lastActivityAt?: number | undefined;   // epoch ms of the last change; idle rooms are swept
 }
 
+// Why the server closed a room on its own
+export type RoomCloseReason = 'empty' | 'idle' | 'ended';
+
 export interface GameState {
-  board: (Team | null)[][];     // [rows][cols] - 6 rows x 7 columns
+  board: BoardCell[][];          // [rows][cols] - dimensions come from BoardConfig
+  winLength: number;             // pieces in a row needed to win
   currentTeam: Team;
   round: number;
-  votes: Record<string, number>; // playerId -> column (only during voting)
-  perColumnCounts: number[];     // derived during tally
+  variant?: GameVariant;         // rule set; classic when unset
+  teams?: Team[];                // turn order; red and yellow when unset
+  wrapAround?: boolean;          // lines may wrap from the right edge to the left
+  votes: Record<string, number>; // playerId -> move (only during voting); HIDDEN_VOTE when redacted
+  ballots?: Record<string, number[]>; // playerId -> ranked columns, first choice mirrored in votes (ranked rooms only)
+  perColumnCounts: number[];     // derived during tally; one entry per move
   endsAt?: number;               // epoch ms for vote window end
-  lastMove?: { col: number; row: number; team: Team };
-  result?: { winner?: Team; draw?: boolean; winningLine?: {col:number,row:number}[] };
+  pausedRemainingMs?: number;    // vote window left when an admin paused the game; set only while paused
+  lastMove?: { col: number; row: number; team: Team; popped?: boolean; piece?: PowerUp };
+  lastMoves?: Partial<Record<Team, Cell>>; // each team's most recent move, which fog of war doesn't hide
+  lastTieBreak?: TieBreakRule;   // how the last move's vote was decided
+  powerUps?: Partial<Record<Team, Record<PowerUp, number>>>; // special pieces left, in power-ups games
+  clocks?: TeamClocks;           // time banks, in rooms with a time control
+  result?: { winner?: Team; draw?: boolean; winningLine?: {col:number,row:number}[]; outOfTime?: Team };
 }
 
+// Votes, ballots and tallies name moves: move k * cols + c plays the rule set's k-th kind of move in
+// column c, so moves below the column count are plain drops in every rule set
+export const toMove = (kind: MoveKind, col: number, cols: number, variant: GameVariant = 'classic'): number =>
+  MOVE_KINDS[variant].indexOf(kind) * cols + col;
+
+export const fromMove = (move: number, cols: number, variant: GameVariant = 'classic'): { kind: MoveKind | undefined; col: number } =>
+  ({ kind: MOVE_KINDS[variant][Math.floor(move / cols)], col: move % cols });
+
+// Column reported for votes the viewer may see were cast, but not where
+export const HIDDEN_VOTE = -1;
+
 export interface Cell {
   col: number;
   row: number;
@@ -38,44 +187,88 @@ export interface Cell {
 // Socket event types
 export interface SocketEvents {
   // Client to Server
-  'room:create': (data: { password?: string; timerSec?: number }) => void;
-  'room:join': (data: { roomCode: string; nickname: string; password?: string }) => void;
+  'room:create': (data: { password?: string; timerSec?: number; rows?: number; cols?: number; winLength?: number; votingMode?: VotingMode; variant?: GameVariant; fogOfWar?: boolean; wrapAround?: boolean; teams?: Team[]; seriesTarget?: number; timeControl?: TimeControl }) => void;
+  'room:join': (data: { roomCode: string; nickname: string; password?: string; adminToken?: string }) => void;
+  'room:spectate': (data: { roomCode: string; nickname: string; password?: string }) => void;
+  'room:resume': (data: { resumeToken: string; adminToken?: string }) => void;
   'room:start': (data: { roomCode: string }) => void;
-  'room:vote': (data: { roomCode: string; column: number }) => void;
+  'room:vote': (data: { roomCode: string; column?: number; ranking?: number[]; round?: number }) => void;
   'room:rematch': (data: { roomCode: string }) => void;
   'room:kick': (data: { roomCode: string; nickname: string }) => void;
+  'room:updateSettings': (data: { roomCode: string } & Partial<RoomSettings>) => void;
+  'room:switchTeam': (data: { roomCode: string }) => void;
+  'room:movePlayer': (data: { roomCode: string; nickname: string; team: Team }) => void;
+  'room:shuffleTeams': (data: { roomCode: string }) => void;
+  'room:lockTeams': (data: { roomCode: string; locked: boolean }) => void;
+  'room:addBot': (data: { roomCode: string; team?: Team; difficulty?: BotDifficulty | BotSettings }) => void;
+  'room:vsComputer': (data: { roomCode: string; difficulty?: BotDifficulty | BotSettings }) => void;
   'room:leave': (data: { roomCode: string }) => void;
+  'game:pause': (data: { roomCode: string }) => void;
+  'game:resume': (data: { roomCode: string }) => void;
+  'chat:send': (data: { roomCode: string; channel: ChatChannel; text: string }) => void;
+  'chat:mute': (data: { roomCode: string; nickname: string; muted: boolean }) => void;
 
   // Server to Client
   'room:state': (data: Room) => void;
-  'game:started': (data: { board: (Team | null)[][]; currentTeam: Team; round: number; timerSec: number; endsAt: number }) => void;
-  'game:tick': (data: { remainingMs: number }) => void;
+  'room:kicked': (data: { roomCode: string; reason: string }) => void;
+  'room:closed': (data: { roomCode: string; reason: RoomCloseReason }) => void;
+  'game:started': (data: Pick<GameState, 'board' | 'winLength' | 'currentTeam' | 'round' | 'variant' | 'teams' | 'wrapAround' | 'powerUps' | 'clocks'> & { timerSec: number; endsAt: number }) => void;
+  'game:tick': (data: { remainingMs: number; clocks?: Partial<Record<Team, number>> }) => void;
   'game:voteUpdate': (data: { team: Team; counts: number[] }) => void;
-  'game:moveApplied': (data: { board: (Team | null)[][]; lastMove: {col:number,row:number,team:Team}; nextTeam: Team }) => void;
-  'game:ended': (data: { result: 'red'|'yellow'|'draw'; line?: Array<{col:number,row:number}>; scoreboard: Player[] }) => void;
+  'game:moveApplied': (data: { board: BoardCell[][]; lastMove: {col:number,row:number,team:Team,popped?:boolean,piece?:PowerUp}; nextTeam: Team; tieBreak: TieBreakRule }) => void;
+  'game:ended': (data: { result: Team | 'draw'; board: BoardCell[][]; line?: Array<{col:number,row:number}>; outOfTime?: Team; scoreboard: Player[]; series: SeriesState }) => void;
+  'series:ended': (data: { winner: Team; wins: Partial<Record<Team, number>>; gamesPlayed: number }) => void;
+  'chat:message': (data: ChatMessage) => void;
   'error': (data: { code: string; message: string }) => void;
 }
 
 // Abstract interfaces for swappable components
 export interface IGameEngine {
-  newGame(): GameState;
-  isValidMove(board: (Team | null)[][], col: number): boolean;
-  applyMove(board: (Team | null)[][], col: number, team: Team): { board: (Team | null)[][]; row: number };
-  checkWin(board: (Team | null)[][], lastMove: { col: number; row: number; team: Team }): { winner?: Team; winningLine?: Cell[] };
-  isBoardFull(board: (Team | null)[][]): boolean;
-  nextTeam(team: Team): Team;
+  newGame(config?: BoardConfig): GameState;
+  isValidMove(board: BoardCell[][], col: number): boolean;
+  applyMove(board: BoardCell[][], col: number, team: Team): { board: BoardCell[][]; row: number };
+  checkWin(board: BoardCell[][], lastMove: { col: number; row: number; team: Team }, winLength?: number, wrapAround?: boolean): { winner?: Team; winningLine?: Cell[] };
+  isBoardFull(board: BoardCell[][]): boolean;
+  canPop(board: BoardCell[][], col: number, team: Team): boolean;
+  applyPop(board: BoardCell[][], col: number): { board: BoardCell[][]; row: number };
+  checkColumnWins(board: BoardCell[][], col: number, winLength?: number, wrapAround?: boolean): Partial<Record<Team, Cell[]>>;
+  applyPowerUp(board: BoardCell[][], col: number, team: Team, piece: PowerUp, wrapAround?: boolean): { board: BoardCell[][]; row: number };
+  checkBoardWins(board: BoardCell[][], winLength?: number, wrapAround?: boolean): Partial<Record<Team, Cell[]>>;
+  fogView(board: BoardCell[][], team: Team | undefined, revealed: Cell[], wrapAround?: boolean): BoardCell[][];
+  nextTeam(team: Team, teams?: Team[]): Team;
 }
 
+// Stores hand back the same Room object from getRoom until it is deleted; services mutate
+// rooms in place and call updateRoom to persist the change.
 export interface IRoomStore {
   createRoom(room: Room): Promise<void>;
   getRoom(code: string): Promise<Room | null>;
   updateRoom(code: string, room: Room): Promise<void>;
   deleteRoom(code: string): Promise<void>;
+  listRooms(): Promise<Room[]>;
+}
+
+// How a turn's column was picked: 'none' for a clear majority, 'captain' when the
+// team captain's vote settled a tie, otherwise the fallback rule that was used
+export type TieBreakRule = 'none' | 'captain' | 'random' | 'center' | 'leftmost';
+export type TieBreakFallback = Exclude<TieBreakRule, 'none' | 'captain'>;
+
+export interface TurnContext {
+  votes: Record<string, number>;
+  ballots?: Record<string, number[]> | undefined;
+  captainId?: string | undefined;
+  columnCount?: number | undefined;  // board width, for telling PopOut pops from drops
+}
+
+export interface TurnDecision {
+  column: number;
+  tieBreak: TieBreakRule;
 }
 
 export interface ITurnDecider {
-  tallyVotes(votes: Record<string, number>, validCols: number[]): number[];
+  tallyVotes(votes: Record<string, number>, validCols: number[], columnCount?: number): number[];
   decideColumn(perColumnCounts: number[], validCols?: number[]): number;
+  decideTurn(perColumnCounts: number[], validCols: number[], context: TurnContext): TurnDecision;
 }
 
 export interface IAccessControl {
@@ -87,6 +280,21 @@ export interface IAccessControl {
   sanitizeNickname(nickname: string): string;
 }
 
+export interface IChatFilter {
+  validateMessage(text: string): { valid: boolean; error?: string };
+  sanitizeMessage(text: string): string;
+}
+
+export interface SessionClaims {
+  roomCode: string;
+  playerId: string;
+}
+
+export interface ISessionTokens {
+  issue(roomCode: string, playerId: string): string;
+  verify(token: string): SessionClaims | null;
+}
+
 export interface IClock {
   now(): number;
   setTimeout(callback: () => void, delay: number): NodeJS.Timeout;
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChatFilter } from '../src/services/ChatFilter';
+import { ChatService } from '../src/services/ChatService';
+import { RoomService } from '../src/services/RoomService';
+import { InMemoryRoomStore } from '../src/services/InMemoryRoomStore';
+import { AccessControl } from '../src/services/AccessControl';
+import { GameEngine } from '../src/engine/GameEngine';
+import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { HmacSessionTokens } from '../src/services/SessionTokens';
+import { FakeClock } from '../src/utils/Clock';
+import { MAX_CHAT_HISTORY, MAX_CHAT_MESSAGE_LENGTH } from '../src/types';
+
+describe('ChatFilter', () => {
+  const chatFilter = new ChatFilter();
+
+  it('should reject empty and whitespace-only messages', () => {
+    expect(chatFilter.validateMessage('').valid).toBe(false);
+    expect(chatFilter.validateMessage('   \n\t ').valid).toBe(false);
+  });
+
+  it('should reject messages over the length limit', () => {
+    expect(chatFilter.validateMessage('a'.repeat(MAX_CHAT_MESSAGE_LENGTH)).valid).toBe(true);
+    expect(chatFilter.validateMessage('a'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1)).valid).toBe(false);
+  });
+
+  it('should collapse whitespace and strip invisible characters', () => {
+    expect(chatFilter.sanitizeMessage('  go\u200B   left\n\nnow ')).toBe('go left now');
+  });
+
+  it('should mask profanity regardless of case', () => {
+    expect(chatFilter.sanitizeMessage('Oh SHIT, they blocked us')).toBe('Oh ****, they blocked us');
+    expect(chatFilter.sanitizeMessage('what the fucking move')).toBe('what the ******* move');
+  });
+
+  it('should leave words that merely contain a blocked word alone', () => {
+    expect(chatFilter.sanitizeMessage('Scrapbook in Scunthorpe')).toBe('Scrapbook in Scunthorpe');
+  });
+});
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  let roomService: RoomService;
+  let roomStore: InMemoryRoomStore;
+  let clock: FakeClock;
+  let roomCode: string;
+
+  beforeEach(async () => {
+    roomStore = new InMemoryRoomStore();
+    clock = new FakeClock();
+    roomService = new RoomService(
+      roomStore,
+      new AccessControl(4),
+      new GameEngine(),
+      new MajorityTurnDecider(),
+      clock,
+      new HmacSessionTokens('test-secret')
+    );
+    chatService = new ChatService(roomStore, new ChatFilter(), clock);
+
+    const created = await roomService.createRoom({});
+    roomCode = created.roomCode;
+
+    await roomService.joinRoom('admin', { roomCode, nickname: 'Admin' });   // red
+    await roomService.joinRoom('p2', { roomCode, nickname: 'Troll' });      // yellow
+    await roomService.joinRoom('p3', { roomCode, nickname: 'Player3' });    // red
+    await roomService.spectateRoom('s1', { roomCode, nickname: 'Watcher' });
+  });
+
+  describe('sendMessage', () => {
+    it('should store a sanitized message with the sender and time', async () => {
+      clock.setTime(1234);
+      const message = await chatService.sendMessage(roomCode, 'p2', 'room', '  gg   shit happens ');
+
+      expect(message).toMatchObject({ senderId: 'p2', nickname: 'Troll', channel: 'room', text: 'gg **** happens', sentAt: 1234 });
+      expect(message.team).toBeUndefined();
+      const room = await roomStore.getRoom(roomCode);
+      expect(room?.chat).toEqual([message]);
+    });
+
+    it('should tag team messages with the sender team', async () => {
+      const message = await chatService.sendMessage(roomCode, 'p3', 'team', 'go center');
+      expect(message.team).toBe('red');
+    });
+
+    it('should let spectators use room chat but not team chat', async () => {
+      const message = await chatService.sendMessage(roomCode, 's1', 'room', 'nice move');
+      expect(message.nickname).toBe('Watcher');
+
+      await expect(chatService.sendMessage(roomCode, 's1', 'team', 'psst'))
+        .rejects.toMatchObject({ code: 'INVALID_CHANNEL' });
+    });
+
+    it('should reject strangers and invalid messages', async () => {
+      await expect(chatService.sendMessage(roomCode, 'nobody', 'room', 'hi'))
+        .rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+      await expect(chatService.sendMessage(roomCode, 'p2', 'room', '   '))
+        .rejects.toMatchObject({ code: 'INVALID_MESSAGE' });
+      await expect(chatService.sendMessage(roomCode, 'p2', 'whisper' as never, 'hi'))
+        .rejects.toMatchObject({ code: 'INVALID_CHANNEL' });
+    });
+
+    it('should keep only the most recent messages', async () => {
+      for (let i = 0; i < MAX_CHAT_HISTORY + 5; i++) {
+        await chatService.sendMessage(roomCode, 'p2', 'room', `message ${i}`);
+      }
+
+      const room = await roomStore.getRoom(roomCode);
+      expect(room?.chat).toHaveLength(MAX_CHAT_HISTORY);
+      expect(room?.chat?.[0]?.text).toBe('message 5');
+      expect(room?.chat?.[MAX_CHAT_HISTORY - 1]?.text).toBe(`message ${MAX_CHAT_HISTORY + 4}`);
+    });
+  });
+
+  describe('setMuted', () => {
+    it('should block muted players until they are unmuted', async () => {
+      await chatService.setMuted(roomCode, 'admin', 'troll', true);
+      await expect(chatService.sendMessage(roomCode, 'p2', 'room', 'spam'))
+        .rejects.toMatchObject({ code: 'CHAT_MUTED' });
+
+      await chatService.setMuted(roomCode, 'admin', 'Troll', false);
+      await expect(chatService.sendMessage(roomCode, 'p2', 'room', 'sorry')).resolves.toBeDefined();
+    });
+
+    it('should mute spectators too', async () => {
+      const target = await chatService.setMuted(roomCode, 'admin', 'Watcher', true);
+      expect(target.id).toBe('s1');
+
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.mutedIds).toEqual(['s1']);
+    });
+
+    it('should only let the admin mute', async () => {
+      await expect(chatService.setMuted(roomCode, 'p2', 'Admin', true))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(chatService.setMuted(roomCode, 'admin', 'Admin', true))
+        .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+      await expect(chatService.setMuted(roomCode, 'admin', 'Ghost', true))
+        .rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+    });
+  });
+
+  describe('redaction', () => {
+    it('should show team messages only to that team', async () => {
+      await chatService.sendMessage(roomCode, 'admin', 'team', 'red plan');
+      await chatService.sendMessage(roomCode, 'p2', 'team', 'yellow plan');
+      await chatService.sendMessage(roomCode, 'p2', 'room', 'hello all');
+
+      const room = (await roomService.getRoom(roomCode))!;
+      const texts = (viewerId?: string) => roomService.redactRoomForViewer(room, viewerId).chat?.map(m => m.text);
+
+      expect(texts('p3')).toEqual(['red plan', 'hello all']);
+      expect(texts('p2')).toEqual(['yellow plan', 'hello all']);
+      expect(texts('s1')).toEqual(['hello all']);
+      expect(texts(undefined)).toEqual(['hello all']);
+    });
+  });
+});
@@ -24,6 +24,17 @@ describe('GameEngine', () => {
       expect(game.lastMove).toBeUndefined();
       expect(game.result).toBeUndefined();
     });
+
+    it('should create a board with custom dimensions and win length', () => {
+      const game = engine.newGame({ rows: 8, cols: 9, winLength: 5 });
+      
+      expect(game.board).toHaveLength(8);
+      game.board.forEach(row => {
+        expect(row).toHaveLength(9);
+      });
+      expect(game.winLength).toBe(5);
+      expect(game.perColumnCounts).toHaveLength(9);
+    });
   });
 
   describe('isValidMove', () => {
@@ -180,6 +191,116 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('wrap-around', () => {
+    it('should connect a row across the side edges', () => {
+      const game = engine.newGame();
+      for (const col of [5, 6, 0, 1]) {
+        game.board[5]![col] = 'red';
+      }
+
+      expect(engine.checkWin(game.board, { col: 0, row: 5, team: 'red' }).winner).toBeUndefined();
+      const result = engine.checkWin(game.board, { col: 0, row: 5, team: 'red' }, 4, true);
+      expect(result.winner).toBe('red');
+      expect(result.winningLine).toEqual([
+        { col: 5, row: 5 },
+        { col: 6, row: 5 },
+        { col: 0, row: 5 },
+        { col: 1, row: 5 }
+      ]);
+    });
+
+    it('should connect a diagonal across the side edges', () => {
+      const game = engine.newGame();
+      game.board[5]![5] = 'yellow';
+      game.board[4]![6] = 'yellow';
+      game.board[3]![0] = 'yellow';
+      game.board[2]![1] = 'yellow';
+
+      const result = engine.checkWin(game.board, { col: 1, row: 2, team: 'yellow' }, 4, true);
+      expect(result.winningLine).toEqual([
+        { col: 5, row: 5 },
+        { col: 6, row: 4 },
+        { col: 0, row: 3 },
+        { col: 1, row: 2 }
+      ]);
+    });
+
+    it('should not count a full row round the board more than once', () => {
+      const game = engine.newGame({ rows: 6, cols: 4, winLength: 5 });
+      game.board[5] = ['red', 'red', 'red', 'red'];
+
+      expect(engine.checkWin(game.board, { col: 2, row: 5, team: 'red' }, 5, true).winner).toBeUndefined();
+      expect(engine.checkBoardWins(game.board, 4, true).red).toHaveLength(4);
+    });
+
+    it('should clear and settle the column across the edge from a bomb', () => {
+      const game = engine.newGame();
+      for (const row of [5, 4, 3, 2]) {
+        game.board[row]![6] = row % 2 === 0 ? 'yellow' : 'red';
+      }
+      game.board[5]![0] = 'red';
+      game.board[4]![0] = 'yellow';
+
+      const flat = engine.applyPowerUp(game.board, 0, 'red', 'bomb');
+      expect(flat.board.map(r => r[6])).toEqual([null, null, 'yellow', 'red', 'yellow', 'red']);
+
+      const { board, row } = engine.applyPowerUp(game.board, 0, 'red', 'bomb', true);
+      expect(row).toBe(3);
+      expect(board.map(r => r[6])).toEqual([null, null, null, null, null, 'red']);
+      expect(board.map(r => r[0])).toEqual([null, null, null, null, null, 'red']);
+    });
+
+    it('should show the squares across the edge from a team\'s pieces under fog', () => {
+      const game = engine.newGame();
+      game.board[5]![0] = 'red';
+      game.board[5]![6] = 'yellow';
+
+      expect(engine.fogView(game.board, 'red', [])[5]![6]).toBe('hidden');
+      const view = engine.fogView(game.board, 'red', [], true);
+      expect(view[5]![6]).toBe('yellow');
+      expect(view[4]![6]).toBeNull();
+      expect(view[5]![5]).toBe('hidden');
+    });
+  });
+
+  describe('custom board sizes', () => {
+    const config = { rows: 10, cols: 12, winLength: 5 };
+
+    it('should accept moves in columns beyond the classic width', () => {
+      const game = engine.newGame(config);
+      expect(engine.isValidMove(game.board, 11)).toBe(true);
+      expect(engine.isValidMove(game.board, 12)).toBe(false);
+    });
+
+    it('should drop pieces to the bottom of a taller board', () => {
+      const game = engine.newGame(config);
+      const result = engine.applyMove(game.board, 11, 'red');
+      expect(result.row).toBe(9);
+      expect(result.board[9]![11]).toBe('red');
+    });
+
+    it('should require winLength pieces in a row to win', () => {
+      const game = engine.newGame(config);
+      for (let col = 7; col < 11; col++) {
+        game.board[9]![col] = 'red';
+      }
+      
+      expect(engine.checkWin(game.board, { col: 10, row: 9, team: 'red' }, 5).winner).toBeUndefined();
+      
+      game.board[9]![11] = 'red';
+      const result = engine.checkWin(game.board, { col: 11, row: 9, team: 'red' }, 5);
+      expect(result.winner).toBe('red');
+      expect(result.winningLine).toHaveLength(5);
+      expect(result.winningLine![0]).toEqual({ col: 7, row: 9 });
+    });
+
+    it('should detect a full board of any width', () => {
+      const game = engine.newGame(config);
+      game.board[0] = game.board[0]!.map(() => 'yellow');
+      expect(engine.isBoardFull(game.board)).toBe(true);
+    });
+  });
+
   describe('isBoardFull', () => {
     it('should return false for empty board', () => {
       const game = engine.newGame();
@@ -205,10 +326,153 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('PopOut', () => {
+    it('should only let a team pop its own piece from the bottom row', () => {
+      const game = engine.newGame();
+      game.board[5]![0] = 'red';
+      game.board[4]![1] = 'red';
+      game.board[5]![1] = 'yellow';
+
+      expect(engine.canPop(game.board, 0, 'red')).toBe(true);
+      expect(engine.canPop(game.board, 0, 'yellow')).toBe(false);
+      expect(engine.canPop(game.board, 1, 'red')).toBe(false);
+      expect(engine.canPop(game.board, 2, 'red')).toBe(false);
+    });
+
+    it('should shift the column down after a pop without changing the input', () => {
+      const game = engine.newGame();
+      game.board[5]![2] = 'red';
+      game.board[4]![2] = 'yellow';
+      game.board[3]![2] = 'red';
+
+      const { board, row } = engine.applyPop(game.board, 2);
+
+      expect(row).toBe(5);
+      expect(board.map(r => r[2])).toEqual([null, null, null, null, 'red', 'yellow']);
+      expect(game.board[5]![2]).toBe('red');
+      expect(() => engine.applyPop(game.board, 3)).toThrow('Invalid pop');
+    });
+
+    it('should find lines for both teams through a column', () => {
+      const game = engine.newGame();
+      // Red across row 5, yellow across row 4, both through column 3
+      for (let col = 0; col < 4; col++) {
+        game.board[5]![col] = 'red';
+        game.board[4]![col] = 'yellow';
+      }
+
+      const wins = engine.checkColumnWins(game.board, 3);
+
+      expect(wins.red).toHaveLength(4);
+      expect(wins.yellow).toHaveLength(4);
+      expect(engine.checkColumnWins(game.board, 5)).toEqual({});
+    });
+  });
+
+  describe('power-ups', () => {
+    it('should crush the column under an anvil and leave the team\'s piece at the bottom', () => {
+      const game = engine.newGame();
+      game.board[5]![0] = 'red';
+      game.board[4]![0] = 'yellow';
+      game.board[3]![0] = 'wall';
+
+      const { board, row } = engine.applyPowerUp(game.board, 0, 'yellow', 'anvil');
+
+      expect(row).toBe(5);
+      expect(board.map(r => r[0])).toEqual([null, null, null, null, null, 'yellow']);
+      expect(game.board[4]![0]).toBe('yellow');
+    });
+
+    it('should clear around a bomb and let the neighbouring columns settle', () => {
+      const game = engine.newGame();
+      game.board[5]![3] = 'red';
+      game.board[4]![3] = 'yellow';
+      (['yellow', 'red', 'yellow', 'red', 'yellow'] as const).forEach((team, i) => {
+        game.board[5 - i]![2] = team;
+      });
+      game.board[5]![4] = 'red';
+
+      const { board, row } = engine.applyPowerUp(game.board, 3, 'red', 'bomb');
+
+      expect(row).toBe(3);
+      expect(board.map(r => r[2])).toEqual([null, null, null, null, 'yellow', 'yellow']);
+      expect(board.map(r => r[3])).toEqual([null, null, null, null, null, 'red']);
+      expect(board.map(r => r[4])).toEqual([null, null, null, null, null, 'red']);
+    });
+
+    it('should drop a wall that blocks lines for both teams', () => {
+      const game = engine.newGame();
+      game.board[5]![0] = 'red';
+      game.board[5]![1] = 'red';
+      game.board[5]![3] = 'red';
+
+      const { board, row } = engine.applyPowerUp(game.board, 2, 'red', 'wall');
+
+      expect(board[row]![2]).toBe('wall');
+      expect(engine.checkWin(board, { col: 3, row: 5, team: 'red' }).winner).toBeUndefined();
+      expect(engine.checkBoardWins(board)).toEqual({});
+    });
+
+    it('should not play a special piece into a full column', () => {
+      const game = engine.newGame();
+      for (let row = 0; row < 6; row++) {
+        game.board[row]![1] = row % 2 === 0 ? 'red' : 'yellow';
+      }
+
+      expect(() => engine.applyPowerUp(game.board, 1, 'red', 'anvil')).toThrow();
+    });
+
+    it('should find lines anywhere on the board for both teams', () => {
+      const game = engine.newGame();
+      for (let row = 2; row < 6; row++) {
+        game.board[row]![0] = 'red';
+        game.board[row]![6] = 'yellow';
+      }
+
+      const wins = engine.checkBoardWins(game.board);
+
+      expect(wins.red).toHaveLength(4);
+      expect(wins.yellow).toHaveLength(4);
+    });
+  });
+
+  describe('fogView', () => {
+    it('should hide everything but the squares around the team\'s pieces and the revealed ones', () => {
+      const game = engine.newGame();
+      game.board[5]![1] = 'red';
+      game.board[5]![5] = 'yellow';
+      game.board[4]![5] = 'yellow';
+
+      const view = engine.fogView(game.board, 'red', [{ col: 5, row: 4 }]);
+
+      expect(view[5]!.slice(0, 4)).toEqual([null, 'red', null, 'hidden']);
+      expect(view[4]!.slice(0, 4)).toEqual([null, null, null, 'hidden']);
+      expect(view[4]![5]).toBe('yellow');
+      expect(view[5]![5]).toBe('hidden');
+      expect(game.board[5]![5]).toBe('yellow');
+    });
+
+    it('should show viewers without a team only the revealed squares', () => {
+      const game = engine.newGame();
+      game.board[5]![1] = 'red';
+
+      const view = engine.fogView(game.board, undefined, []);
+
+      expect(view.flat().every(cell => cell === 'hidden')).toBe(true);
+    });
+  });
+
   describe('nextTeam', () => {
     it('should alternate between red and yellow', () => {
       expect(engine.nextTeam('red')).toBe('yellow');
       expect(engine.nextTeam('yellow')).toBe('red');
     });
+
+    it('should rotate through a longer team list', () => {
+      const teams = ['red', 'yellow', 'green', 'blue'] as const;
+
+      expect(engine.nextTeam('yellow', [...teams])).toBe('green');
+      expect(engine.nextTeam('blue', [...teams])).toBe('red');
+    });
   });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { MinimaxAI, BOT_DIFFICULTIES, SEARCH_BUDGET_MS } from '../src/engine/MinimaxAI';
+import { GameEngine } from '../src/engine/GameEngine';
+import { BOARD_LIMITS, BOT_LIMITS } from '../src/services/RoomService';
+import type { BoardCell, Team } from '../src/types';
+
+describe('MinimaxAI', () => {
+  const engine = new GameEngine();
+  const deterministic = () => 0.99;
+
+  const play = (board: BoardCell[][], moves: Array<[number, Team]>) =>
+    moves.reduce((current, [col, team]) => engine.applyMove(current, col, team).board, board);
+
+  describe('chooseColumn', () => {
+    it('should take an immediate win', () => {
+      const ai = new MinimaxAI(engine, { depth: 3, randomness: 0 }, deterministic);
+      const board = play(engine.newGame().board, [
+        [0, 'red'], [6, 'yellow'],
+        [1, 'red'], [6, 'yellow'],
+        [2, 'red'], [5, 'yellow']
+      ]);
+
+      expect(ai.chooseColumn(board, 'red', 4)).toBe(3);
+    });
+
+    it('should block the opponent\'s winning move', () => {
+      const ai = new MinimaxAI(engine, { depth: 3, randomness: 0 }, deterministic);
+      const board = play(engine.newGame().board, [
+        [0, 'yellow'], [1, 'red'],
+        [0, 'yellow'], [6, 'red'],
+        [0, 'yellow']
+      ]);
+
+      expect(ai.chooseColumn(board, 'red', 4)).toBe(0);
+    });
+
+    it('should find the winning move at the deepest difficulty', () => {
+      const ai = new MinimaxAI(engine, BOT_DIFFICULTIES.hard, deterministic);
+      const board = play(engine.newGame().board, [
+        [3, 'yellow'], [4, 'red'],
+        [3, 'yellow'], [4, 'red'],
+        [3, 'yellow'], [5, 'red']
+      ]);
+
+      expect(ai.chooseColumn(board, 'yellow', 4)).toBe(3);
+    });
+
+    it('should respect custom board sizes and win lengths', () => {
+      const ai = new MinimaxAI(engine, { depth: 2, randomness: 0 }, deterministic);
+      const board = play(engine.newGame({ rows: 8, cols: 9, winLength: 5 }).board, [
+        [4, 'red'], [4, 'yellow'],
+        [5, 'red'], [5, 'yellow'],
+        [6, 'red'], [6, 'yellow'],
+        [7, 'red'], [0, 'yellow']
+      ]);
+
+      // Column 3 completes five in a row; column 8 also would
+      expect([3, 8]).toContain(ai.chooseColumn(board, 'red', 5));
+    });
+
+    it('should only choose columns that are not full', () => {
+      const ai = new MinimaxAI(engine, BOT_DIFFICULTIES.easy, Math.random);
+      let board = engine.newGame({ rows: 4, cols: 4, winLength: 3 }).board;
+      board = play(board, [[0, 'red'], [0, 'yellow'], [0, 'red'], [0, 'yellow']]);
+
+      for (let i = 0; i < 20; i++) {
+        expect(ai.chooseColumn(board, 'red', 3)).not.toBe(0);
+      }
+    });
+
+    it('should throw when the board is full', () => {
+      const ai = new MinimaxAI(engine, BOT_DIFFICULTIES.easy, deterministic);
+      const board = engine.newGame({ rows: 4, cols: 4, winLength: 4 }).board
+        .map(row => row.map((): Team => 'red'));
+
+      expect(() => ai.chooseColumn(board, 'red', 4)).toThrow('No valid moves');
+    });
+
+    it('should sometimes play a random move when randomness is set', () => {
+      const rolls = [0, 0];
+      const ai = new MinimaxAI(engine, { depth: 3, randomness: 0.5 }, () => rolls.shift() ?? 0);
+      const board = play(engine.newGame().board, [
+        [1, 'red'], [6, 'yellow'],
+        [2, 'red'], [6, 'yellow'],
+        [3, 'red'], [5, 'yellow']
+      ]);
+
+      // A roll below the randomness threshold skips the search, missing the win in column 0 or 4
+      expect(ai.chooseColumn(board, 'red', 4)).toBe(3);
+    });
+
+    it('should see wins that wrap round the side edges', () => {
+      const ai = new MinimaxAI(engine, { depth: 1, randomness: 0 }, deterministic);
+      const board = play(engine.newGame().board, [
+        [5, 'red'], [2, 'yellow'],
+        [6, 'red'], [2, 'yellow'],
+        [0, 'red'], [3, 'yellow']
+      ]);
+
+      // Column 1 completes 5-6-0-1 round the back; column 4 would connect 4-5-6-0 too
+      expect([1, 4]).toContain(ai.chooseColumn(board, 'red', 4, ['red', 'yellow'], true));
+    });
+
+    it('should answer within its time budget on the largest board', () => {
+      const ai = new MinimaxAI(engine, { depth: BOT_LIMITS.maxDepth, randomness: 0 }, deterministic);
+      const board = play(engine.newGame({ rows: BOARD_LIMITS.maxRows, cols: BOARD_LIMITS.maxCols, winLength: 4 }).board, [
+        [6, 'red'], [7, 'yellow'],
+        [5, 'red'], [8, 'yellow']
+      ]);
+
+      const started = Date.now();
+      const col = ai.chooseColumn(board, 'red', 4);
+
+      expect(Date.now() - started).toBeLessThan(SEARCH_BUDGET_MS * 2);
+      expect(engine.isValidMove(board, col)).toBe(true);
+    });
+
+    it('should play the deepest finished search once time runs out', () => {
+      // The clock jumps past the deadline straight after the search starts
+      const times = [0];
+      const ai = new MinimaxAI(engine, BOT_DIFFICULTIES.hard, deterministic, () => times.shift() ?? SEARCH_BUDGET_MS + 1);
+      const board = play(engine.newGame().board, [
+        [0, 'red'], [6, 'yellow'],
+        [1, 'red'], [6, 'yellow'],
+        [2, 'red'], [5, 'yellow']
+      ]);
+
+      expect(ai.chooseColumn(board, 'red', 4)).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { RoomCommandQueue } from '../src/services/RoomCommandQueue';
+
+// A promise the test settles by hand
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RoomCommandQueue', () => {
+  it('should run commands for one room one at a time, in order', async () => {
+    const queue = new RoomCommandQueue();
+    const log: string[] = [];
+    const gate = deferred();
+
+    const first = queue.run('ROOM22', async () => {
+      log.push('first:start');
+      await gate.promise;
+      log.push('first:end');
+    });
+    const second = queue.run('ROOM22', async () => {
+      log.push('second');
+    });
+
+    await flush();
+    expect(log).toEqual(['first:start']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(log).toEqual(['first:start', 'first:end', 'second']);
+  });
+
+  it('should not make other rooms wait', async () => {
+    const queue = new RoomCommandQueue();
+    const gate = deferred();
+    let otherRan = false;
+
+    const blocked = queue.run('ROOM22', () => gate.promise);
+    await queue.run('OTHER2', async () => {
+      otherRan = true;
+    });
+
+    expect(otherRan).toBe(true);
+    gate.resolve();
+    await blocked;
+  });
+
+  it('should pass results back and keep going after a failure', async () => {
+    const queue = new RoomCommandQueue();
+
+    const failing = queue.run('ROOM22', async () => {
+      throw new Error('boom');
+    });
+    const next = queue.run('ROOM22', async () => 42);
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe(42);
+  });
+});
@@ -0,0 +1,1201 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RoomService, MAX_ROOM_CODE_ATTEMPTS } from '../src/services/RoomService';
+import type { JoinRoomResponse } from '../src/services/RoomService';
+import { InMemoryRoomStore } from '../src/services/InMemoryRoomStore';
+import { SqliteRoomStore } from '../src/services/SqliteRoomStore';
+import { AccessControl } from '../src/services/AccessControl';
+import { GameEngine } from '../src/engine/GameEngine';
+import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { HmacSessionTokens } from '../src/services/SessionTokens';
+import { FakeClock } from '../src/utils/Clock';
+import { HIDDEN_VOTE, toMove } from '../src/types';
+
+describe('RoomService', () => {
+  let roomService: RoomService;
+  let roomStore: InMemoryRoomStore;
+  let clock: FakeClock;
+  let sessionTokens: HmacSessionTokens;
+  let roomCode: string;
+
+  beforeEach(async () => {
+    roomStore = new InMemoryRoomStore();
+    clock = new FakeClock();
+    sessionTokens = new HmacSessionTokens('test-secret');
+    roomService = new RoomService(
+      roomStore,
+      new AccessControl(4),
+      new GameEngine(),
+      new MajorityTurnDecider(),
+      clock,
+      sessionTokens
+    );
+
+    const created = await roomService.createRoom({});
+    roomCode = created.roomCode;
+
+    await roomService.joinRoom('admin', { roomCode, nickname: 'Admin' });
+    await roomService.joinRoom('p2', { roomCode, nickname: 'Troll' });
+    await roomService.joinRoom('p3', { roomCode, nickname: 'Player3' });
+  });
+
+  describe('createRoom', () => {
+    it('should store board settings with the room', async () => {
+      const created = await roomService.createRoom({ rows: 8, cols: 9, winLength: 5 });
+      const room = await roomService.getRoom(created.roomCode);
+
+      expect(room?.settings).toMatchObject({ rows: 8, cols: 9, winLength: 5 });
+    });
+
+    it('should default to plurality voting', async () => {
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.settings.votingMode).toBe('plurality');
+    });
+
+    it('should carry the PopOut rule set into its games', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { variant: 'popout' });
+      await roomService.startGame(roomCode, 'admin');
+
+      expect((await roomStore.getRoom(roomCode))?.game?.variant).toBe('popout');
+      await expect(roomService.createRoom({ variant: 'popin' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+
+    it('should hand each team its special pieces in power-ups games', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { variant: 'powerups' });
+      await roomService.startGame(roomCode, 'admin');
+
+      const game = (await roomStore.getRoom(roomCode))?.game;
+      expect(game?.variant).toBe('powerups');
+      expect(game?.powerUps).toEqual({
+        red: { anvil: 1, bomb: 1, wall: 1 },
+        yellow: { anvil: 1, bomb: 1, wall: 1 },
+      });
+    });
+
+    it('should carry the wrap-around board into its games', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { wrapAround: true });
+      await roomService.startGame(roomCode, 'admin');
+
+      expect((await roomStore.getRoom(roomCode))?.game?.wrapAround).toBe(true);
+      await expect(roomService.createRoom({ wrapAround: 'yes' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+
+    it('should reject unknown voting modes', async () => {
+      await expect(roomService.createRoom({ votingMode: 'approval' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+
+    it('should reject a win length that does not fit the board', async () => {
+      await expect(roomService.createRoom({ rows: 4, cols: 4, winLength: 5 }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+
+    it('should reject series targets outside the supported range', async () => {
+      await expect(roomService.createRoom({ seriesTarget: 0 }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      await expect(roomService.createRoom({ seriesTarget: 2.5 }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+  });
+
+  describe('room codes', () => {
+    it('should draw a new code when the generated one is taken', async () => {
+      const generate = vi.spyOn(AccessControl.prototype, 'generateRoomCode')
+        .mockReturnValueOnce(roomCode)
+        .mockReturnValueOnce('FRESH2');
+
+      const created = await roomService.createRoom({});
+
+      expect(created.roomCode).toBe('FRESH2');
+      expect((await roomService.getRoom(roomCode))?.players).toHaveLength(3);
+      generate.mockRestore();
+    });
+
+    it('should give up after a bounded number of collisions', async () => {
+      const generate = vi.spyOn(AccessControl.prototype, 'generateRoomCode').mockReturnValue(roomCode);
+
+      await expect(roomService.createRoom({})).rejects.toMatchObject({ code: 'ROOM_CODE_UNAVAILABLE' });
+      expect(generate).toHaveBeenCalledTimes(MAX_ROOM_CODE_ATTEMPTS);
+      generate.mockRestore();
+    });
+
+    it('should create the room under a requested vanity code', async () => {
+      const created = await roomService.createRoom({ vanityCode: ' fridayfun ' });
+
+      expect(created.roomCode).toBe('FRIDAYFUN');
+      expect(await roomService.getRoom('FRIDAYFUN')).not.toBeNull();
+    });
+
+    it('should reject malformed vanity codes', async () => {
+      await expect(roomService.createRoom({ vanityCode: 'FUN' }))
+        .rejects.toMatchObject({ code: 'INVALID_ROOM_CODE' });
+      await expect(roomService.createRoom({ vanityCode: 'FRIDAY-FUN' }))
+        .rejects.toMatchObject({ code: 'INVALID_ROOM_CODE' });
+    });
+
+    it('should reject a vanity code that is already in use', async () => {
+      await expect(roomService.createRoom({ vanityCode: roomCode.toLowerCase() }))
+        .rejects.toMatchObject({ code: 'ROOM_CODE_TAKEN' });
+      expect((await roomService.getRoom(roomCode))?.players).toHaveLength(3);
+    });
+
+    it('should give a vanity code to only one of two rooms created at once', async () => {
+      const results = await Promise.allSettled([
+        roomService.createRoom({ vanityCode: 'FRIDAYFUN' }),
+        roomService.createRoom({ vanityCode: 'FRIDAYFUN' })
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { code: 'ROOM_CODE_TAKEN' } });
+    });
+  });
+
+  describe('series', () => {
+    let seriesCode: string;
+
+    // Finish the running game with `winner` taking it (or a draw) and record the result
+    const finishGame = async (winner?: 'red' | 'yellow') => {
+      const room = await roomStore.getRoom(seriesCode);
+      room!.game!.result = winner ? { winner } : { draw: true };
+      return roomService.recordGameEnd(seriesCode);
+    };
+
+    beforeEach(async () => {
+      seriesCode = (await roomService.createRoom({ seriesTarget: 2 })).roomCode;
+      await roomService.joinRoom('s1', { roomCode: seriesCode, nickname: 'Alice' });
+      await roomService.joinRoom('s2', { roomCode: seriesCode, nickname: 'Bob' });
+      await roomService.startGame(seriesCode, 's1');
+    });
+
+    it('should start a new room with an empty series', async () => {
+      const room = await roomService.getRoom(seriesCode);
+      expect(room?.series).toEqual({ wins: { red: 0, yellow: 0 }, gamesPlayed: 0 });
+    });
+
+    it('should count wins and draws across rematches', async () => {
+      await finishGame('yellow');
+      await roomService.startRematch(seriesCode, 's1');
+      const series = await finishGame();
+
+      expect(series).toEqual({ wins: { red: 0, yellow: 1 }, gamesPlayed: 2 });
+      expect((await roomService.getRoom(seriesCode))?.state).toBe('ended');
+    });
+
+    it('should alternate the starting team each game', async () => {
+      expect((await roomStore.getRoom(seriesCode))?.game?.currentTeam).toBe('red');
+
+      await finishGame('red');
+      await roomService.startRematch(seriesCode, 's1');
+      expect((await roomStore.getRoom(seriesCode))?.game?.currentTeam).toBe('yellow');
+
+      await finishGame();
+      await roomService.startRematch(seriesCode, 's1');
+      expect((await roomStore.getRoom(seriesCode))?.game?.currentTeam).toBe('red');
+    });
+
+    it('should declare the first team to reach the target the series winner', async () => {
+      await finishGame('red');
+      await roomService.startRematch(seriesCode, 's1');
+      await finishGame('yellow');
+      await roomService.startRematch(seriesCode, 's1');
+      const series = await finishGame('red');
+
+      expect(series).toEqual({ wins: { red: 2, yellow: 1 }, gamesPlayed: 3, winner: 'red' });
+    });
+
+    it('should start a fresh series after a rematch of a decided one', async () => {
+      await finishGame('red');
+      await roomService.startRematch(seriesCode, 's1');
+      await finishGame('red');
+      await roomService.startRematch(seriesCode, 's1');
+
+      const room = await roomStore.getRoom(seriesCode);
+      expect(room?.series).toEqual({ wins: { red: 0, yellow: 0 }, gamesPlayed: 0 });
+      expect(room?.game?.currentTeam).toBe('red');
+    });
+
+    it('should only record finished games', async () => {
+      await expect(roomService.recordGameEnd(seriesCode))
+        .rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should apply the admin\'s changes and keep the rest', async () => {
+      const settings = await roomService.updateSettings(roomCode, 'admin', { timerSec: 30, maxPlayers: 6, startingTeam: 'yellow' });
+      const room = await roomService.getRoom(roomCode);
+
+      expect(settings).toMatchObject({ timerSec: 30, maxPlayers: 6, startingTeam: 'yellow', rows: 6, cols: 7, votingMode: 'plurality' });
+      expect(room?.settings).toEqual(settings);
+    });
+
+    it('should let the starting team open the first game', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { startingTeam: 'yellow' });
+      await roomService.startGame(roomCode, 'admin');
+
+      expect((await roomStore.getRoom(roomCode))?.game?.currentTeam).toBe('yellow');
+    });
+
+    it('should reject values outside the supported ranges', async () => {
+      for (const changes of [{ timerSec: 1 }, { timerSec: 500 }, { maxPlayers: 1 }, { maxPlayers: 11 }, { rows: 20 },
+        { winLength: 8 }, { seriesTarget: 9 }, { votingMode: 'approval' as never }, { startingTeam: 'green' as never }]) {
+        await expect(roomService.updateSettings(roomCode, 'admin', changes))
+          .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      }
+      expect((await roomService.getRoom(roomCode))?.settings.timerSec).toBe(15);
+    });
+
+    it('should set, validate and clear a time control', async () => {
+      const timeControl = { bankSec: 300, incrementSec: 5, onExpiry: 'lose' as const };
+      await expect(roomService.updateSettings(roomCode, 'admin', { timeControl })).resolves.toMatchObject({ timeControl });
+
+      for (const invalid of [{ ...timeControl, bankSec: 10 }, { ...timeControl, incrementSec: 90 }, { ...timeControl, onExpiry: 'draw' as never }]) {
+        await expect(roomService.updateSettings(roomCode, 'admin', { timeControl: invalid }))
+          .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      }
+
+      const cleared = await roomService.updateSettings(roomCode, 'admin', { timeControl: null });
+      expect(cleared.timeControl).toBeUndefined();
+    });
+
+    it('should not shrink the room below its current players', async () => {
+      await expect(roomService.updateSettings(roomCode, 'admin', { maxPlayers: 2 }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      await expect(roomService.updateSettings(roomCode, 'admin', { maxPlayers: 3 })).resolves.toMatchObject({ maxPlayers: 3 });
+      await expect(roomService.joinRoom('p4', { roomCode, nickname: 'Player4' }))
+        .rejects.toMatchObject({ code: 'ROOM_FULL' });
+    });
+
+    it('should switch the turn decider with the voting mode', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { votingMode: 'ranked' });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      await roomService.castVote(roomCode, 'admin', [3, 2]);
+      expect(room!.game!.ballots).toEqual({ 'admin': [3, 2] });
+    });
+
+    it('should reset the series score when the target changes', async () => {
+      const room = await roomStore.getRoom(roomCode);
+      room!.series = { wins: { red: 1, yellow: 0 }, gamesPlayed: 1 };
+
+      await roomService.updateSettings(roomCode, 'admin', { seriesTarget: 3 });
+      expect(room!.series).toEqual({ wins: { red: 0, yellow: 0 }, gamesPlayed: 0 });
+    });
+
+    it('should only allow the admin to change settings in the lobby', async () => {
+      await expect(roomService.updateSettings(roomCode, 'p2', { timerSec: 20 }))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+      await roomService.startGame(roomCode, 'admin');
+      await expect(roomService.updateSettings(roomCode, 'admin', { timerSec: 20 }))
+        .rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+  });
+
+  describe('castVote', () => {
+    it('should reject ranked ballots in plurality rooms', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      await expect(roomService.castVote(roomCode, 'admin', [3, 2]))
+        .rejects.toMatchObject({ code: 'VOTE_REJECTED' });
+    });
+
+    it('should store ranked ballots in ranked-choice rooms', async () => {
+      const created = await roomService.createRoom({ votingMode: 'ranked' });
+      await roomService.joinRoom('r1', { roomCode: created.roomCode, nickname: 'Ranker' });
+      await roomService.joinRoom('y1', { roomCode: created.roomCode, nickname: 'Yellow' });
+      await roomService.startGame(created.roomCode, 'r1');
+      const room = await roomStore.getRoom(created.roomCode);
+      roomService.getTurnManager(created.roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      await roomService.castVote(created.roomCode, 'r1', [3, 2]);
+
+      expect(room!.settings.votingMode).toBe('ranked');
+      expect(room!.game!.ballots).toEqual({ 'r1': [3, 2] });
+      expect(room!.game!.votes).toEqual({ 'r1': 3 });
+    });
+    it('should reject votes for a round that is no longer open', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+
+      await expect(roomService.castVote(roomCode, 'admin', 3))
+        .rejects.toMatchObject({ code: 'ROUND_OVER' });
+
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+      await expect(roomService.castVote(roomCode, 'admin', 3, room!.game!.round + 1))
+        .rejects.toMatchObject({ code: 'ROUND_OVER' });
+      await roomService.castVote(roomCode, 'admin', 3, room!.game!.round);
+      expect(room!.game!.votes).toEqual({ admin: 3 });
+    });
+  });
+
+  describe('pauseGame and resumeGame', () => {
+    beforeEach(async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+    });
+
+    it('should reject votes while paused and keep the remaining time for the resume', async () => {
+      clock.tick(10000);
+      await roomService.pauseGame(roomCode, 'admin');
+
+      await expect(roomService.castVote(roomCode, 'admin', 3)).rejects.toMatchObject({ code: 'GAME_PAUSED' });
+      expect(await roomService.resolveTurn(roomCode, 1)).toBeNull();
+
+      clock.tick(120000);
+      await roomService.resumeGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+
+      expect(room!.game!.endsAt).toBe(clock.now() + 20000);
+      await expect(roomService.castVote(roomCode, 'admin', 3)).resolves.toBeUndefined();
+    });
+
+    it('should only let the admin pause or resume', async () => {
+      await expect(roomService.pauseGame(roomCode, 'p3')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await roomService.pauseGame(roomCode, 'admin');
+      await expect(roomService.resumeGame(roomCode, 'p3')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should not pause twice or resume a running game', async () => {
+      await expect(roomService.resumeGame(roomCode, 'admin')).rejects.toMatchObject({ code: 'INVALID_STATE' });
+      await roomService.pauseGame(roomCode, 'admin');
+      await expect(roomService.pauseGame(roomCode, 'admin')).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+  });
+
+  describe('resolveTurn', () => {
+    it('should resolve a round exactly once', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+      await roomService.castVote(roomCode, 'admin', 3);
+
+      const first = await roomService.resolveTurn(roomCode, 1);
+      const second = await roomService.resolveTurn(roomCode, 1);
+
+      expect(first).toMatchObject({ moveApplied: true, chosenColumn: 3 });
+      expect(second).toBeNull();
+      expect(room!.game!.round).toBe(2);
+      expect(room!.game!.board.flat().filter(cell => cell !== null)).toHaveLength(1);
+    });
+
+    it('should let only one of a timeout and a last vote resolve the round', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      const results = await Promise.all([
+        roomService.runCommand(roomCode, async () => {
+          await roomService.castVote(roomCode, 'admin', 2);
+          await roomService.castVote(roomCode, 'p3', 2);
+          return roomService.resolveTurn(roomCode, 1);
+        }),
+        roomService.runCommand(roomCode, () => roomService.resolveTurn(roomCode, 1))
+      ]);
+
+      expect(results[0]).toMatchObject({ moveApplied: true, chosenColumn: 2 });
+      expect(results[1]).toBeNull();
+      expect(room!.game!.board.flat().filter(cell => cell !== null)).toHaveLength(1);
+    });
+
+    it('should hand the game to the other team when a bank runs out under the lose rule', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { timeControl: { bankSec: 60, incrementSec: 0, onExpiry: 'lose' } });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 15);
+      await roomService.castVote(roomCode, 'admin', 3);
+      clock.tick(60000);
+
+      expect(await roomService.resolveTurn(roomCode, 1)).toEqual({ moveApplied: false, gameEnded: true });
+      expect(room!.game!.result).toEqual({ winner: 'yellow', outOfTime: 'red' });
+      expect(room!.game!.board.flat().every(cell => cell === null)).toBe(true);
+      expect(room!.game!.endsAt).toBeUndefined();
+    });
+
+    it('should play a random column for a team out of time under the random rule', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { timeControl: { bankSec: 60, incrementSec: 0, onExpiry: 'random' } });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      expect(room!.game!.clocks!.remainingMs).toEqual({ red: 60000, yellow: 60000 });
+
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 15);
+      clock.tick(60000);
+      const result = await roomService.resolveTurn(roomCode, 1);
+
+      expect(result).toMatchObject({ moveApplied: true, gameEnded: false, tieBreak: 'none' });
+      expect(room!.game!.result).toBeUndefined();
+      expect(room!.game!.clocks!.remainingMs).toEqual({ red: 0, yellow: 60000 });
+    });
+
+    it('should pop for a team out of time when a PopOut board is full', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { variant: 'popout', timeControl: { bankSec: 60, incrementSec: 0, onExpiry: 'ai' } });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      room!.game!.board = room!.game!.board.map(row => row.map(() => 'yellow'));
+      room!.game!.board[5]![2] = 'red';
+
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 15);
+      clock.tick(60000);
+      const result = await roomService.resolveTurn(roomCode, 1);
+
+      expect(result).toMatchObject({ moveApplied: true, chosenColumn: 2, popped: true });
+    });
+
+    it('should ignore rounds that are not open', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+
+      expect(await roomService.resolveTurn(roomCode, 1)).toBeNull();
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+      expect(await roomService.resolveTurn(roomCode, 2)).toBeNull();
+      expect(room!.game!.round).toBe(1);
+    });
+  });
+
+  describe('kickPlayer', () => {
+    it('should remove the player from the room', async () => {
+      const kicked = await roomService.kickPlayer(roomCode, 'admin', 'Troll');
+      const room = await roomService.getRoom(roomCode);
+
+      expect(kicked.id).toBe('p2');
+      expect(room?.players.map(p => p.nickname)).toEqual(['Admin', 'Player3']);
+    });
+
+    it('should match nicknames case-insensitively', async () => {
+      const kicked = await roomService.kickPlayer(roomCode, 'admin', 'troll');
+      expect(kicked.nickname).toBe('Troll');
+    });
+
+    it('should only allow the admin to kick', async () => {
+      await expect(roomService.kickPlayer(roomCode, 'p3', 'Troll'))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should not allow the admin to kick themselves', async () => {
+      await expect(roomService.kickPlayer(roomCode, 'admin', 'Admin'))
+        .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+    });
+
+    it('should reject unknown nicknames', async () => {
+      await expect(roomService.kickPlayer(roomCode, 'admin', 'Nobody'))
+        .rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+    });
+
+    it('should discard the kicked player\'s pending vote', async () => {
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      room!.game!.votes = { 'p3': 3, 'admin': 1 };
+
+      await roomService.kickPlayer(roomCode, 'admin', 'Player3');
+
+      expect(room!.game!.votes).toEqual({ 'admin': 1 });
+    });
+
+    it('should not kick the last player of a team during a game', async () => {
+      await roomService.startGame(roomCode, 'admin');
+
+      await expect(roomService.kickPlayer(roomCode, 'admin', 'Troll'))
+        .rejects.toMatchObject({ code: 'INVALID_TARGET' });
+      await expect(roomService.kickPlayer(roomCode, 'admin', 'Player3')).resolves.toMatchObject({ id: 'p3' });
+    });
+
+    it('should ban the nickname from rejoining', async () => {
+      await roomService.kickPlayer(roomCode, 'admin', 'Troll');
+
+      await expect(roomService.joinRoom('new-socket', { roomCode, nickname: 'TROLL' }))
+        .rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    });
+
+    it('should ban the session from rejoining under another nickname', async () => {
+      await roomService.kickPlayer(roomCode, 'admin', 'Troll');
+
+      await expect(roomService.joinRoom('p2', { roomCode, nickname: 'Innocent' }))
+        .rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    });
+
+    it('should keep bans when room state is written back', async () => {
+      await roomService.kickPlayer(roomCode, 'admin', 'Troll');
+
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.bans).toBeUndefined();
+      await roomService.updateRoomState(roomCode, room!);
+
+      await expect(roomService.joinRoom('p2', { roomCode, nickname: 'Troll' }))
+        .rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    });
+  });
+
+  describe('admin token', () => {
+    let hostCode: string;
+    let adminToken: string;
+
+    beforeEach(async () => {
+      ({ roomCode: hostCode, adminToken } = await roomService.createRoom({}));
+    });
+
+    it('should make the token holder admin even when they join later', async () => {
+      await roomService.joinRoom('early', { roomCode: hostCode, nickname: 'Early' });
+      const { player } = await roomService.joinRoom('host', { roomCode: hostCode, nickname: 'Host', adminToken });
+
+      const room = await roomService.getRoom(hostCode);
+      expect(player.isAdmin).toBe(true);
+      expect(room?.players.filter(p => p.isAdmin).map(p => p.id)).toEqual(['host']);
+      await expect(roomService.startGame(hostCode, 'early')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should reject a wrong admin token without joining', async () => {
+      await expect(roomService.joinRoom('faker', { roomCode: hostCode, nickname: 'Faker', adminToken: 'not-the-token' }))
+        .rejects.toMatchObject({ code: 'INVALID_ADMIN_TOKEN' });
+      expect((await roomService.getRoom(hostCode))?.players).toHaveLength(0);
+    });
+
+    it('should not accept another room\'s admin token', async () => {
+      const other = await roomService.createRoom({});
+
+      await expect(roomService.joinRoom('faker', { roomCode: hostCode, nickname: 'Faker', adminToken: other.adminToken }))
+        .rejects.toMatchObject({ code: 'INVALID_ADMIN_TOKEN' });
+    });
+
+    it('should let the host reclaim admin when resuming', async () => {
+      const { resumeToken } = await roomService.joinRoom('host', { roomCode: hostCode, nickname: 'Host', adminToken });
+      await roomService.joinRoom('p2', { roomCode: hostCode, nickname: 'Second' });
+      await roomService.leaveRoom('host', hostCode);
+      expect((await roomService.getRoom(hostCode))?.players.find(p => p.id === 'p2')?.isAdmin).toBe(true);
+
+      const resumed = await roomService.resumeSession(resumeToken, adminToken) as JoinRoomResponse;
+
+      expect(resumed.player.isAdmin).toBe(true);
+      expect(resumed.room.players.find(p => p.id === 'p2')?.isAdmin).toBe(false);
+    });
+
+    it('should ignore a stale admin token when resuming', async () => {
+      const { resumeToken } = await roomService.joinRoom('p1', { roomCode: hostCode, nickname: 'First' });
+      const { resumeToken: secondToken } = await roomService.joinRoom('p2', { roomCode: hostCode, nickname: 'Second' });
+      const other = await roomService.createRoom({});
+
+      const resumed = await roomService.resumeSession(secondToken, other.adminToken) as JoinRoomResponse;
+      expect(resumed.player.isAdmin).toBe(false);
+      expect(((await roomService.resumeSession(resumeToken)) as JoinRoomResponse).player.isAdmin).toBe(true);
+    });
+
+    it('should leave a room created for a later host without an admin until the host arrives', async () => {
+      const reserved = await roomService.createRoom({ hostJoinsLater: true });
+      const { player: early } = await roomService.joinRoom('early', { roomCode: reserved.roomCode, nickname: 'Early' });
+      expect(early.isAdmin).toBe(false);
+
+      const { player: host } = await roomService.joinRoom('host', { roomCode: reserved.roomCode, nickname: 'Host', adminToken: reserved.adminToken });
+      expect(host.isAdmin).toBe(true);
+      expect((await roomService.getRoom(reserved.roomCode))?.awaitingHost).toBeUndefined();
+    });
+
+    it('should never expose the token digest', async () => {
+      const room = await roomService.getRoom(hostCode);
+      expect(room).not.toHaveProperty('adminTokenHash');
+      expect((await roomStore.getRoom(hostCode))?.adminTokenHash).not.toBe(adminToken);
+    });
+  });
+
+  describe('team management', () => {
+    it('should let a player switch to the other team in the lobby', async () => {
+      const player = await roomService.switchTeam(roomCode, 'p3');
+      const room = await roomService.getRoom(roomCode);
+
+      expect(player.team).toBe('yellow');
+      expect(room?.players.find(p => p.id === 'p3')?.team).toBe('yellow');
+    });
+
+    it('should not allow switching once the game has started', async () => {
+      await roomService.startGame(roomCode, 'admin');
+
+      await expect(roomService.switchTeam(roomCode, 'p3'))
+        .rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should block self-switching while teams are locked', async () => {
+      await roomService.setTeamsLocked(roomCode, 'admin', true);
+
+      await expect(roomService.switchTeam(roomCode, 'p3'))
+        .rejects.toMatchObject({ code: 'TEAMS_LOCKED' });
+      await expect(roomService.switchTeam(roomCode, 'admin')).resolves.toMatchObject({ team: 'yellow' });
+
+      await roomService.setTeamsLocked(roomCode, 'admin', false);
+      await expect(roomService.switchTeam(roomCode, 'p3')).resolves.toMatchObject({ team: 'yellow' });
+    });
+
+    it('should let the admin move a player even while teams are locked', async () => {
+      await roomService.setTeamsLocked(roomCode, 'admin', true);
+      const moved = await roomService.movePlayer(roomCode, 'admin', 'troll', 'red');
+
+      expect(moved.id).toBe('p2');
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.players.every(p => p.team === 'red')).toBe(true);
+    });
+
+    it('should validate admin moves', async () => {
+      await expect(roomService.movePlayer(roomCode, 'p2', 'Player3', 'yellow'))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(roomService.movePlayer(roomCode, 'admin', 'Nobody', 'yellow'))
+        .rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+      await expect(roomService.movePlayer(roomCode, 'admin', 'Player3', 'green' as never))
+        .rejects.toMatchObject({ code: 'INVALID_TEAM' });
+    });
+
+    it('should shuffle everyone into balanced teams', async () => {
+      await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.joinRoom('p5', { roomCode, nickname: 'Player5' });
+
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const room = await roomService.shuffleTeams(roomCode, 'admin');
+        const red = room.players.filter(p => p.team === 'red').length;
+        const yellow = room.players.filter(p => p.team === 'yellow').length;
+
+        expect(room.players).toHaveLength(5);
+        expect(Math.abs(red - yellow)).toBe(1);
+      }
+    });
+
+    it('should only let the admin shuffle or lock teams', async () => {
+      await expect(roomService.shuffleTeams(roomCode, 'p2'))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(roomService.setTeamsLocked(roomCode, 'p2', true))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+  });
+
+  describe('more than two teams', () => {
+    let bigRoom: string;
+
+    beforeEach(async () => {
+      ({ roomCode: bigRoom } = await roomService.createRoom({ teams: ['red', 'yellow', 'green'], rows: 8, cols: 10 }));
+      for (const [id, nickname] of [['a1', 'Ann'], ['b1', 'Ben'], ['c1', 'Cat'], ['d1', 'Dan']]) {
+        await roomService.joinRoom(id!, { roomCode: bigRoom, nickname: nickname! });
+      }
+    });
+
+    it('should deal joining players across every team', async () => {
+      const room = await roomService.getRoom(bigRoom);
+
+      expect(room?.players.map(p => p.team)).toEqual(['red', 'yellow', 'green', 'red']);
+      expect(room?.series?.wins).toEqual({ red: 0, yellow: 0, green: 0 });
+    });
+
+    it('should rotate the opening team through a series', async () => {
+      await roomService.updateSettings(bigRoom, 'a1', { seriesTarget: 3 });
+      const openers = [];
+      for (let game = 0; game < 3; game++) {
+        await roomService.startGame(bigRoom, 'a1');
+        const room = await roomStore.getRoom(bigRoom);
+        openers.push(room!.game!.currentTeam);
+        expect(room!.game!.teams).toEqual(['red', 'yellow', 'green']);
+        room!.game!.result = { draw: true };
+        await roomService.recordGameEnd(bigRoom);
+        room!.state = 'lobby';
+      }
+
+      expect(openers).toEqual(['red', 'yellow', 'green']);
+    });
+
+    it('should not start while a team has no players', async () => {
+      await roomService.movePlayer(bigRoom, 'a1', 'Cat', 'red');
+      await roomService.movePlayer(bigRoom, 'a1', 'Ben', 'red');
+
+      await expect(roomService.startGame(bigRoom, 'a1'))
+        .rejects.toMatchObject({ code: 'NOT_ENOUGH_PLAYERS' });
+      await roomService.movePlayer(bigRoom, 'a1', 'Ben', 'yellow');
+      await roomService.movePlayer(bigRoom, 'a1', 'Dan', 'green');
+      await expect(roomService.startGame(bigRoom, 'a1')).resolves.toBeUndefined();
+    });
+
+    it('should leave the ended game in place when a rematch finds a team empty', async () => {
+      await roomService.startGame(bigRoom, 'a1');
+      const room = await roomStore.getRoom(bigRoom);
+      room!.game!.result = { draw: true };
+      await roomService.recordGameEnd(bigRoom);
+      await roomService.kickPlayer(bigRoom, 'a1', 'Cat');
+
+      await expect(roomService.startRematch(bigRoom, 'a1'))
+        .rejects.toMatchObject({ code: 'NOT_ENOUGH_PLAYERS' });
+      const after = await roomStore.getRoom(bigRoom);
+      expect(after?.state).toBe('ended');
+      expect(after?.game?.result).toEqual({ draw: true });
+    });
+
+    it('should cycle self-switching and admin moves through the room\'s teams', async () => {
+      await expect(roomService.switchTeam(bigRoom, 'c1')).resolves.toMatchObject({ team: 'red' });
+      await expect(roomService.movePlayer(bigRoom, 'a1', 'Ben', 'green')).resolves.toMatchObject({ team: 'green' });
+      await expect(roomService.movePlayer(bigRoom, 'a1', 'Ben', 'blue'))
+        .rejects.toMatchObject({ code: 'INVALID_TEAM' });
+    });
+
+    it('should move players off a team the admin drops', async () => {
+      await roomService.updateSettings(bigRoom, 'a1', { startingTeam: 'green' });
+      const settings = await roomService.updateSettings(bigRoom, 'a1', { teams: ['red', 'yellow'] });
+      const room = await roomService.getRoom(bigRoom);
+
+      expect(settings.startingTeam).toBe('red');
+      expect(room?.players.find(p => p.id === 'c1')?.team).toBe('yellow');
+      expect(room?.series?.wins).toEqual({ red: 0, yellow: 0 });
+    });
+
+    it('should give every other team its own computer opponent', async () => {
+      const room = await roomService.setupVsComputer(bigRoom, 'a1', 'easy');
+
+      expect(room.players.filter(p => !p.bot).every(p => p.team === 'red')).toBe(true);
+      expect(room.players.filter(p => p.bot).map(p => p.team)).toEqual(['yellow', 'green']);
+    });
+
+    it('should reject team lists it cannot play', async () => {
+      for (const teams of [['red'], ['red', 'red'], ['red', 'purple'], ['red', 'yellow', 'green', 'blue', 'red']]) {
+        await expect(roomService.createRoom({ teams: teams as never }))
+          .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      }
+      await expect(roomService.createRoom({ teams: ['red', 'yellow', 'green'], timeControl: { bankSec: 60, incrementSec: 0, onExpiry: 'lose' } }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+  });
+
+  describe('resumeSession', () => {
+    it('should issue a resume token on join', async () => {
+      const result = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+
+      expect(sessionTokens.verify(result.resumeToken)).toEqual({ roomCode, playerId: 'p4' });
+    });
+
+    it('should rebind a disconnected player to their seat', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.leaveRoom('p4', roomCode);
+
+      const resumed = await roomService.resumeSession(joined.resumeToken) as JoinRoomResponse;
+
+      expect(resumed.player.id).toBe('p4');
+      expect(resumed.player.connected).toBe(true);
+      expect(resumed.room.players).toHaveLength(4);
+    });
+
+    it('should keep the seat past the original grace period once resumed', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.leaveRoom('p4', roomCode);
+      clock.tick(30000);
+      await roomService.resumeSession(joined.resumeToken);
+      await roomService.leaveRoom('p4', roomCode);
+
+      clock.tick(40000);
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.players.some(p => p.id === 'p4')).toBe(true);
+    });
+
+    it('should include the running game state', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.startGame(roomCode, 'admin');
+
+      const resumed = await roomService.resumeSession(joined.resumeToken);
+
+      expect(resumed.room.state).toBe('active');
+      expect(resumed.room.game?.board).toHaveLength(6);
+    });
+
+    it('should reject tampered tokens', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      const forged = sessionTokens.issue(roomCode, 'admin').split('.')[0] + '.' + joined.resumeToken.split('.')[1];
+
+      await expect(roomService.resumeSession(forged))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(roomService.resumeSession(new HmacSessionTokens('other').issue(roomCode, 'p4')))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject players whose seat was removed', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.leaveRoom('p4', roomCode);
+      clock.tick(60000);
+
+      await expect(roomService.resumeSession(joined.resumeToken))
+        .rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    });
+
+    it('should reject kicked players', async () => {
+      const joined = await roomService.joinRoom('p4', { roomCode, nickname: 'Player4' });
+      await roomService.kickPlayer(roomCode, 'admin', 'Player4');
+
+      await expect(roomService.resumeSession(joined.resumeToken))
+        .rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    });
+  });
+
+  describe('spectateRoom', () => {
+    it('should add a spectator without taking a seat or joining a team', async () => {
+      const result = await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+
+      expect(result.spectator).toEqual({ id: 's1', nickname: 'OfficeTV', connected: true });
+      expect(result.room.players).toHaveLength(3);
+      expect(result.room.spectators).toEqual([result.spectator]);
+      expect(sessionTokens.verify(result.resumeToken)).toEqual({ roomCode, playerId: 's1' });
+    });
+
+    it('should not count spectators towards the player limit', async () => {
+      const room = await roomStore.getRoom(roomCode);
+      room!.settings.maxPlayers = 3;
+
+      await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+
+      expect((await roomService.getRoom(roomCode))?.spectators).toHaveLength(1);
+      await expect(roomService.joinRoom('p4', { roomCode, nickname: 'Player4' }))
+        .rejects.toMatchObject({ code: 'ROOM_FULL' });
+    });
+
+    it('should keep nicknames unique across players and spectators', async () => {
+      await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+
+      await expect(roomService.spectateRoom('s2', { roomCode, nickname: 'player3' }))
+        .rejects.toMatchObject({ code: 'NICKNAME_TAKEN' });
+      await expect(roomService.joinRoom('p4', { roomCode, nickname: 'officetv' }))
+        .rejects.toMatchObject({ code: 'NICKNAME_TAKEN' });
+    });
+
+    it('should apply the room password and bans to spectators', async () => {
+      const locked = await roomService.createRoom({ password: 'secret' });
+      await expect(roomService.spectateRoom('s1', { roomCode: locked.roomCode, nickname: 'OfficeTV' }))
+        .rejects.toMatchObject({ code: 'PASSWORD_REQUIRED' });
+
+      await roomService.kickPlayer(roomCode, 'admin', 'Troll');
+      await expect(roomService.spectateRoom('p2', { roomCode, nickname: 'Lurker' }))
+        .rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    });
+
+    it('should not let spectators vote or hold up the voting team', async () => {
+      await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      const turnManager = roomService.getTurnManager(roomCode)!;
+      turnManager.startVoting(room!.game!, room!.players, 30);
+
+      await expect(roomService.castVote(roomCode, 's1', 3))
+        .rejects.toMatchObject({ code: 'VOTE_REJECTED' });
+
+      for (const player of room!.players.filter(p => p.team === room!.game!.currentTeam)) {
+        await roomService.castVote(roomCode, player.id, 3);
+      }
+      expect(turnManager.hasAllTeamVoted(room!.game!, room!.players)).toBe(true);
+    });
+
+    it('should hide every vote from spectators', async () => {
+      await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+      await roomService.castVote(roomCode, 'admin', 2);
+
+      const visible = await roomService.getRoomForViewer(roomCode, 's1');
+
+      expect(visible?.game?.votes).toEqual({ admin: HIDDEN_VOTE });
+      expect(visible?.game?.perColumnCounts.every(count => count === 0)).toBe(true);
+    });
+
+    it('should let a spectator resume within the grace period', async () => {
+      const watching = await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+      await roomService.leaveRoom('s1', roomCode);
+      clock.tick(30000);
+
+      const resumed = await roomService.resumeSession(watching.resumeToken);
+
+      expect(resumed).toMatchObject({ spectator: { id: 's1', connected: true } });
+      clock.tick(60000);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect((await roomService.getRoom(roomCode))?.spectators).toHaveLength(1);
+    });
+
+    it('should drop a spectator who does not come back', async () => {
+      await roomService.spectateRoom('s1', { roomCode, nickname: 'OfficeTV' });
+      await roomService.leaveRoom('s1', roomCode);
+      clock.tick(60000);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const room = await roomService.getRoom(roomCode);
+      expect(room?.spectators).toEqual([]);
+      expect(room?.players).toHaveLength(3);
+    });
+  });
+
+  describe('redactRoomForViewer', () => {
+    beforeEach(async () => {
+      // Admin and Player3 are red, Troll is yellow
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      room!.game!.votes = { 'admin': 2, 'p3': 4 };
+      room!.game!.perColumnCounts = [0, 0, 1, 0, 1, 0, 0];
+    });
+
+    it('should show teammates the full votes and tallies', async () => {
+      const room = await roomService.getRoomForViewer(roomCode, 'p3');
+
+      expect(room?.game?.votes).toEqual({ 'admin': 2, 'p3': 4 });
+      expect(room?.game?.perColumnCounts).toEqual([0, 0, 1, 0, 1, 0, 0]);
+    });
+
+    it('should show opponents who voted but not where', async () => {
+      const room = await roomService.getRoomForViewer(roomCode, 'p2');
+
+      expect(room?.game?.votes).toEqual({ 'admin': HIDDEN_VOTE, 'p3': HIDDEN_VOTE });
+      expect(room?.game?.perColumnCounts).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should redact everything for anonymous viewers', async () => {
+      const room = await roomService.getRoomForViewer(roomCode);
+
+      expect(Object.values(room!.game!.votes)).toEqual([HIDDEN_VOTE, HIDDEN_VOTE]);
+    });
+
+    it('should only show ranked ballots to teammates', async () => {
+      const stored = await roomStore.getRoom(roomCode);
+      stored!.game!.ballots = { 'admin': [2, 5], 'p3': [4, 2] };
+
+      expect((await roomService.getRoomForViewer(roomCode, 'p3'))?.game?.ballots).toEqual({ 'admin': [2, 5], 'p3': [4, 2] });
+      expect((await roomService.getRoomForViewer(roomCode, 'p2'))?.game?.ballots).toEqual({});
+    });
+
+    it('should not modify the stored room', async () => {
+      await roomService.getRoomForViewer(roomCode, 'p2');
+      const stored = await roomStore.getRoom(roomCode);
+
+      expect(stored?.game?.votes).toEqual({ 'admin': 2, 'p3': 4 });
+    });
+
+    describe('fog of war', () => {
+      beforeEach(async () => {
+        const stored = await roomStore.getRoom(roomCode);
+        stored!.settings.fogOfWar = true;
+        stored!.game!.board[5]![0] = 'red';
+        stored!.game!.board[5]![4] = 'yellow';
+        stored!.game!.board[5]![6] = 'yellow';
+        stored!.game!.lastMoves = { red: { col: 0, row: 5 }, yellow: { col: 6, row: 5 } };
+      });
+
+      it('should show a team the squares around its pieces and the latest moves', async () => {
+        const red = (await roomService.getRoomForViewer(roomCode, 'p3'))!.game!.board;
+        expect(red[5]![0]).toBe('red');
+        expect(red[4]![1]).toBeNull();
+        expect(red[5]![6]).toBe('yellow');
+        expect(red[5]![4]).toBe('hidden');
+        expect(red[0]![3]).toBe('hidden');
+
+        const yellow = (await roomService.getRoomForViewer(roomCode, 'p2'))!.game!.board;
+        expect(yellow[5]![4]).toBe('yellow');
+        expect(yellow[5]![3]).toBeNull();
+        expect(yellow[5]![0]).toBe('red');
+        expect(yellow[4]![0]).toBe('hidden');
+      });
+
+      it('should only show anonymous viewers the latest moves', async () => {
+        const board = (await roomService.getRoomForViewer(roomCode))!.game!.board;
+
+        expect(board[5]![0]).toBe('red');
+        expect(board[5]![4]).toBe('hidden');
+        expect(board[4]![0]).toBe('hidden');
+      });
+
+      it('should reveal the whole board once the game is over and keep the stored board intact', async () => {
+        await roomService.getRoomForViewer(roomCode, 'p2');
+        expect((await roomStore.getRoom(roomCode))!.game!.board[5]![4]).toBe('yellow');
+
+        (await roomStore.getRoom(roomCode))!.state = 'ended';
+        const board = (await roomService.getRoomForViewer(roomCode, 'p2'))!.game!.board;
+        expect(board.flat()).not.toContain('hidden');
+      });
+
+      it('should reject a setting that is not on or off', async () => {
+        await expect(roomService.createRoom({ fogOfWar: 'yes' as never }))
+          .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+      });
+    });
+
+    it('should identify viewers only by tokens for this room', async () => {
+      const token = sessionTokens.issue(roomCode, 'p3');
+
+      expect(roomService.identifyViewer(roomCode, token)).toBe('p3');
+      expect(roomService.identifyViewer('OTHER1', token)).toBeUndefined();
+      expect(roomService.identifyViewer(roomCode, 'garbage')).toBeUndefined();
+    });
+  });
+
+  describe('computer players', () => {
+    it('should let the admin add a bot to the lobby', async () => {
+      const bot = await roomService.addBot(roomCode, 'admin', { team: 'yellow', difficulty: 'hard' });
+      const room = await roomService.getRoom(roomCode);
+
+      expect(bot).toMatchObject({ nickname: 'CPU 1', team: 'yellow', connected: true, bot: { depth: 5, randomness: 0 } });
+      expect(room?.players).toHaveLength(4);
+    });
+
+    it('should only allow the admin to add bots', async () => {
+      await expect(roomService.addBot(roomCode, 'p3'))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should validate custom bot settings', async () => {
+      await expect(roomService.addBot(roomCode, 'admin', { difficulty: { depth: 12, randomness: 0 } }))
+        .rejects.toMatchObject({ code: 'INVALID_SETTINGS' });
+    });
+
+    it('should not add bots beyond the room capacity', async () => {
+      // Three humans plus seven bots fills the default ten seats
+      for (let i = 0; i < 7; i++) {
+        await roomService.addBot(roomCode, 'admin');
+      }
+
+      await expect(roomService.addBot(roomCode, 'admin'))
+        .rejects.toMatchObject({ code: 'ROOM_FULL' });
+    });
+
+    it('should put every human against a single bot for office vs computer', async () => {
+      await roomService.addBot(roomCode, 'admin');
+      const room = await roomService.setupVsComputer(roomCode, 'admin', 'easy');
+
+      expect(room.players.filter(p => p.team === 'red').map(p => p.id)).toEqual(['admin', 'p2', 'p3']);
+      const bots = room.players.filter(p => p.bot);
+      expect(bots).toHaveLength(1);
+      expect(bots[0]).toMatchObject({ team: 'yellow', bot: { depth: 1 } });
+    });
+
+    it('should cast votes for bots on the current team', async () => {
+      await roomService.setupVsComputer(roomCode, 'admin', { depth: 2, randomness: 0 });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      room!.game!.currentTeam = 'yellow';
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      const voted = await roomService.castBotVotes(roomCode);
+
+      const bot = room!.players.find(p => p.bot)!;
+      expect(voted).toBe(true);
+      expect(room!.game!.votes[bot.id]).toBeGreaterThanOrEqual(0);
+      expect(await roomService.castBotVotes(roomCode)).toBe(false);
+    });
+
+    it('should have bots pop when a PopOut board is full', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { variant: 'popout' });
+      await roomService.setupVsComputer(roomCode, 'admin', { depth: 2, randomness: 0 });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      room!.game!.currentTeam = 'yellow';
+      room!.game!.board = room!.game!.board.map(row => row.map(() => 'red'));
+      room!.game!.board[5]![4] = 'yellow';
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      expect(await roomService.castBotVotes(roomCode)).toBe(true);
+      const bot = room!.players.find(p => p.bot)!;
+      expect(room!.game!.votes[bot.id]).toBe(toMove('pop', 4, 7, 'popout'));
+    });
+
+    it('should have bots see only what their team sees under fog of war', async () => {
+      await roomService.updateSettings(roomCode, 'admin', { fogOfWar: true });
+      await roomService.setupVsComputer(roomCode, 'admin', { depth: 2, randomness: 0 });
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      const board = room!.game!.board;
+      // Red threatens to finish column 0, out of sight of yellow's pieces on the right
+      board[5]![0] = board[4]![0] = board[3]![0] = board[5]![3] = 'red';
+      board[5]![5] = board[5]![6] = board[4]![6] = 'yellow';
+      room!.game!.lastMoves = { red: { col: 3, row: 5 }, yellow: { col: 6, row: 4 } };
+      room!.game!.currentTeam = 'yellow';
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      expect(await roomService.castBotVotes(roomCode)).toBe(true);
+      const bot = room!.players.find(p => p.bot)!;
+      expect(room!.game!.votes[bot.id]).not.toBe(0);
+    });
+
+    it('should not vote for bots while the humans are voting', async () => {
+      await roomService.setupVsComputer(roomCode, 'admin');
+      await roomService.startGame(roomCode, 'admin');
+      const room = await roomStore.getRoom(roomCode);
+      roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 30);
+
+      expect(await roomService.castBotVotes(roomCode)).toBe(false);
+    });
+
+    it('should close the room once only bots remain', async () => {
+      await roomService.addBot(roomCode, 'admin');
+      for (const playerId of ['admin', 'p2', 'p3']) {
+        await roomService.leaveRoom(playerId, roomCode);
+      }
+      clock.tick(60000);
+      // Let the scheduled removals finish
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(await roomService.getRoom(roomCode)).toBeNull();
+    });
+  });
+
+  describe('restoreRooms', () => {
+    const restartWith = (store: SqliteRoomStore) => new RoomService(
+      store,
+      new AccessControl(4),
+      new GameEngine(),
+      new MajorityTurnDecider(),
+      clock,
+      sessionTokens
+    );
+
+    it('should rebuild turn managers and report rooms with a game in progress', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'connect4-restore-'));
+      const filename = join(dir, 'rooms.db');
+      try {
+        const store = new SqliteRoomStore(filename);
+        const before = restartWith(store);
+        const lobby = await before.createRoom({});
+        const active = await before.createRoom({ votingMode: 'ranked' });
+        await before.joinRoom('a1', { roomCode: active.roomCode, nickname: 'Alice' });
+        await before.joinRoom('a2', { roomCode: active.roomCode, nickname: 'Bob' });
+        await before.startGame(active.roomCode, 'a1');
+        const stored = await store.getRoom(active.roomCode);
+        before.getTurnManager(active.roomCode)!.startVoting(stored!.game!, stored!.players, 20);
+        await before.castVote(active.roomCode, 'a1', [2, 5]);
+        await before.persistRoom(active.roomCode);
+        store.close();
+
+        const reopened = new SqliteRoomStore(filename);
+        const after = restartWith(reopened);
+        const activeCodes = await after.restoreRooms();
+
+        expect(activeCodes).toEqual([active.roomCode]);
+        expect(after.getTurnManager(lobby.roomCode)).toBeDefined();
+        expect(after.getTurnManager(active.roomCode)).toBeDefined();
+        const restored = await reopened.getRoom(active.roomCode);
+        expect(restored?.game?.endsAt).toBe(stored!.game!.endsAt);
+        expect(restored?.game?.ballots).toEqual({ a1: [2, 5] });
+        reopened.close();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should give human players the reconnection grace period', async () => {
+      await roomService.addBot(roomCode, 'admin');
+
+      await roomService.restoreRooms();
+      const room = await roomStore.getRoom(roomCode);
+
+      expect(room?.players.filter(p => !p.bot).every(p => !p.connected)).toBe(true);
+      expect(room?.players.find(p => p.bot)?.connected).toBe(true);
+
+      // Only the admin comes back before the grace period runs out
+      await roomService.resumeSession(sessionTokens.issue(roomCode, 'admin'));
+      clock.tick(60000);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const remaining = (await roomStore.getRoom(roomCode))?.players.map(p => p.id);
+      expect(remaining).toContain('admin');
+      expect(remaining).not.toContain('p2');
+      expect(remaining).not.toContain('p3');
+    });
+  });
+});
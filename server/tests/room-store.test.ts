@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryRoomStore } from '../src/services/InMemoryRoomStore';
+import { SqliteRoomStore } from '../src/services/SqliteRoomStore';
+import { GameEngine } from '../src/engine/GameEngine';
+import type { IRoomStore, Room } from '../src/types';
+
+const createTestRoom = (code = 'ABC234'): Room => ({
+  code,
+  passwordHash: 'hashed-password',
+  players: [
+    { id: 'p1', nickname: 'Alice', team: 'red', isAdmin: true, matchingVotes: 2, connected: true },
+    { id: 'p2', nickname: 'Bob', team: 'yellow', isAdmin: false, matchingVotes: 0, connected: false },
+    { id: 'bot-1', nickname: 'CPU 1', team: 'yellow', isAdmin: false, matchingVotes: 1, connected: true, bot: { depth: 3, randomness: 0.1 } }
+  ],
+  bans: [{ nickname: 'Troll', playerId: 'p9' }],
+  state: 'lobby',
+  settings: { timerSec: 20, maxPlayers: 10, rows: 6, cols: 7, winLength: 4, votingMode: 'plurality', seriesTarget: 1, startingTeam: 'red' },
+  createdAt: 1700000000000
+});
+
+const createActiveRoom = (code = 'ACT234'): Room => {
+  const engine = new GameEngine();
+  const game = engine.newGame({ rows: 8, cols: 9, winLength: 5 });
+  game.board = engine.applyMove(game.board, 4, 'red').board;
+  game.lastMove = { col: 4, row: 7, team: 'red' };
+  game.currentTeam = 'yellow';
+  game.round = 2;
+  game.votes = { 'p2': 3 };
+  game.ballots = { 'p2': [3, 5] };
+  game.endsAt = 1700000015000;
+
+  return {
+    ...createTestRoom(code),
+    state: 'active',
+    settings: { timerSec: 15, maxPlayers: 10, rows: 8, cols: 9, winLength: 5, votingMode: 'ranked', seriesTarget: 3, startingTeam: 'yellow' },
+    series: { wins: { red: 1, yellow: 0 }, gamesPlayed: 1 },
+    spectators: [{ id: 's1', nickname: 'Watcher', connected: true }],
+    chat: [
+      { id: 'm1', senderId: 'p1', nickname: 'Alice', channel: 'room', text: 'good luck', sentAt: 1700000001000 },
+      { id: 'm2', senderId: 'p2', nickname: 'Bob', channel: 'team', team: 'yellow', text: 'go left', sentAt: 1700000002000 }
+    ],
+    mutedIds: ['s1'],
+    adminTokenHash: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    awaitingHost: true,
+    teamsLocked: true,
+    lastActivityAt: 1700000002000,
+    game
+  };
+};
+
+// Every IRoomStore implementation must pass these
+const contractSuite = (name: string, setup: () => { store: IRoomStore; teardown: () => void }) => {
+  describe(`${name} (IRoomStore contract)`, () => {
+    let store: IRoomStore;
+    let teardown: () => void;
+
+    beforeEach(() => {
+      ({ store, teardown } = setup());
+    });
+
+    afterEach(() => {
+      teardown();
+    });
+
+    it('should return null for unknown rooms', async () => {
+      expect(await store.getRoom('NOPE22')).toBeNull();
+    });
+
+    it('should store and return a room', async () => {
+      await store.createRoom(createTestRoom());
+
+      expect(await store.getRoom('ABC234')).toEqual(createTestRoom());
+    });
+
+    it('should store game state', async () => {
+      await store.createRoom(createActiveRoom());
+
+      expect(await store.getRoom('ACT234')).toEqual(createActiveRoom());
+    });
+
+    it('should return the same room object until it is deleted', async () => {
+      await store.createRoom(createTestRoom());
+
+      const first = await store.getRoom('ABC234');
+      first!.players[0]!.matchingVotes = 10;
+
+      expect(await store.getRoom('ABC234')).toBe(first);
+    });
+
+    it('should update an existing room', async () => {
+      await store.createRoom(createTestRoom());
+
+      const updated = { ...createActiveRoom('ABC234'), players: [createTestRoom().players[1]!] };
+      await store.updateRoom('ABC234', updated);
+
+      expect(await store.getRoom('ABC234')).toEqual(updated);
+    });
+
+    it('should refuse to create a room whose code is taken', async () => {
+      await store.createRoom(createTestRoom());
+
+      await expect(store.createRoom(createActiveRoom('ABC234'))).rejects.toThrow('Room ABC234 already exists');
+      expect(await store.getRoom('ABC234')).toEqual(createTestRoom());
+    });
+
+    it('should reject updates to unknown rooms', async () => {
+      await expect(store.updateRoom('NOPE22', createTestRoom('NOPE22'))).rejects.toThrow('Room NOPE22 not found');
+    });
+
+    it('should delete a room', async () => {
+      await store.createRoom(createTestRoom());
+      await store.createRoom(createTestRoom('XYZ789'));
+
+      await store.deleteRoom('ABC234');
+
+      expect(await store.getRoom('ABC234')).toBeNull();
+      expect(await store.getRoom('XYZ789')).not.toBeNull();
+    });
+
+    it('should ignore deletes of unknown rooms', async () => {
+      await expect(store.deleteRoom('NOPE22')).resolves.toBeUndefined();
+    });
+
+    it('should list every stored room', async () => {
+      await store.createRoom(createTestRoom());
+      await store.createRoom(createActiveRoom());
+      const stored = await store.getRoom('ACT234');
+
+      const rooms = await store.listRooms();
+
+      expect(rooms.map(room => room.code).sort()).toEqual(['ABC234', 'ACT234']);
+      expect(rooms.find(room => room.code === 'ACT234')).toBe(stored);
+    });
+  });
+};
+
+contractSuite('InMemoryRoomStore', () => ({ store: new InMemoryRoomStore(), teardown: () => {} }));
+
+contractSuite('SqliteRoomStore', () => {
+  const store = new SqliteRoomStore(':memory:');
+  return { store, teardown: () => store.close() };
+});
+
+describe('SqliteRoomStore persistence', () => {
+  let dir: string;
+  let filename: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'connect4-store-'));
+    filename = join(dir, 'rooms.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep rooms across store instances', async () => {
+    const store = new SqliteRoomStore(filename);
+    await store.createRoom(createTestRoom());
+    await store.createRoom(createActiveRoom());
+    store.close();
+
+    const reopened = new SqliteRoomStore(filename);
+    expect(await reopened.getRoom('ABC234')).toEqual(createTestRoom());
+    expect(await reopened.getRoom('ACT234')).toEqual(createActiveRoom());
+    expect(reopened.getAllRooms().map(room => room.code)).toEqual(['ABC234', 'ACT234']);
+    reopened.close();
+  });
+
+  it('should persist updates and deletes', async () => {
+    const store = new SqliteRoomStore(filename);
+    await store.createRoom(createTestRoom());
+    await store.createRoom(createTestRoom('XYZ789'));
+
+    const room = await store.getRoom('ABC234');
+    room!.players.reverse();
+    room!.state = 'ended';
+    await store.updateRoom('ABC234', room!);
+    await store.deleteRoom('XYZ789');
+    store.close();
+
+    const reopened = new SqliteRoomStore(filename);
+    const reloaded = await reopened.getRoom('ABC234');
+    expect(reloaded?.state).toBe('ended');
+    expect(reloaded?.players.map(p => p.id)).toEqual(['bot-1', 'p2', 'p1']);
+    expect(await reopened.getRoom('XYZ789')).toBeNull();
+    expect(reopened.getRoomCount()).toBe(1);
+    reopened.close();
+  });
+
+  it('should leave optional fields unset when absent', async () => {
+    const store = new SqliteRoomStore(filename);
+    const { passwordHash: _passwordHash, bans: _bans, ...bare } = createTestRoom();
+    await store.createRoom(bare);
+    store.close();
+
+    const reopened = new SqliteRoomStore(filename);
+    const reloaded = await reopened.getRoom('ABC234');
+    expect(reloaded).not.toHaveProperty('passwordHash');
+    expect(reloaded).not.toHaveProperty('bans');
+    expect(reloaded).not.toHaveProperty('game');
+    expect(reloaded).not.toHaveProperty('series');
+    expect(reloaded).not.toHaveProperty('spectators');
+    expect(reloaded).not.toHaveProperty('chat');
+    expect(reloaded).not.toHaveProperty('mutedIds');
+    expect(reloaded).not.toHaveProperty('teamsLocked');
+    expect(reloaded).not.toHaveProperty('adminTokenHash');
+    expect(reloaded).not.toHaveProperty('awaitingHost');
+    expect(reloaded).not.toHaveProperty('lastActivityAt');
+    expect(reloaded?.players[0]).not.toHaveProperty('bot');
+    reopened.close();
+  });
+});
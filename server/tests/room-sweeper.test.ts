@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RoomSweeper } from '../src/services/RoomSweeper';
+import type { ClosedRoom, RoomLifetimes } from '../src/services/RoomSweeper';
+import { RoomService } from '../src/services/RoomService';
+import { ChatService } from '../src/services/ChatService';
+import { ChatFilter } from '../src/services/ChatFilter';
+import { InMemoryRoomStore } from '../src/services/InMemoryRoomStore';
+import { AccessControl } from '../src/services/AccessControl';
+import { GameEngine } from '../src/engine/GameEngine';
+import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { HmacSessionTokens } from '../src/services/SessionTokens';
+import { FakeClock } from '../src/utils/Clock';
+
+const MINUTE = 60 * 1000;
+
+const lifetimes: RoomLifetimes = {
+  emptyMs: 5 * MINUTE,
+  idleLobbyMs: 30 * MINUTE,
+  endedMs: 10 * MINUTE,
+};
+
+describe('RoomSweeper', () => {
+  let roomSweeper: RoomSweeper;
+  let roomService: RoomService;
+  let roomStore: InMemoryRoomStore;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    roomStore = new InMemoryRoomStore();
+    clock = new FakeClock();
+    roomService = new RoomService(
+      roomStore,
+      new AccessControl(4),
+      new GameEngine(),
+      new MajorityTurnDecider(),
+      clock,
+      new HmacSessionTokens('test-secret')
+    );
+    roomSweeper = new RoomSweeper(roomStore, roomService, clock, lifetimes, MINUTE);
+  });
+
+  const createLobby = async (): Promise<string> => {
+    const { roomCode } = await roomService.createRoom({});
+    await roomService.joinRoom('p1', { roomCode, nickname: 'Alice' });
+    await roomService.joinRoom('p2', { roomCode, nickname: 'Bob' });
+    return roomCode;
+  };
+
+  it('should close a room nobody joined once the empty lifetime passes', async () => {
+    const { roomCode } = await roomService.createRoom({ hostJoinsLater: true });
+
+    clock.tick(5 * MINUTE - 1);
+    expect(await roomSweeper.sweep()).toEqual([]);
+
+    clock.tick(1);
+    expect(await roomSweeper.sweep()).toEqual([{ roomCode, reason: 'empty' }]);
+    expect(await roomStore.getRoom(roomCode)).toBeNull();
+  });
+
+  it('should keep a lobby open while there is activity', async () => {
+    const roomCode = await createLobby();
+    const chatService = new ChatService(roomStore, new ChatFilter(), clock);
+
+    clock.tick(20 * MINUTE);
+    await chatService.sendMessage(roomCode, 'p1', 'room', 'anyone there?');
+    clock.tick(20 * MINUTE);
+    await roomService.switchTeam(roomCode, 'p2');
+    clock.tick(20 * MINUTE);
+    expect(await roomSweeper.sweep()).toEqual([]);
+
+    clock.tick(10 * MINUTE);
+    expect(await roomSweeper.sweep()).toEqual([{ roomCode, reason: 'idle' }]);
+  });
+
+  it('should close ended games after the ended lifetime', async () => {
+    const roomCode = await createLobby();
+    await roomService.startGame(roomCode, 'p1');
+    const room = await roomStore.getRoom(roomCode);
+    room!.state = 'ended';
+    await roomService.persistRoom(roomCode);
+
+    clock.tick(10 * MINUTE);
+    expect(await roomSweeper.sweep()).toEqual([{ roomCode, reason: 'ended' }]);
+  });
+
+  it('should never close a game in progress', async () => {
+    const roomCode = await createLobby();
+    await roomService.startGame(roomCode, 'p1');
+
+    clock.setTime(24 * 60 * MINUTE);
+    expect(await roomSweeper.sweep()).toEqual([]);
+    expect(await roomStore.getRoom(roomCode)).not.toBeNull();
+  });
+
+  it('should fall back to the creation time for rooms without recorded activity', async () => {
+    const { roomCode } = await roomService.createRoom({});
+    delete (await roomStore.getRoom(roomCode))!.lastActivityAt;
+
+    clock.tick(5 * MINUTE);
+    expect(await roomSweeper.sweep()).toEqual([{ roomCode, reason: 'empty' }]);
+  });
+
+  it('should cancel the turn timer and pending removals of a closed room', async () => {
+    const roomCode = await createLobby();
+    await roomService.startGame(roomCode, 'p1');
+    const room = await roomStore.getRoom(roomCode);
+    roomService.getTurnManager(roomCode)!.startVoting(room!.game!, room!.players, 15);
+    await roomService.leaveRoom('p2', roomCode);
+
+    await roomService.closeRoom(roomCode);
+
+    expect(roomService.getTurnManager(roomCode)).toBeUndefined();
+    expect(clock.hasScheduledTimeouts()).toBe(false);
+    expect(await roomStore.getRoom(roomCode)).toBeNull();
+  });
+
+  it('should sweep on the clock and report closed rooms until stopped', async () => {
+    const closed: ClosedRoom[] = [];
+    roomSweeper.setClosedCallback(room => closed.push(room));
+    const { roomCode } = await roomService.createRoom({ hostJoinsLater: true });
+
+    roomSweeper.start();
+    for (let minute = 0; minute < 5; minute++) {
+      clock.tick(MINUTE);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    expect(closed).toEqual([{ roomCode, reason: 'empty' }]);
+    expect(clock.hasScheduledTimeouts()).toBe(true);
+
+    roomSweeper.stop();
+    expect(clock.hasScheduledTimeouts()).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createRoutes } from '../src/http/routes';
+import { RoomService } from '../src/services/RoomService';
+import { InMemoryRoomStore } from '../src/services/InMemoryRoomStore';
+import { AccessControl } from '../src/services/AccessControl';
+import { GameEngine } from '../src/engine/GameEngine';
+import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { HmacSessionTokens } from '../src/services/SessionTokens';
+import { FakeClock } from '../src/utils/Clock';
+import { HIDDEN_VOTE } from '../src/types';
+
+describe('HTTP routes', () => {
+  let app: express.Express;
+  let roomStore: InMemoryRoomStore;
+  let roomService: RoomService;
+
+  beforeEach(() => {
+    roomStore = new InMemoryRoomStore();
+    roomService = new RoomService(
+      roomStore,
+      new AccessControl(4),
+      new GameEngine(),
+      new MajorityTurnDecider(),
+      new FakeClock(),
+      new HmacSessionTokens('test-secret')
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createRoutes(roomService));
+  });
+
+  describe('POST /api/rooms/create', () => {
+    it('should hold admin for the host presenting the returned token', async () => {
+      const res = await request(app).post('/api/rooms/create').send({ timerSec: 20 });
+      expect(res.status).toBe(200);
+      const { roomCode, adminToken } = res.body;
+
+      const early = await roomService.joinRoom('early', { roomCode, nickname: 'Early' });
+      expect(early.player.isAdmin).toBe(false);
+
+      const host = await roomService.joinRoom('host', { roomCode, nickname: 'Host', adminToken });
+      expect(host.player.isAdmin).toBe(true);
+    });
+
+    it('should answer 409 when the vanity code is taken', async () => {
+      await request(app).post('/api/rooms/create').send({ vanityCode: 'OFFICE' });
+
+      const res = await request(app).post('/api/rooms/create').send({ vanityCode: 'OFFICE' });
+      expect(res.status).toBe(409);
+      expect(res.body.message).toBe('That room code is already in use');
+    });
+
+    it('should answer 400 for an invalid room code or settings', async () => {
+      const badCode = await request(app).post('/api/rooms/create').send({ vanityCode: 'no!' });
+      expect(badCode.status).toBe(400);
+      const notText = await request(app).post('/api/rooms/create').send({ vanityCode: 12345678 });
+      expect(notText.status).toBe(400);
+
+      const badSettings = await request(app).post('/api/rooms/create').send({ rows: 4, cols: 4, winLength: 5 });
+      expect(badSettings.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/rooms/:code', () => {
+    let roomCode: string;
+    let redToken: string;
+
+    beforeEach(async () => {
+      roomCode = (await roomService.createRoom({})).roomCode;
+      redToken = (await roomService.joinRoom('red-1', { roomCode, nickname: 'Red' })).resumeToken;
+      await roomService.joinRoom('yellow-1', { roomCode, nickname: 'Yellow' });
+      await roomService.startGame(roomCode, 'red-1');
+      (await roomStore.getRoom(roomCode))!.game!.votes = { 'red-1': 3 };
+    });
+
+    it('should return 404 for unknown rooms', async () => {
+      const res = await request(app).get('/api/rooms/NOROOM');
+      expect(res.status).toBe(404);
+    });
+
+    it('should redact votes for anonymous callers', async () => {
+      const res = await request(app).get(`/api/rooms/${roomCode}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.game.votes).toEqual({ 'red-1': HIDDEN_VOTE });
+      expect(res.body.passwordHash).toBeUndefined();
+    });
+
+    it('should show team votes to a player presenting their resume token', async () => {
+      const res = await request(app).get(`/api/rooms/${roomCode}`).set('X-Resume-Token', redToken);
+
+      expect(res.body.game.votes).toEqual({ 'red-1': 3 });
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { CaptainTurnDecider } from '../src/services/CaptainTurnDecider';
+import { RankedChoiceTurnDecider } from '../src/services/RankedChoiceTurnDecider';
 
 describe('MajorityTurnDecider', () => {
   const turnDecider = new MajorityTurnDecider();
@@ -51,6 +53,20 @@ describe('MajorityTurnDecider', () => {
       const result = turnDecider.tallyVotes(votes, validCols);
       expect(result).toEqual([1, 0, 0, 2, 0, 0, 0]);
     });
+
+    it('should size the tally to the board width', () => {
+      const votes = {
+        'player1': 8,
+        'player2': 8,
+        'player3': 11,
+      };
+      const validCols = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+      
+      const result = turnDecider.tallyVotes(votes, validCols, 12);
+      expect(result).toHaveLength(12);
+      expect(result[8]).toBe(2);
+      expect(result[11]).toBe(1);
+    });
   });
 
   describe('decideColumn', () => {
@@ -88,6 +104,12 @@ describe('MajorityTurnDecider', () => {
       expect(result).toBe(3);
     });
 
+    it('should consider every column of a wider board by default', () => {
+      const counts = [0, 0, 0, 0, 0, 0, 0, 0, 0, 4];
+      const result = turnDecider.decideColumn(counts);
+      expect(result).toBe(9);
+    });
+
     it('should handle all columns having same vote count', () => {
       const counts = [1, 1, 1, 1, 1, 1, 1];
       const validCols = [0, 1, 2, 3, 4, 5, 6];
@@ -95,4 +117,167 @@ describe('MajorityTurnDecider', () => {
       expect(validCols).toContain(result); // Should pick one of the valid columns randomly
     });
   });
+
+  describe('decideTurn', () => {
+    it('should report a clear majority as needing no tie-break', () => {
+      const decision = turnDecider.decideTurn([0, 2, 1, 0, 0, 0, 0], [0, 1, 2, 3, 4, 5, 6], { votes: {} });
+      expect(decision).toEqual({ column: 1, tieBreak: 'none' });
+    });
+
+    it('should report random tie-breaks', () => {
+      const decision = turnDecider.decideTurn([1, 0, 1, 0, 0, 0, 0], [0, 1, 2, 3, 4, 5, 6], { votes: {} });
+      expect(decision.tieBreak).toBe('random');
+      expect([0, 2]).toContain(decision.column);
+    });
+  });
+});
+
+describe('CaptainTurnDecider', () => {
+  const allCols = [0, 1, 2, 3, 4, 5, 6];
+
+  it('should follow the majority when there is no tie', () => {
+    const turnDecider = new CaptainTurnDecider();
+    const decision = turnDecider.decideTurn([0, 0, 2, 1, 0, 0, 0], allCols, {
+      votes: { 'captain': 3, 'a': 2, 'b': 2 },
+      captainId: 'captain'
+    });
+
+    expect(decision).toEqual({ column: 2, tieBreak: 'none' });
+  });
+
+  it('should break ties with the captain\'s vote', () => {
+    const turnDecider = new CaptainTurnDecider();
+    const decision = turnDecider.decideTurn([1, 0, 0, 0, 0, 1, 0], allCols, {
+      votes: { 'captain': 5, 'a': 0 },
+      captainId: 'captain'
+    });
+
+    expect(decision).toEqual({ column: 5, tieBreak: 'captain' });
+  });
+
+  it('should use the fallback when the captain voted for a losing column', () => {
+    const turnDecider = new CaptainTurnDecider('leftmost');
+    const decision = turnDecider.decideTurn([2, 1, 0, 0, 0, 2, 0], allCols, {
+      votes: { 'captain': 1, 'a': 0, 'b': 0, 'c': 5, 'd': 5 },
+      captainId: 'captain'
+    });
+
+    expect(decision).toEqual({ column: 0, tieBreak: 'leftmost' });
+  });
+
+  it('should use the fallback when the captain did not vote', () => {
+    const turnDecider = new CaptainTurnDecider('center');
+    const decision = turnDecider.decideTurn([1, 0, 0, 0, 1, 0, 1], allCols, {
+      votes: { 'a': 0, 'b': 4, 'c': 6 },
+      captainId: 'captain'
+    });
+
+    expect(decision).toEqual({ column: 4, tieBreak: 'center' });
+  });
+
+  it('should prefer the left column when two are equally central', () => {
+    const turnDecider = new CaptainTurnDecider('center');
+    const decision = turnDecider.decideTurn([0, 0, 1, 0, 1, 0, 0], allCols, { votes: {} });
+
+    expect(decision).toEqual({ column: 2, tieBreak: 'center' });
+  });
+
+  it('should measure tied PopOut pops by the column they pop', () => {
+    const turnDecider = new CaptainTurnDecider('center');
+    // Drop into column 1 against a pop of column 3 on a 7-column board
+    const counts = [0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0];
+    const decision = turnDecider.decideTurn(counts, [1, 10], { votes: {}, columnCount: 7 });
+
+    expect(decision).toEqual({ column: 10, tieBreak: 'center' });
+  });
+
+  it('should apply the fallback across valid columns when nobody voted', () => {
+    const turnDecider = new CaptainTurnDecider('leftmost');
+    const decision = turnDecider.decideTurn([0, 0, 0, 0, 0, 0, 0], [2, 4, 6], { votes: {}, captainId: 'captain' });
+
+    expect(decision).toEqual({ column: 2, tieBreak: 'leftmost' });
+  });
+
+  it('should pick randomly among tied columns by default', () => {
+    const turnDecider = new CaptainTurnDecider();
+    const decision = turnDecider.decideTurn([1, 0, 1, 0, 0, 0, 0], allCols, { votes: {} });
+
+    expect(decision.tieBreak).toBe('random');
+    expect([0, 2]).toContain(decision.column);
+  });
+
+  it('should reject unknown fallback rules', () => {
+    expect(() => new CaptainTurnDecider('coin-flip' as never)).toThrow('Unknown tie-break fallback');
+  });
+});
+
+describe('RankedChoiceTurnDecider', () => {
+  const allCols = [0, 1, 2, 3, 4, 5, 6];
+  const turnDecider = new RankedChoiceTurnDecider(new CaptainTurnDecider('leftmost'));
+
+  const decide = (ballots: Record<string, number[]>, validCols = allCols, captainId?: string) => {
+    const votes = Object.fromEntries(Object.entries(ballots).map(([playerId, ranking]) => [playerId, ranking[0]!]));
+    const counts = turnDecider.tallyVotes(votes, validCols, 7);
+    return turnDecider.decideTurn(counts, validCols, { votes, ballots, captainId });
+  };
+
+  it('should tally first choices for live counts', () => {
+    expect(turnDecider.tallyVotes({ 'a': 2, 'b': 2, 'c': 5 }, allCols, 7)).toEqual([0, 0, 2, 0, 0, 1, 0]);
+  });
+
+  it('should pick a first-choice majority without a runoff', () => {
+    const decision = decide({ 'a': [3, 1], 'b': [3, 2], 'c': [1, 3] });
+    expect(decision).toEqual({ column: 3, tieBreak: 'none' });
+  });
+
+  it('should transfer eliminated ballots to their next choice', () => {
+    // Plurality would play column 0, but the majority prefers column 4 over it
+    const decision = decide({
+      'a': [0],
+      'b': [0],
+      'c': [4, 6],
+      'd': [6, 4],
+      'e': [4]
+    });
+
+    expect(decision).toEqual({ column: 4, tieBreak: 'none' });
+  });
+
+  it('should exhaust ballots whose choices are all eliminated', () => {
+    const decision = decide({
+      'a': [1],
+      'b': [1],
+      'c': [2, 5],
+      'd': [3, 2],
+      'e': [5, 2]
+    });
+
+    // Round 1: 1=2, 2=1, 3=1, 5=1 → eliminate 2, 3 and 5; their ballots exhaust
+    expect(decision).toEqual({ column: 1, tieBreak: 'none' });
+  });
+
+  it('should ignore full columns on ballots', () => {
+    const decision = decide({ 'a': [0, 2], 'b': [0, 2], 'c': [2] }, [1, 2, 3, 4, 5, 6]);
+    expect(decision).toEqual({ column: 2, tieBreak: 'none' });
+  });
+
+  it('should treat plain votes as single-choice ballots', () => {
+    const votes = { 'a': 1, 'b': 5, 'c': 5 };
+    const decision = turnDecider.decideTurn([0, 1, 0, 0, 0, 2, 0], allCols, { votes, ballots: { 'a': [1, 5] } });
+
+    expect(decision).toEqual({ column: 5, tieBreak: 'none' });
+  });
+
+  it('should hand a dead heat to the wrapped decider', () => {
+    const decision = decide({ 'captain': [5, 2], 'b': [2, 5] }, allCols, 'captain');
+    expect(decision).toEqual({ column: 5, tieBreak: 'captain' });
+
+    const fallback = decide({ 'a': [5], 'b': [2] });
+    expect(fallback).toEqual({ column: 2, tieBreak: 'leftmost' });
+  });
+
+  it('should fall back when nobody voted', () => {
+    const decision = decide({}, [3, 4]);
+    expect(decision).toEqual({ column: 3, tieBreak: 'leftmost' });
+  });
 });
@@ -2,8 +2,11 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { TurnManager } from '../src/services/TurnManager';
 import { GameEngine } from '../src/engine/GameEngine';
 import { MajorityTurnDecider } from '../src/services/MajorityTurnDecider';
+import { CaptainTurnDecider } from '../src/services/CaptainTurnDecider';
+import { RankedChoiceTurnDecider } from '../src/services/RankedChoiceTurnDecider';
 import { FakeClock } from '../src/utils/Clock';
 import type { GameState, Player } from '../src/types';
+import { toMove } from '../src/types';
 
 describe('TurnManager', () => {
   let turnManager: TurnManager;
@@ -51,6 +54,47 @@ describe('TurnManager', () => {
     });
   });
 
+  describe('resumeVoting', () => {
+    it('should reschedule the remaining window from the stored deadline', () => {
+      clock.setTime(5000);
+      gameState.endsAt = 12000;
+      gameState.votes = { 'p1': 3 };
+
+      expect(turnManager.resumeVoting(gameState)).toBe(true);
+      expect(clock.getNextTimeoutTime()).toBe(12000);
+      expect(gameState.votes).toEqual({ 'p1': 3 });
+    });
+
+    it('should notify the completion callback when the resumed window closes', () => {
+      clock.setTime(5000);
+      gameState.endsAt = 8000;
+      let timeoutResult: any = null;
+      turnManager.setCompletionCallback('test-room', (_roomCode: string, result: any) => {
+        timeoutResult = result;
+      });
+
+      turnManager.resumeVoting(gameState);
+      clock.tick(3000);
+
+      expect(timeoutResult).toEqual({ timeout: true });
+    });
+
+    it('should not resume a window whose deadline has passed', () => {
+      clock.setTime(5000);
+      gameState.endsAt = 4000;
+
+      expect(turnManager.resumeVoting(gameState)).toBe(false);
+      expect(clock.hasScheduledTimeouts()).toBe(false);
+    });
+
+    it('should not resume when no window was open', () => {
+      delete gameState.endsAt;
+
+      expect(turnManager.resumeVoting(gameState)).toBe(false);
+      expect(clock.hasScheduledTimeouts()).toBe(false);
+    });
+  });
+
   describe('castVote', () => {
     beforeEach(() => {
       turnManager.startVoting(gameState, mockPlayers, 15);
@@ -98,6 +142,14 @@ describe('TurnManager', () => {
       expect(result.error).toBe('Column is full');
     });
 
+    it('should accept votes for columns on a wider board', () => {
+      const wideGame = gameEngine.newGame({ rows: 8, cols: 9, winLength: 5 });
+      turnManager.startVoting(wideGame, mockPlayers, 15);
+      
+      expect(turnManager.castVote(wideGame, mockPlayers, 'p1', 8).success).toBe(true);
+      expect(turnManager.castVote(wideGame, mockPlayers, 'p1', 9).error).toBe('Invalid column');
+    });
+
     it('should reject vote when voting window is closed', () => {
       delete gameState.endsAt; // Simulate closed voting
       
@@ -108,6 +160,61 @@ describe('TurnManager', () => {
     });
   });
 
+  describe('castBallot', () => {
+    beforeEach(() => {
+      turnManager.startVoting(gameState, mockPlayers, 15);
+    });
+
+    it('should store the ranking and mirror the first choice as the vote', () => {
+      const result = turnManager.castBallot(gameState, mockPlayers, 'p1', [3, 1, 5]);
+
+      expect(result.success).toBe(true);
+      expect(gameState.ballots).toEqual({ 'p1': [3, 1, 5] });
+      expect(gameState.votes['p1']).toBe(3);
+    });
+
+    it('should reject rankings that are empty or too long', () => {
+      expect(turnManager.castBallot(gameState, mockPlayers, 'p1', []).success).toBe(false);
+      expect(turnManager.castBallot(gameState, mockPlayers, 'p1', [0, 1, 2, 3]).success).toBe(false);
+    });
+
+    it('should reject duplicate or invalid columns', () => {
+      expect(turnManager.castBallot(gameState, mockPlayers, 'p1', [2, 2]).error).toBe('Each column can only be ranked once');
+      expect(turnManager.castBallot(gameState, mockPlayers, 'p1', [2, 9]).error).toBe('Invalid column');
+    });
+
+    it('should reject ballots from the waiting team', () => {
+      const result = turnManager.castBallot(gameState, mockPlayers, 'p3', [1, 2]);
+      expect(result.error).toBe('Not your team\'s turn');
+    });
+
+    it('should replace a ballot with a later plain vote', () => {
+      turnManager.castBallot(gameState, mockPlayers, 'p1', [3, 1]);
+      turnManager.castVote(gameState, mockPlayers, 'p1', 6);
+
+      expect(gameState.ballots).toEqual({});
+      expect(gameState.votes['p1']).toBe(6);
+    });
+
+    it('should resolve ballots by instant-runoff and clear them afterwards', () => {
+      turnManager = new TurnManager(gameEngine, new RankedChoiceTurnDecider(), clock);
+      for (const id of ['p5', 'p6', 'p7']) {
+        mockPlayers.push({ id, nickname: id, team: 'red', isAdmin: false, matchingVotes: 0, connected: true });
+      }
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      turnManager.castBallot(gameState, mockPlayers, 'p1', [0]);
+      turnManager.castBallot(gameState, mockPlayers, 'p2', [0]);
+      turnManager.castBallot(gameState, mockPlayers, 'p5', [4]);
+      turnManager.castBallot(gameState, mockPlayers, 'p6', [4, 0]);
+      turnManager.castBallot(gameState, mockPlayers, 'p7', [6, 4]);
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.chosenColumn).toBe(4);
+      expect(gameState.ballots).toBeUndefined();
+    });
+  });
+
   describe('finishVoting', () => {
     beforeEach(() => {
       turnManager.startVoting(gameState, mockPlayers, 15);
@@ -124,7 +231,9 @@ describe('TurnManager', () => {
       expect(gameState.currentTeam).toBe('yellow');
       expect(gameState.round).toBe(2);
       expect(gameState.lastMove).toEqual({ col: 3, row: 5, team: 'red' });
+      expect(gameState.lastMoves).toEqual({ red: { col: 3, row: 5 } });
       expect(gameState.votes).toEqual({});
+      expect(gameState.perColumnCounts).toEqual([0, 0, 0, 0, 0, 0, 0]);
       expect(gameState.endsAt).toBeUndefined();
     });
 
@@ -149,6 +258,46 @@ describe('TurnManager', () => {
       ]);
     });
 
+    it('should pass the turn around every team and let any of them win', () => {
+      const players: Player[] = [
+        ...mockPlayers,
+        { id: 'p5', nickname: 'Player5', team: 'green', isAdmin: false, matchingVotes: 0, connected: true },
+      ];
+      gameState.teams = ['red', 'yellow', 'green'];
+      gameState.currentTeam = 'yellow';
+      gameState.votes = { 'p3': 0 };
+      turnManager.finishVoting(gameState, players);
+      expect(gameState.currentTeam).toBe('green');
+
+      gameState.board[5]![4] = 'green';
+      gameState.board[5]![5] = 'green';
+      gameState.board[5]![6] = 'green';
+      gameState.votes = { 'p5': 3 };
+      const result = turnManager.finishVoting(gameState, players);
+
+      expect(result.gameEnded).toBe(true);
+      expect(gameState.result?.winner).toBe('green');
+    });
+
+    it('should use the game win length when checking for a win', () => {
+      const wideGame = gameEngine.newGame({ rows: 8, cols: 9, winLength: 5 });
+      turnManager.startVoting(wideGame, mockPlayers, 15);
+      for (let col = 0; col < 3; col++) {
+        wideGame.board[7]![col] = 'red';
+      }
+      
+      wideGame.votes = { 'p1': 3, 'p2': 3 };
+      let result = turnManager.finishVoting(wideGame, mockPlayers);
+      expect(result.gameEnded).toBe(false);
+      
+      wideGame.currentTeam = 'red';
+      turnManager.startVoting(wideGame, mockPlayers, 15);
+      wideGame.votes = { 'p1': 4, 'p2': 4 };
+      result = turnManager.finishVoting(wideGame, mockPlayers);
+      expect(result.gameEnded).toBe(true);
+      expect(wideGame.result?.winningLine).toHaveLength(5);
+    });
+
     it('should detect draw condition', () => {
       // Create a specific board state that will result in a draw
       // Fill entire board with alternating pattern to avoid wins
@@ -220,6 +369,38 @@ describe('TurnManager', () => {
       expect(gameState.board[5]![chosenColumn]).toBe('red'); // board[row][col]
     });
 
+    it('should report which tie-break rule decided the move', () => {
+      gameState.votes = { 'p1': 5, 'p2': 3 };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.tieBreak).toBe('random');
+      expect(gameState.lastTieBreak).toBe('random');
+    });
+
+    it('should let the team admin break ties', () => {
+      turnManager = new TurnManager(gameEngine, new CaptainTurnDecider('leftmost'), clock);
+      mockPlayers[1]!.isAdmin = true;
+      gameState.votes = { 'p1': 2, 'p2': 4 };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.chosenColumn).toBe(4);
+      expect(result.tieBreak).toBe('captain');
+    });
+
+    it('should use the first connected teammate as captain when the admin is on the other team', () => {
+      turnManager = new TurnManager(gameEngine, new CaptainTurnDecider('leftmost'), clock);
+      mockPlayers[2]!.isAdmin = true;
+      mockPlayers[0]!.connected = false;
+      gameState.votes = { 'p1': 2, 'p2': 4 };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.chosenColumn).toBe(4);
+      expect(result.tieBreak).toBe('captain');
+    });
+
     it('should handle no votes by choosing random valid column', () => {
       gameState.votes = {}; // No votes
       
@@ -236,6 +417,245 @@ describe('TurnManager', () => {
     });
   });
 
+  describe('PopOut', () => {
+    beforeEach(() => {
+      gameState.variant = 'popout';
+      gameState.board[5]![2] = 'red';
+      gameState.board[4]![2] = 'yellow';
+      gameState.board[5]![4] = 'yellow';
+      turnManager.startVoting(gameState, mockPlayers, 15);
+    });
+
+    it('should accept pops of the team\'s own pieces only', () => {
+      expect(turnManager.castVote(gameState, mockPlayers, 'p1', toMove('pop', 2, 7, 'popout')).success).toBe(true);
+      expect(turnManager.castVote(gameState, mockPlayers, 'p2', toMove('pop', 4, 7, 'popout'))).toEqual({
+        success: false,
+        error: 'You can only pop your own piece from the bottom row'
+      });
+      expect(turnManager.castVote(gameState, mockPlayers, 'p2', 14).success).toBe(false);
+    });
+
+    it('should tally drops and pops separately and apply the winning pop', () => {
+      gameState.votes = { 'p1': toMove('pop', 2, 7, 'popout'), 'p2': toMove('pop', 2, 7, 'popout') };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result).toMatchObject({ moveApplied: true, gameEnded: false, chosenColumn: 2, popped: true });
+      expect(gameState.perColumnCounts).toHaveLength(14);
+      expect(gameState.board[5]![2]).toBe('yellow');
+      expect(gameState.board[4]![2]).toBeNull();
+      expect(gameState.lastMove).toEqual({ col: 2, row: 5, team: 'red', popped: true });
+      expect(gameState.currentTeam).toBe('yellow');
+    });
+
+    it('should give the game to the team that popped when both connect', () => {
+      // Popping column 3 completes red's row 4 and yellow's row 3 at once
+      gameState.board = gameEngine.newGame().board;
+      for (let col = 0; col < 3; col++) {
+        gameState.board[5]![col] = 'yellow';
+        gameState.board[4]![col] = 'red';
+        gameState.board[3]![col] = 'yellow';
+      }
+      gameState.board[5]![3] = 'red';
+      gameState.board[4]![3] = 'yellow';
+      gameState.board[3]![3] = 'red';
+      gameState.board[2]![3] = 'yellow';
+      gameState.votes = { 'p1': toMove('pop', 3, 7, 'popout') };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.gameEnded).toBe(true);
+      expect(gameState.result?.winner).toBe('red');
+    });
+
+    it('should keep playing on a full board while a pop is possible', () => {
+      for (let row = 0; row < 6; row++) {
+        for (let col = 0; col < 7; col++) {
+          gameState.board[row]![col] = (row + Math.floor(col / 2)) % 2 === 0 ? 'red' : 'yellow';
+        }
+      }
+      gameState.board[5]![0] = 'yellow';
+      gameState.board[5]![6] = 'red';
+      gameState.board[0]![6] = 'red';
+      gameState.votes = {};
+      gameState.currentTeam = 'red';
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result.moveApplied).toBe(true);
+      expect(result.popped).toBe(true);
+    });
+  });
+
+  describe('power-ups', () => {
+    const powerUp = (kind: 'anvil' | 'bomb' | 'wall', col: number) => toMove(kind, col, 7, 'powerups');
+
+    beforeEach(() => {
+      gameState.variant = 'powerups';
+      gameState.powerUps = {
+        red: { anvil: 1, bomb: 1, wall: 1 },
+        yellow: { anvil: 1, bomb: 1, wall: 1 },
+      };
+      turnManager.startVoting(gameState, mockPlayers, 15);
+    });
+
+    it('should only accept special pieces the team has left', () => {
+      expect(turnManager.castVote(gameState, mockPlayers, 'p1', powerUp('anvil', 3)).success).toBe(true);
+
+      gameState.powerUps!.red!.bomb = 0;
+      expect(turnManager.castVote(gameState, mockPlayers, 'p2', powerUp('bomb', 3))).toEqual({
+        success: false,
+        error: 'Your team has no bomb left'
+      });
+      expect(turnManager.castVote(gameState, mockPlayers, 'p2', 28).success).toBe(false);
+    });
+
+    it('should play the chosen piece and use it up', () => {
+      gameState.votes = { 'p1': powerUp('wall', 3), 'p2': powerUp('wall', 3) };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result).toMatchObject({ moveApplied: true, gameEnded: false, chosenColumn: 3, piece: 'wall' });
+      expect(gameState.perColumnCounts).toHaveLength(28);
+      expect(gameState.board[5]![3]).toBe('wall');
+      expect(gameState.lastMove).toEqual({ col: 3, row: 5, team: 'red', piece: 'wall' });
+      expect(gameState.powerUps!.red).toEqual({ anvil: 1, bomb: 1, wall: 0 });
+      expect(gameState.currentTeam).toBe('yellow');
+    });
+
+    it('should end the game when a bomb connects the other team', () => {
+      // Clearing column 3 drops yellow's piece into the gap in row 5
+      for (let col = 0; col < 3; col++) {
+        gameState.board[5]![col] = 'yellow';
+      }
+      gameState.board[5]![3] = 'red';
+      gameState.board[4]![3] = 'red';
+      gameState.board[3]![3] = 'red';
+      gameState.board[2]![3] = 'yellow';
+      gameState.board[5]![4] = 'red';
+      gameState.votes = { 'p1': powerUp('bomb', 4) };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result).toMatchObject({ moveApplied: true, gameEnded: true, piece: 'bomb' });
+      expect(gameState.result?.winner).toBe('yellow');
+      expect(gameState.result?.winningLine).toHaveLength(4);
+    });
+  });
+
+  describe('wrap-around', () => {
+    it('should end the game on a row that wraps round the side edges', () => {
+      gameState.wrapAround = true;
+      for (const col of [4, 5, 6]) {
+        gameState.board[5]![col] = 'red';
+      }
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      gameState.votes = { 'p1': 0, 'p2': 0 };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers);
+
+      expect(result).toMatchObject({ moveApplied: true, gameEnded: true, chosenColumn: 0 });
+      expect(gameState.result?.winner).toBe('red');
+      expect(gameState.result?.winningLine).toContainEqual({ col: 0, row: 5 });
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should freeze the remaining window and drop the deadline', () => {
+      clock.setTime(1000);
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      clock.tick(4000);
+
+      expect(turnManager.pause(gameState)).toBe(true);
+      expect(gameState.endsAt).toBeUndefined();
+      expect(gameState.pausedRemainingMs).toBe(11000);
+      expect(clock.hasScheduledTimeouts()).toBe(false);
+      expect(turnManager.castVote(gameState, mockPlayers, 'p1', 3).success).toBe(false);
+    });
+
+    it('should reopen the window with the time it had left', () => {
+      clock.setTime(1000);
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      clock.tick(4000);
+      turnManager.pause(gameState);
+      clock.tick(60000);
+
+      expect(turnManager.resume(gameState)).toBe(true);
+      expect(gameState.endsAt).toBe(65000 + 11000);
+      expect(gameState.pausedRemainingMs).toBeUndefined();
+      expect(clock.getNextTimeoutTime()).toBe(65000 + 11000);
+    });
+
+    it('should not charge the voting team\'s bank while paused', () => {
+      clock.setTime(1000);
+      gameState.clocks = { remainingMs: { red: 60000, yellow: 60000 }, incrementMs: 0 };
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      clock.tick(10000);
+      turnManager.pause(gameState);
+      clock.tick(30000);
+      turnManager.resume(gameState);
+      clock.tick(5000);
+
+      expect(turnManager.getTimeBanks(gameState)).toEqual({ red: 45000, yellow: 60000 });
+    });
+
+    it('should only pause an open window and only resume a paused one', () => {
+      expect(turnManager.pause(gameState)).toBe(false);
+      expect(turnManager.resume(gameState)).toBe(false);
+    });
+  });
+
+  describe('time banks', () => {
+    beforeEach(() => {
+      clock.setTime(1000);
+      gameState.clocks = { remainingMs: { red: 60000, yellow: 45000 }, incrementMs: 5000 };
+    });
+
+    it('should give the voting team whatever is left on its bank', () => {
+      turnManager.startVoting(gameState, mockPlayers, 15);
+
+      expect(gameState.endsAt).toBe(1000 + 60000);
+      expect(gameState.clocks!.runningSince).toBe(1000);
+      expect(clock.getNextTimeoutTime()).toBe(1000 + 60000);
+    });
+
+    it('should drain only the voting team and credit the increment', () => {
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      clock.tick(20000);
+
+      expect(turnManager.getTimeBanks(gameState)).toEqual({ red: 40000, yellow: 45000 });
+      expect(turnManager.stopClock(gameState)).toBe(true);
+      expect(gameState.clocks!.remainingMs).toEqual({ red: 45000, yellow: 45000 });
+      expect(gameState.clocks!.runningSince).toBeUndefined();
+    });
+
+    it('should report a bank that ran out without crediting the increment', () => {
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      clock.tick(60000);
+
+      expect(turnManager.stopClock(gameState)).toBe(false);
+      expect(gameState.clocks!.remainingMs.red).toBe(0);
+    });
+
+    it('should play a forced column regardless of the votes', () => {
+      turnManager.startVoting(gameState, mockPlayers, 15);
+      gameState.votes = { 'p1': 3, 'p2': 3 };
+
+      const result = turnManager.finishVoting(gameState, mockPlayers, 0);
+
+      expect(result.chosenColumn).toBe(0);
+      expect(result.tieBreak).toBe('none');
+      expect(gameState.board[5]![0]).toBe('red');
+    });
+
+    it('should keep the per-turn timer without time banks', () => {
+      delete gameState.clocks;
+
+      expect(turnManager.stopClock(gameState)).toBe(true);
+      expect(turnManager.getTimeBanks(gameState)).toBeUndefined();
+    });
+  });
+
   describe('automatic voting deadline', () => {
     it('should automatically finish voting when timer expires', () => {
       clock.setTime(1000);